@@ -48,6 +48,25 @@ class CLI {
       .option('--no-space-commas', 'No spaces after commas')
       .option('--max-errors <count>', 'Maximum number of errors', '10')
       .option('--timeout <ms>', 'Conversion timeout in milliseconds', '30000')
+      .option('--dialect <dialect>', 'Pseudocode dialect (igcse|alevel)', 'igcse')
+      .option('--prefer-case', 'Convert equality-based if/elif chains to CASE statements')
+      .option('--structured-loops', 'Rewrite break and continue without BREAK or CONTINUE')
+      .option(
+        '--record-suffix <suffix>',
+        'Suffix naming record types (Point → PointRecord)',
+        'Record'
+      )
+      .option(
+        '--static-arrays',
+        'Convert list operations to fixed-size arrays with a length counter'
+      )
+      .option('--array-capacity <size>', 'Capacity of static arrays without a size hint', '100')
+      .option(
+        '--declarations <placement>',
+        'Generate DECLARE statements (none|top|beforeFirstUse)',
+        'none'
+      )
+      .option('--config <file>', 'Configuration file with call mappings')
       .option('--watch', 'Watch for file changes')
       .option('--verbose', 'Verbose output')
       .action(this.handleConvert.bind(this));
@@ -101,7 +120,12 @@ class CLI {
         console.log(`Options:`, options);
       }
 
-      const conversionOptions = this.buildConversionOptions(options);
+      // Command-line options win, but call mappings only come from the configuration file
+      const { callMappings } = await this.loadConfig(options.config);
+      const conversionOptions: ConversionOptions = {
+        ...this.buildConversionOptions(options),
+        ...(callMappings && { callMappings }),
+      };
       const inputStat = await fs.stat(input);
 
       if (inputStat.isFile()) {
@@ -461,6 +485,13 @@ class CLI {
       spaceAfterCommas: !cliOptions.noSpaceCommas,
       maxErrors: parseInt(cliOptions.maxErrors) || 10,
       timeout: parseInt(cliOptions.timeout) || 30000,
+      preferCase: cliOptions.preferCase || false,
+      structuredLoops: cliOptions.structuredLoops || false,
+      declarations: cliOptions.declarations || 'none',
+      dialect: cliOptions.dialect || 'igcse',
+      recordSuffix: cliOptions.recordSuffix ?? 'Record',
+      staticArrays: cliOptions.staticArrays || false,
+      arrayCapacity: parseInt(cliOptions.arrayCapacity) || 100,
     };
   }
 
@@ -19,14 +19,7 @@ export class Converter {
     this.options = this.mergeDefaultOptions(options);
 
     // Initialize parser
-    const parserOptions: ParserOptions = {
-      strictMode: this.options.strictMode ?? false,
-      includeComments: this.options.includeComments ?? true,
-      preserveWhitespace: this.options.preserveWhitespace ?? false,
-      maxErrors: this.options.maxErrors ?? 100,
-      timeout: this.options.timeout ?? 30000,
-    };
-    this.parser = new PythonParser(parserOptions);
+    this.parser = new PythonParser(this.createParserOptions());
 
     // Initialize emitters
     const emitterOptions: EmitterOptions = {
@@ -189,7 +182,8 @@ export class Converter {
   updateOptions(newOptions: Partial<ConversionOptions>): void {
     this.options = this.mergeDefaultOptions({ ...this.options, ...newOptions });
 
-    // Update parser options (implement as needed)
+    // Update parser options
+    this.parser = new PythonParser(this.createParserOptions());
 
     // Update emitter options
     const emitterOptions: EmitterOptions = {
@@ -271,6 +265,27 @@ export class Converter {
     };
   }
 
+  /**
+   * Create parser options from conversion options
+   */
+  private createParserOptions(): ParserOptions {
+    return {
+      strictMode: this.options.strictMode ?? false,
+      includeComments: this.options.includeComments ?? true,
+      preserveWhitespace: this.options.preserveWhitespace ?? false,
+      maxErrors: this.options.maxErrors ?? 100,
+      timeout: this.options.timeout ?? 30000,
+      preferCase: this.options.preferCase ?? false,
+      structuredLoops: this.options.structuredLoops ?? false,
+      declarations: this.options.declarations ?? 'none',
+      dialect: this.options.dialect ?? 'igcse',
+      callMappings: this.options.callMappings ?? [],
+      recordSuffix: this.options.recordSuffix ?? 'Record',
+      staticArrays: this.options.staticArrays ?? false,
+      arrayCapacity: this.options.arrayCapacity ?? 100,
+    };
+  }
+
   /**
    * Merge with default options
    */
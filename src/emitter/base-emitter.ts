@@ -227,81 +227,26 @@ export abstract class BaseEmitter {
       'DIV',
     ];
 
-    // Protect string literals
-    const stringLiterals: string[] = [];
-    let result = text.replace(/"([^"]*)"/g, (_, content) => {
-      const placeholder = `__STRING_${stringLiterals.length}__`;
-      stringLiterals.push(content);
-      return `"${placeholder}"`;
-    });
-
+    const { code, restore } = this.protectLiterals(text, false);
+    let result = code;
     for (const keyword of keywords) {
       const regex = new RegExp(`\\b${keyword.toLowerCase()}\\b`, 'gi');
       result = result.replace(regex, keyword);
     }
-
-    // Restore string literals
-    result = result.replace(/"__STRING_(\d+)__"/g, (_, index) => {
-      return `"${stringLiterals[parseInt(index)]}"`;
-    });
-
-    return result;
+    return restore(result);
   }
 
   /**
-   * Convert operators (Python → IGCSE)
+   * Convert Python leftovers to IGCSE; operators are already converted by the
+   * expression printer, so only assignments, input() and # comments remain
    */
   private convertOperators(text: string): string {
-    let result = text;
-
-    // Protect comment sections (temporarily replace Python # comments and IGCSE // comments)
-    const commentMatches: string[] = [];
-    result = result.replace(/(#.*$|\/\/.*$)/gm, (match) => {
-      const index = commentMatches.length;
-      commentMatches.push(match);
-      return `__COMMENT_${index}__`;
-    });
-
-    // Protect string literals
-    const stringLiterals: string[] = [];
-    result = result.replace(/"([^"]*)"/g, (_, content) => {
-      const placeholder = `__STRING_${stringLiterals.length}__`;
-      stringLiterals.push(content);
-      return `"${placeholder}"`;
-    });
-
-    // Convert comparison operators (process before assignment operators)
-    result = result.replace(/!=/g, '≠');
-    result = result.replace(/<=/g, '≤');
-    result = result.replace(/>=/g, '≥');
-    result = result.replace(/==/g, '=');
+    const { code, literals, restore } = this.protectLiterals(text, true);
+    let result = code;
 
-    // Convert assignment operators (only = that are not comparison operators)
     // Convert variable = format from line start to ←
     result = result.replace(/^(\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*/gm, '$1$2 ← ');
 
-    // Convert logical operators
-    result = result.replace(/\band\b/gi, 'AND');
-    result = result.replace(/\bor\b/gi, 'OR');
-    result = result.replace(/\bnot\b/gi, 'NOT');
-
-    // Convert string concatenation (convert + to & on lines containing string literals)
-    const lines = result.split('\n');
-    result = lines
-      .map((line) => {
-        // Check if line contains string literals (parts enclosed in " or ')
-        if (/["']/.test(line)) {
-          // Convert + for string concatenation to &
-          return line.replace(/\s*\+\s*/g, ' & ');
-        }
-        return line;
-      })
-      .join('\n');
-
-    // Convert arithmetic operators (only // that are not comments)
-    result = result.replace(/\s*%\s*/g, ' MOD ');
-    result = result.replace(/\s*\/\/\s*/g, ' DIV ');
-
     // Convert input() function (special handling for assignment statements)
     result = result.replace(/(\w+)\s*←\s*input\(\)/g, 'INPUT $1');
     result = result.replace(/(\w+)\s*←\s*input\(([^)]+)\)/g, 'OUTPUT $2\nINPUT $1');
@@ -309,18 +254,30 @@ export abstract class BaseEmitter {
     result = result.replace(/\binput\(\)/g, 'INPUT');
     result = result.replace(/\binput\(([^)]+)\)/g, 'INPUT($1)');
 
-    // Restore string literals
-    result = result.replace(/"__STRING_(\d+)__"/g, (_, index) => {
-      return `"${stringLiterals[parseInt(index)]}"`;
+    // Restore literals, converting # comments to //
+    literals.forEach((literal, index) => {
+      literals[index] = literal.replace(/^#/, '//');
     });
+    return restore(result);
+  }
 
-    // Restore comments (convert # to //, leave // as is)
-    commentMatches.forEach((comment, index) => {
-      const convertedComment = comment.startsWith('#') ? comment.replace(/^#/, '//') : comment;
-      result = result.replace(`__COMMENT_${index}__`, convertedComment);
+  /**
+   * Replace string literals (and optionally comments) with placeholders so that
+   * formatting never changes them; restore() puts them back
+   */
+  private protectLiterals(
+    text: string,
+    includeComments: boolean
+  ): { code: string; literals: string[]; restore: (code: string) => string } {
+    const literals: string[] = [];
+    const pattern = includeComments ? /"[^"\n]*"|\/\/.*$|#.*$/gm : /"[^"\n]*"/g;
+    const code = text.replace(pattern, (match) => {
+      literals.push(match);
+      return `__LITERAL_${literals.length - 1}__`;
     });
-
-    return result;
+    const restore = (result: string) =>
+      result.replace(/__LITERAL_(\d+)__/g, (_, index) => literals[parseInt(index)]);
+    return { code, literals, restore };
   }
 
   /**
@@ -329,17 +286,28 @@ export abstract class BaseEmitter {
   private addSpaceAroundOperators(text: string): string {
     const operators = ['←', '=', '≠', '<', '>', '≤', '≥', '+', '-', '*', '/', 'MOD', 'DIV'];
 
-    let result = text;
+    const { code, restore } = this.protectLiterals(text, true);
+    let result = code;
     for (const op of operators) {
-      // Don't process if space already exists
-      const regex = new RegExp(`(?<!\\s)${this.escapeRegex(op)}(?!\\s)`, 'g');
+      // Don't process if space already exists, for a sign such as (-x), f(-1) or s[::-1],
+      // for MOD and DIV inside a name such as MODE, or for ** kept from Python code
+      const before =
+        op === '-' || op === '+'
+          ? '\\s([,:\\['
+          : op === '*'
+            ? '\\s*'
+            : /^\w+$/.test(op)
+              ? '\\s\\w'
+              : '\\s';
+      const after = op === '*' ? '\\s*' : /^\w+$/.test(op) ? '\\s\\w' : '\\s';
+      const regex = new RegExp(`(?<![${before}])${this.escapeRegex(op)}(?![${after}])`, 'g');
       result = result.replace(regex, ` ${op} `);
     }
 
     // Remove duplicate spaces
     result = result.replace(/\s+/g, ' ');
 
-    return result;
+    return restore(result);
   }
 
   /**
@@ -148,6 +148,10 @@ export class TextEmitter extends BaseEmitter {
         this.emitCase(node);
         break;
 
+      case 'case_branch':
+        this.emitCaseBranch(node);
+        break;
+
       case 'expression':
         this.emitExpression(node);
         break;
@@ -393,7 +397,7 @@ export class TextEmitter extends BaseEmitter {
       this.emitBlankLine();
     }
 
-    const text = this.formatText(node.text);
+    const text = this.formatText(this.addParameterModes(node));
     this.emitLine(text);
 
     this.increaseIndent();
@@ -425,7 +429,7 @@ export class TextEmitter extends BaseEmitter {
       this.emitBlankLine();
     }
 
-    const text = this.formatText(node.text);
+    const text = this.formatText(this.addParameterModes(node));
     this.emitLine(text);
 
     this.increaseIndent();
@@ -449,6 +453,25 @@ export class TextEmitter extends BaseEmitter {
     }
   }
 
+  /**
+   * パラメータにBYREF/BYVALを付与
+   * 全てBYREFなら先頭にのみ付け、混在する場合は各パラメータに明示する
+   */
+  private addParameterModes(node: IR): string {
+    const params = node.meta?.params;
+    const byRefParams = node.meta?.byRefParams;
+    if (!params || !byRefParams || byRefParams.length === 0) {
+      return node.text;
+    }
+
+    const isByRef = (param: string) => byRefParams.includes(param.split(' : ')[0]);
+    const withModes = params.every(isByRef)
+      ? `BYREF ${params.join(', ')}`
+      : params.map((param) => `${isByRef(param) ? 'BYREF' : 'BYVAL'} ${param}`).join(', ');
+
+    return node.text.replace(`(${params.join(', ')})`, `(${withModes})`);
+  }
+
   /**
    * RETURN文の出力
    */
@@ -478,12 +501,15 @@ export class TextEmitter extends BaseEmitter {
     const text = this.formatText(node.text);
     this.emitLine(text);
 
-    this.increaseIndent();
-    this.emitChildren(node);
-    this.decreaseIndent();
+    // 列挙型 (TYPE Day = (MON, TUE)) は1行で完結する
+    if (!/^TYPE \w+\s*=/.test(node.text)) {
+      this.increaseIndent();
+      this.emitChildren(node);
+      this.decreaseIndent();
 
-    // ENDTYPEを元のインデントレベルで出力
-    this.emitLine('ENDTYPE');
+      // ENDTYPEを元のインデントレベルで出力
+      this.emitLine('ENDTYPE');
+    }
 
     if (this.context.formatter.insertBlankLines) {
       this.emitBlankLine();
@@ -502,7 +528,16 @@ export class TextEmitter extends BaseEmitter {
     this.emitLine(text);
 
     this.increaseIndent();
-    this.emitChildren(node);
+    // Output ENDCLASS at the original indent level
+    for (const child of node.children) {
+      if (child.kind === 'statement' && child.text.trim() === 'ENDCLASS') {
+        this.decreaseIndent();
+        this.emitNode(child);
+        this.increaseIndent();
+      } else {
+        this.emitNode(child);
+      }
+    }
     this.decreaseIndent();
 
     if (this.context.formatter.insertBlankLines) {
@@ -520,6 +555,25 @@ export class TextEmitter extends BaseEmitter {
     this.increaseIndent();
     this.emitChildren(node);
     this.decreaseIndent();
+
+    this.emitLine('ENDCASE');
+  }
+
+  /**
+   * CASE分岐の出力
+   * 単一行の本体はラベルと同じ行に出力する（例: "N" : y ← y + 1）
+   */
+  private emitCaseBranch(node: IR): void {
+    const [first] = node.children;
+    if (node.children.length === 1 && first.children.length === 0 && first.text) {
+      this.emitLine(`${node.text} : ${this.formatText(first.text)}`);
+      return;
+    }
+
+    this.emitLine(`${node.text} :`);
+    this.increaseIndent();
+    this.emitChildren(node);
+    this.decreaseIndent();
   }
 
   /**
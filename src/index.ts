@@ -11,7 +11,14 @@ export { Converter as PythonToIGCSEConverter } from './converter';
 import { Converter } from './converter';
 
 // Parser exports
-export { BaseParser, PythonParser, PythonASTVisitor, createParser } from './parser';
+export {
+  BaseParser,
+  PythonParser,
+  PythonASTVisitor,
+  createParser,
+  CallRegistry,
+  DEFAULT_CALL_MAPPINGS,
+} from './parser';
 
 // Emitter exports
 export { BaseEmitter, TextEmitter, MarkdownEmitter, createEmitter, EmitterUtils } from './emitter';
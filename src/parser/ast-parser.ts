@@ -0,0 +1,1720 @@
+// Recursive-descent parser producing Python ast-shaped nodes
+import { Token, Tokenizer, PythonSyntaxError, decodeEscapes } from './tokenizer';
+
+/**
+ * Basic interface for Python AST nodes
+ */
+interface ASTNode {
+  type: string;
+  lineno?: number;
+  col_offset?: number;
+  end_lineno?: number;
+  end_col_offset?: number;
+  inlineComment?: string;
+  [key: string]: any;
+}
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+const KEYWORDS = new Set([
+  'False',
+  'None',
+  'True',
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'finally',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'return',
+  'try',
+  'while',
+  'with',
+  'yield',
+]);
+
+const AUG_ASSIGN_OPS: Record<string, string> = {
+  '+=': 'Add',
+  '-=': 'Sub',
+  '*=': 'Mult',
+  '/=': 'Div',
+  '//=': 'FloorDiv',
+  '%=': 'Mod',
+  '**=': 'Pow',
+  '@=': 'MatMult',
+  '&=': 'BitAnd',
+  '|=': 'BitOr',
+  '^=': 'BitXor',
+  '<<=': 'LShift',
+  '>>=': 'RShift',
+};
+
+const COMPARE_OPS: Record<string, string> = {
+  '==': 'Eq',
+  '!=': 'NotEq',
+  '<': 'Lt',
+  '<=': 'LtE',
+  '>': 'Gt',
+  '>=': 'GtE',
+};
+
+/** Binary operator levels, lowest precedence first */
+const BINARY_LEVELS: Array<Record<string, string>> = [
+  { '|': 'BitOr' },
+  { '^': 'BitXor' },
+  { '&': 'BitAnd' },
+  { '<<': 'LShift', '>>': 'RShift' },
+  { '+': 'Add', '-': 'Sub' },
+  { '*': 'Mult', '/': 'Div', '//': 'FloorDiv', '%': 'Mod', '@': 'MatMult' },
+];
+
+const UNARY_OPS: Record<string, string> = { '-': 'USub', '+': 'UAdd', '~': 'Invert' };
+
+/**
+ * Parser for Python source code
+ * Builds nodes shaped like Python's ast module (with lineno/col_offset on every node)
+ */
+export class ASTParser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(source: string) {
+    this.tokens = new Tokenizer(source).tokenize();
+  }
+
+  /**
+   * Parse a whole module
+   */
+  parseModule(): ASTNode {
+    const body: ASTNode[] = [];
+    while (!this.check('ENDMARKER')) {
+      body.push(...this.parseStatement());
+    }
+    return { type: 'Module', body, type_ignores: [] };
+  }
+
+  /**
+   * Parse a single expression (used for f-string replacement fields)
+   */
+  parseExpressionOnly(): ASTNode {
+    const expr = this.parseTestList();
+    this.skip('NEWLINE');
+    if (!this.check('ENDMARKER')) {
+      this.fail('invalid syntax');
+    }
+    return expr;
+  }
+
+  // ---- Statements ----
+
+  private parseStatement(): ASTNode[] {
+    const token = this.peek();
+
+    if (token.type === 'COMMENT') {
+      this.pos++;
+      return [this.finish({ type: 'Comment', value: token.value }, token)];
+    }
+
+    if (token.type === 'INDENT') {
+      this.fail('unexpected indent');
+    }
+
+    if (this.checkOp('@')) {
+      return [this.parseDecorated()];
+    }
+
+    if (token.type === 'NAME') {
+      switch (token.value) {
+        case 'if':
+          return [this.parseIf()];
+        case 'while':
+          return [this.parseWhile()];
+        case 'for':
+          return [this.parseFor()];
+        case 'def':
+          return [this.parseFunctionDef([], token)];
+        case 'class':
+          return [this.parseClassDef([], token)];
+        case 'try':
+          return [this.parseTry()];
+        case 'with':
+          return [this.parseWith()];
+        case 'match':
+          // Soft keyword: only a statement when followed by a case block
+          if (this.isMatchStatement()) {
+            return [this.parseMatch()];
+          }
+          break;
+        case 'async':
+          this.fail('async statements are not supported');
+      }
+    }
+
+    return this.parseSimpleStatements();
+  }
+
+  /**
+   * Parse small statements separated by ';' up to the end of the logical line
+   */
+  private parseSimpleStatements(): ASTNode[] {
+    const statements: ASTNode[] = [this.parseSmallStatement()];
+
+    while (this.acceptOp(';')) {
+      if (this.check('NEWLINE') || this.check('COMMENT')) break;
+      statements.push(this.parseSmallStatement());
+    }
+
+    const comment = this.parseLineEnd();
+    if (comment !== undefined) {
+      statements[statements.length - 1].inlineComment = comment;
+    }
+
+    return statements;
+  }
+
+  /**
+   * Consume an optional trailing comment and the NEWLINE token
+   */
+  private parseLineEnd(): string | undefined {
+    let comment: string | undefined;
+    if (this.check('COMMENT')) {
+      comment = this.advance().value;
+    }
+    if (!this.check('ENDMARKER')) {
+      this.expect('NEWLINE', 'invalid syntax');
+    }
+    return comment;
+  }
+
+  private parseSmallStatement(): ASTNode {
+    const start = this.peek();
+
+    if (start.type === 'NAME') {
+      switch (start.value) {
+        case 'pass':
+          this.pos++;
+          return this.finish({ type: 'Pass' }, start);
+        case 'break':
+          this.pos++;
+          return this.finish({ type: 'Break' }, start);
+        case 'continue':
+          this.pos++;
+          return this.finish({ type: 'Continue' }, start);
+        case 'return': {
+          this.pos++;
+          const value = this.atStatementEnd() ? null : this.parseTestListStarExpr();
+          return this.finish({ type: 'Return', value }, start);
+        }
+        case 'del': {
+          this.pos++;
+          const targets = this.parseExpressionList().map((target) =>
+            this.setContext(target, 'Del')
+          );
+          return this.finish({ type: 'Delete', targets }, start);
+        }
+        case 'global':
+        case 'nonlocal': {
+          this.pos++;
+          const names = [this.expectName()];
+          while (this.acceptOp(',')) names.push(this.expectName());
+          return this.finish(
+            { type: start.value === 'global' ? 'Global' : 'Nonlocal', names },
+            start
+          );
+        }
+        case 'import':
+          return this.parseImport();
+        case 'from':
+          return this.parseImportFrom();
+        case 'raise': {
+          this.pos++;
+          let exc: ASTNode | null = null;
+          let cause: ASTNode | null = null;
+          if (!this.atStatementEnd()) {
+            exc = this.parseTest();
+            if (this.acceptKeyword('from')) cause = this.parseTest();
+          }
+          return this.finish({ type: 'Raise', exc, cause }, start);
+        }
+        case 'assert': {
+          this.pos++;
+          const test = this.parseTest();
+          const msg = this.acceptOp(',') ? this.parseTest() : null;
+          return this.finish({ type: 'Assert', test, msg }, start);
+        }
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  /**
+   * Parse expression statements and assignments
+   */
+  private parseExpressionStatement(): ASTNode {
+    const start = this.peek();
+    const first = this.checkKeyword('yield') ? this.parseYield() : this.parseTestListStarExpr();
+
+    // Annotated assignment
+    if (this.acceptOp(':')) {
+      const annotation = this.parseTest();
+      const value = this.acceptOp('=') ? this.parseAssignValue() : null;
+      return this.finish(
+        {
+          type: 'AnnAssign',
+          target: this.setContext(first, 'Store'),
+          annotation,
+          value,
+          simple: first.type === 'Name' && !first.parenthesized ? 1 : 0,
+        },
+        start
+      );
+    }
+
+    // Augmented assignment
+    const opToken = this.peek();
+    if (opToken.type === 'OP' && AUG_ASSIGN_OPS[opToken.value]) {
+      this.pos++;
+      const value = this.parseAssignValue();
+      return this.finish(
+        {
+          type: 'AugAssign',
+          target: this.setContext(first, 'Store'),
+          op: { type: AUG_ASSIGN_OPS[opToken.value] },
+          value,
+        },
+        start
+      );
+    }
+
+    // Assignment (possibly chained)
+    if (this.checkOp('=')) {
+      const targets: ASTNode[] = [first];
+      let value: ASTNode = first;
+      while (this.acceptOp('=')) {
+        value = this.parseAssignValue();
+        targets.push(value);
+      }
+      targets.pop();
+      return this.finish(
+        {
+          type: 'Assign',
+          targets: targets.map((target) => this.setContext(target, 'Store')),
+          value,
+        },
+        start
+      );
+    }
+
+    return this.finish({ type: 'Expr', value: first }, start);
+  }
+
+  private parseAssignValue(): ASTNode {
+    if (this.checkKeyword('yield')) return this.parseYield();
+    return this.parseTestListStarExpr();
+  }
+
+  private parseImport(): ASTNode {
+    const start = this.advance();
+    const names = [this.parseAlias(true)];
+    while (this.acceptOp(',')) names.push(this.parseAlias(true));
+    return this.finish({ type: 'Import', names }, start);
+  }
+
+  private parseImportFrom(): ASTNode {
+    const start = this.advance();
+    let level = 0;
+    while (this.checkOp('.') || this.checkOp('...')) {
+      level += this.advance().value.length;
+    }
+
+    let module: string | null = null;
+    if (!this.checkKeyword('import')) {
+      module = this.parseDottedName();
+    }
+    this.expectKeyword('import');
+
+    const names: ASTNode[] = [];
+    if (this.checkOp('*')) {
+      const star = this.advance();
+      names.push(this.finish({ type: 'alias', name: '*', asname: null }, star));
+    } else {
+      const parenthesized = this.acceptOp('(');
+      names.push(this.parseAlias(false));
+      while (this.acceptOp(',')) {
+        if (parenthesized && this.checkOp(')')) break;
+        names.push(this.parseAlias(false));
+      }
+      if (parenthesized) this.expectOp(')');
+    }
+
+    return this.finish({ type: 'ImportFrom', module, names, level }, start);
+  }
+
+  private parseAlias(dotted: boolean): ASTNode {
+    const start = this.peek();
+    const name = dotted ? this.parseDottedName() : this.expectName();
+    const asname = this.acceptKeyword('as') ? this.expectName() : null;
+    return this.finish({ type: 'alias', name, asname }, start);
+  }
+
+  private parseDottedName(): string {
+    let name = this.expectName();
+    while (this.acceptOp('.')) {
+      name += '.' + this.expectName();
+    }
+    return name;
+  }
+
+  // ---- Compound statements ----
+
+  /**
+   * Parse the block after ':' (an indented suite or statements on the same line)
+   * A trailing comment on the header line is attached to the owner node when given
+   */
+  private parseBlock(owner?: ASTNode): ASTNode[] {
+    this.expectOp(':', "expected ':'");
+
+    if (!this.check('NEWLINE') && !this.check('COMMENT')) {
+      return this.parseSimpleStatements();
+    }
+
+    const body: ASTNode[] = [];
+    const comment = this.parseLineEnd();
+    if (comment !== undefined) {
+      if (owner) {
+        owner.inlineComment = comment;
+      } else {
+        const token = this.tokens[this.pos - 2];
+        body.push(this.finish({ type: 'Comment', value: comment }, token));
+      }
+    }
+
+    if (!this.check('INDENT')) {
+      this.fail('expected an indented block');
+    }
+    this.pos++;
+
+    while (!this.check('DEDENT') && !this.check('ENDMARKER')) {
+      body.push(...this.parseStatement());
+    }
+    this.skip('DEDENT');
+
+    // A block with only comments is not a valid suite in Python
+    if (body.every((statement) => statement.type === 'Comment')) {
+      this.fail('expected an indented block');
+    }
+
+    return body;
+  }
+
+  private parseIf(): ASTNode {
+    const start = this.advance();
+    const node: ASTNode = { type: 'If', test: this.parseNamedExpr(), body: [], orelse: [] };
+    node.body = this.parseBlock(node);
+
+    if (this.checkKeyword('elif')) {
+      node.orelse = [this.parseIf()];
+    } else if (this.acceptKeyword('else')) {
+      node.orelse = this.parseBlock();
+    }
+
+    return this.finish(node, start);
+  }
+
+  private parseWhile(): ASTNode {
+    const start = this.advance();
+    const node: ASTNode = { type: 'While', test: this.parseNamedExpr(), body: [], orelse: [] };
+    node.body = this.parseBlock(node);
+    if (this.acceptKeyword('else')) {
+      node.orelse = this.parseBlock();
+    }
+    return this.finish(node, start);
+  }
+
+  private parseFor(): ASTNode {
+    const start = this.advance();
+    const target = this.setContext(this.parseTargetList(), 'Store');
+    this.expectKeyword('in');
+    const iter = this.parseTestListStarExpr();
+    const node: ASTNode = { type: 'For', target, iter, body: [], orelse: [] };
+    node.body = this.parseBlock(node);
+    if (this.acceptKeyword('else')) {
+      node.orelse = this.parseBlock();
+    }
+    return this.finish(node, start);
+  }
+
+  private parseTry(): ASTNode {
+    const start = this.advance();
+    const node: ASTNode = { type: 'Try', body: [], handlers: [], orelse: [], finalbody: [] };
+    node.body = this.parseBlock(node);
+
+    while (this.checkKeyword('except')) {
+      const handlerStart = this.advance();
+      let handlerType: ASTNode | null = null;
+      let name: string | null = null;
+      if (!this.checkOp(':')) {
+        handlerType = this.parseTest();
+        if (this.acceptKeyword('as')) name = this.expectName();
+      }
+      const handler: ASTNode = { type: 'ExceptHandler', exc_type: handlerType, name, body: [] };
+      handler.body = this.parseBlock(handler);
+      node.handlers.push(this.finish(handler, handlerStart));
+    }
+
+    if (node.handlers.length > 0 && this.acceptKeyword('else')) {
+      node.orelse = this.parseBlock();
+    }
+    if (this.acceptKeyword('finally')) {
+      node.finalbody = this.parseBlock();
+    }
+    if (node.handlers.length === 0 && node.finalbody.length === 0) {
+      this.fail("expected 'except' or 'finally' block");
+    }
+
+    return this.finish(node, start);
+  }
+
+  private parseWith(): ASTNode {
+    const start = this.advance();
+    const items: ASTNode[] = [];
+
+    do {
+      const contextExpr = this.parseTest();
+      const optionalVars = this.acceptKeyword('as')
+        ? this.setContext(this.parseTarget(), 'Store')
+        : null;
+      items.push({ type: 'withitem', context_expr: contextExpr, optional_vars: optionalVars });
+    } while (this.acceptOp(','));
+
+    const node: ASTNode = { type: 'With', items, body: [] };
+    node.body = this.parseBlock(node);
+    return this.finish(node, start);
+  }
+
+  /**
+   * Check for `match subject:` followed by an indented `case`
+   */
+  private isMatchStatement(): boolean {
+    let i = this.pos + 1;
+    let depth = 0;
+    while (this.tokens[i].type !== 'NEWLINE' && this.tokens[i].type !== 'ENDMARKER') {
+      const token = this.tokens[i];
+      if (token.type === 'OP') {
+        if ('([{'.includes(token.value)) depth++;
+        else if (')]}'.includes(token.value)) depth--;
+        else if (depth === 0 && token.value === '=') return false;
+      }
+      i++;
+    }
+
+    let last = i - 1;
+    if (this.tokens[last].type === 'COMMENT') last--;
+    const header = this.tokens[last];
+    if (last <= this.pos + 1 || header.type !== 'OP' || header.value !== ':') return false;
+    if (this.tokens[i + 1]?.type !== 'INDENT') return false;
+
+    let next = i + 2;
+    while (this.tokens[next]?.type === 'COMMENT') next++;
+    return this.tokens[next] !== undefined && this.isKeyword(this.tokens[next], 'case');
+  }
+
+  private parseMatch(): ASTNode {
+    const start = this.advance();
+    const subject = this.parseTestListStarExpr();
+    const node: ASTNode = { type: 'Match', subject, cases: [] };
+
+    this.expectOp(':', "expected ':'");
+    const comment = this.parseLineEnd();
+    if (comment !== undefined) node.inlineComment = comment;
+    this.expect('INDENT', 'expected an indented block');
+
+    while (!this.check('DEDENT') && !this.check('ENDMARKER')) {
+      if (this.check('COMMENT')) {
+        // Comments between cases are attached to the following case
+        const commentToken = this.advance();
+        node.cases.push(this.finish({ type: 'Comment', value: commentToken.value }, commentToken));
+        continue;
+      }
+
+      const caseStart = this.expectKeyword('case', "expected 'case' block");
+      const pattern = this.parsePatternTop();
+      const guard = this.acceptKeyword('if') ? this.parseNamedExpr() : null;
+      const matchCase: ASTNode = { type: 'match_case', pattern, guard, body: [] };
+      matchCase.body = this.parseBlock(matchCase);
+      node.cases.push(this.finish(matchCase, caseStart));
+    }
+    this.skip('DEDENT');
+
+    return this.finish(node, start);
+  }
+
+  // ---- Patterns (match statement) ----
+
+  /**
+   * Top-level pattern: an open sequence is allowed (case 1, 2:)
+   */
+  private parsePatternTop(): ASTNode {
+    const start = this.peek();
+    const first = this.parsePattern();
+    if (!this.checkOp(',')) return first;
+
+    const patterns = [first];
+    while (this.acceptOp(',')) {
+      if (this.checkOp(':') || this.checkKeyword('if')) break;
+      patterns.push(this.parsePattern());
+    }
+    return this.finish({ type: 'MatchSequence', patterns }, start);
+  }
+
+  private parsePattern(): ASTNode {
+    const start = this.peek();
+    const pattern = this.parseOrPattern();
+    if (this.acceptKeyword('as')) {
+      const name = this.expectName();
+      return this.finish({ type: 'MatchAs', pattern, name }, start);
+    }
+    return pattern;
+  }
+
+  private parseOrPattern(): ASTNode {
+    const start = this.peek();
+    const first = this.parseClosedPattern();
+    if (!this.checkOp('|')) return first;
+
+    const patterns = [first];
+    while (this.acceptOp('|')) {
+      patterns.push(this.parseClosedPattern());
+    }
+    return this.finish({ type: 'MatchOr', patterns }, start);
+  }
+
+  private parseClosedPattern(): ASTNode {
+    const start = this.peek();
+
+    // Literal patterns
+    if (start.type === 'NUMBER' || start.type === 'STRING' || this.checkOp('-')) {
+      const value = this.parseBinary(4);
+      return this.finish({ type: 'MatchValue', value }, start);
+    }
+
+    if (start.type === 'NAME') {
+      if (start.value === 'None' || start.value === 'True' || start.value === 'False') {
+        this.pos++;
+        const value = start.value === 'None' ? null : start.value === 'True';
+        return this.finish({ type: 'MatchSingleton', value }, start);
+      }
+
+      // Wildcard and capture patterns
+      if (!this.checkOpAt(1, '.') && !this.checkOpAt(1, '(')) {
+        const name = this.expectName();
+        return this.finish(
+          { type: 'MatchAs', pattern: null, name: name === '_' ? null : name },
+          start
+        );
+      }
+
+      // Dotted value or class pattern
+      let value: ASTNode = this.finish({ type: 'Name', id: this.expectName(), ctx: 'Load' }, start);
+      while (this.acceptOp('.')) {
+        const attr = this.expectName();
+        value = this.finish({ type: 'Attribute', value, attr, ctx: 'Load' }, start);
+      }
+      if (this.acceptOp('(')) {
+        return this.parseClassPattern(value, start);
+      }
+      return this.finish({ type: 'MatchValue', value }, start);
+    }
+
+    if (this.acceptOp('*')) {
+      const name = this.expectName();
+      return this.finish({ type: 'MatchStar', name: name === '_' ? null : name }, start);
+    }
+
+    if (this.checkOp('(') || this.checkOp('[')) {
+      const close = this.advance().value === '(' ? ')' : ']';
+      const patterns: ASTNode[] = [];
+      let trailingComma = false;
+      while (!this.checkOp(close)) {
+        patterns.push(this.parsePattern());
+        trailingComma = this.acceptOp(',');
+        if (!trailingComma) break;
+      }
+      this.expectOp(close);
+      // A single parenthesized pattern without a comma is just a group
+      if (close === ')' && patterns.length === 1 && !trailingComma) {
+        return patterns[0];
+      }
+      return this.finish({ type: 'MatchSequence', patterns }, start);
+    }
+
+    if (this.acceptOp('{')) {
+      const keys: ASTNode[] = [];
+      const patterns: ASTNode[] = [];
+      let rest: string | null = null;
+      while (!this.checkOp('}')) {
+        if (this.acceptOp('**')) {
+          rest = this.expectName();
+        } else {
+          keys.push(this.parseClosedPattern().value);
+          this.expectOp(':', "expected ':'");
+          patterns.push(this.parsePattern());
+        }
+        if (!this.acceptOp(',')) break;
+      }
+      this.expectOp('}');
+      return this.finish({ type: 'MatchMapping', keys, patterns, rest }, start);
+    }
+
+    return this.fail('invalid pattern');
+  }
+
+  private parseClassPattern(cls: ASTNode, start: Token): ASTNode {
+    const patterns: ASTNode[] = [];
+    const kwdAttrs: string[] = [];
+    const kwdPatterns: ASTNode[] = [];
+
+    while (!this.checkOp(')')) {
+      if (this.peek().type === 'NAME' && this.checkOpAt(1, '=')) {
+        kwdAttrs.push(this.expectName());
+        this.pos++;
+        kwdPatterns.push(this.parsePattern());
+      } else {
+        patterns.push(this.parsePattern());
+      }
+      if (!this.acceptOp(',')) break;
+    }
+    this.expectOp(')');
+
+    return this.finish(
+      { type: 'MatchClass', cls, patterns, kwd_attrs: kwdAttrs, kwd_patterns: kwdPatterns },
+      start
+    );
+  }
+
+  private parseDecorated(): ASTNode {
+    const start = this.peek();
+    const decorators: ASTNode[] = [];
+
+    while (this.acceptOp('@')) {
+      decorators.push(this.parseNamedExpr());
+      this.parseLineEnd();
+      while (this.check('COMMENT')) this.pos++;
+    }
+
+    if (this.checkKeyword('def')) return this.parseFunctionDef(decorators, start);
+    if (this.checkKeyword('class')) return this.parseClassDef(decorators, start);
+    return this.fail('invalid syntax');
+  }
+
+  private parseFunctionDef(decorators: ASTNode[], start: Token): ASTNode {
+    this.expectKeyword('def');
+    const name = this.expectName();
+    this.expectOp('(', "expected '('");
+    const args = this.parseParameters(')', true);
+    this.expectOp(')');
+    const returns = this.acceptOp('->') ? this.parseTest() : null;
+
+    const node: ASTNode = {
+      type: 'FunctionDef',
+      name,
+      args,
+      body: [],
+      decorator_list: decorators,
+      returns,
+    };
+    node.body = this.parseBlock(node);
+    return this.finish(node, start);
+  }
+
+  private parseClassDef(decorators: ASTNode[], start: Token): ASTNode {
+    this.expectKeyword('class');
+    const name = this.expectName();
+
+    let bases: ASTNode[] = [];
+    let keywords: ASTNode[] = [];
+    if (this.acceptOp('(')) {
+      ({ args: bases, keywords } = this.parseCallArguments());
+      this.expectOp(')');
+    }
+
+    const node: ASTNode = {
+      type: 'ClassDef',
+      name,
+      bases,
+      keywords,
+      body: [],
+      decorator_list: decorators,
+    };
+    node.body = this.parseBlock(node);
+    return this.finish(node, start);
+  }
+
+  /**
+   * Parse a parameter list for def (annotations allowed) or lambda
+   */
+  private parseParameters(terminator: string, allowAnnotations: boolean): ASTNode {
+    const args: ASTNode = {
+      type: 'arguments',
+      posonlyargs: [],
+      args: [],
+      vararg: null,
+      kwonlyargs: [],
+      kw_defaults: [],
+      kwarg: null,
+      defaults: [],
+    };
+    let keywordOnly = false;
+
+    const parseArg = (): ASTNode => {
+      const start = this.peek();
+      const arg = this.expectName();
+      const annotation = allowAnnotations && this.acceptOp(':') ? this.parseTest() : null;
+      return this.finish({ type: 'arg', arg, annotation }, start);
+    };
+
+    while (!this.checkOp(terminator)) {
+      if (this.acceptOp('/')) {
+        args.posonlyargs = args.args;
+        args.args = [];
+      } else if (this.acceptOp('**')) {
+        args.kwarg = parseArg();
+      } else if (this.acceptOp('*')) {
+        keywordOnly = true;
+        if (!this.checkOp(',') && !this.checkOp(terminator)) {
+          args.vararg = parseArg();
+        }
+      } else {
+        const arg = parseArg();
+        const defaultValue = this.acceptOp('=') ? this.parseTest() : null;
+        if (keywordOnly) {
+          args.kwonlyargs.push(arg);
+          args.kw_defaults.push(defaultValue);
+        } else {
+          if (!defaultValue && args.defaults.length > 0) {
+            this.fail('non-default argument follows default argument');
+          }
+          args.args.push(arg);
+          if (defaultValue) args.defaults.push(defaultValue);
+        }
+      }
+
+      if (!this.acceptOp(',')) break;
+    }
+
+    return args;
+  }
+
+  // ---- Expressions ----
+
+  /**
+   * Comma-separated expressions (a bare tuple when there is more than one)
+   */
+  private parseTestListStarExpr(): ASTNode {
+    return this.parseSequence(() =>
+      this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr()
+    );
+  }
+
+  private parseTestList(): ASTNode {
+    return this.parseSequence(() => this.parseTest());
+  }
+
+  /**
+   * Target list of a for statement or comprehension
+   */
+  private parseTargetList(): ASTNode {
+    return this.parseSequence(() => this.parseTarget());
+  }
+
+  private parseTarget(): ASTNode {
+    return this.checkOp('*') ? this.parseStarExpr() : this.parseBinary(0);
+  }
+
+  private parseSequence(parseItem: () => ASTNode): ASTNode {
+    const start = this.peek();
+    const first = parseItem();
+    if (!this.checkOp(',')) return first;
+
+    const elts = [first];
+    while (this.acceptOp(',')) {
+      if (this.atSequenceEnd()) break;
+      elts.push(parseItem());
+    }
+    return this.finish({ type: 'Tuple', elts, ctx: 'Load' }, start);
+  }
+
+  private parseExpressionList(): ASTNode[] {
+    const items = [this.parseBinary(0)];
+    while (this.acceptOp(',')) {
+      if (this.atSequenceEnd()) break;
+      items.push(this.parseBinary(0));
+    }
+    return items;
+  }
+
+  private parseStarExpr(): ASTNode {
+    const start = this.advance();
+    const value = this.parseBinary(0);
+    return this.finish({ type: 'Starred', value, ctx: 'Load' }, start);
+  }
+
+  /**
+   * Assignment expression (walrus) or a plain test
+   */
+  private parseNamedExpr(): ASTNode {
+    const start = this.peek();
+    if (start.type === 'NAME' && this.peek(1).type === 'OP' && this.peek(1).value === ':=') {
+      const target = this.finish({ type: 'Name', id: this.expectName(), ctx: 'Store' }, start);
+      this.pos++;
+      const value = this.parseTest();
+      return this.finish({ type: 'NamedExpr', target, value }, start);
+    }
+    return this.parseTest();
+  }
+
+  private parseTest(): ASTNode {
+    if (this.checkKeyword('lambda')) return this.parseLambda();
+
+    const start = this.peek();
+    const body = this.parseOrTest();
+    if (this.checkKeyword('if') && !this.isComprehensionIf()) {
+      this.pos++;
+      const test = this.parseOrTest();
+      this.expectKeyword('else', "expected 'else' after 'if' expression");
+      const orelse = this.parseTest();
+      return this.finish({ type: 'IfExp', test, body, orelse }, start);
+    }
+    return body;
+  }
+
+  /**
+   * Tell a conditional expression apart from a comprehension filter
+   * (a filter 'if' never has an 'else' in the same bracket level)
+   */
+  private isComprehensionIf(): boolean {
+    let depth = 0;
+    for (let i = this.pos + 1; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'OP') {
+        if ('([{'.includes(token.value)) depth++;
+        else if (')]}'.includes(token.value)) {
+          if (depth === 0) return true;
+          depth--;
+        } else if (depth === 0 && token.value === ',') return true;
+      } else if (token.type === 'NAME' && depth === 0) {
+        if (token.value === 'else') return false;
+        if (token.value === 'for' || token.value === 'if') return true;
+      } else if (token.type === 'NEWLINE' || token.type === 'ENDMARKER') {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private parseLambda(): ASTNode {
+    const start = this.advance();
+    const args = this.parseParameters(':', false);
+    this.expectOp(':');
+    const body = this.parseTest();
+    return this.finish({ type: 'Lambda', args, body }, start);
+  }
+
+  private parseOrTest(): ASTNode {
+    return this.parseBoolOp('or', 'Or', () => this.parseAndTest());
+  }
+
+  private parseAndTest(): ASTNode {
+    return this.parseBoolOp('and', 'And', () => this.parseNotTest());
+  }
+
+  private parseBoolOp(keyword: string, op: string, parseOperand: () => ASTNode): ASTNode {
+    const start = this.peek();
+    const first = parseOperand();
+    if (!this.checkKeyword(keyword)) return first;
+
+    const values = [first];
+    while (this.acceptKeyword(keyword)) {
+      values.push(parseOperand());
+    }
+    return this.finish({ type: 'BoolOp', op: { type: op }, values }, start);
+  }
+
+  private parseNotTest(): ASTNode {
+    const start = this.peek();
+    if (this.acceptKeyword('not')) {
+      const operand = this.parseNotTest();
+      return this.finish({ type: 'UnaryOp', op: { type: 'Not' }, operand }, start);
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ASTNode {
+    const start = this.peek();
+    const left = this.parseBinary(0);
+    const ops: ASTNode[] = [];
+    const comparators: ASTNode[] = [];
+
+    let op = this.parseCompareOperator();
+    while (op) {
+      ops.push({ type: op });
+      comparators.push(this.parseBinary(0));
+      op = this.parseCompareOperator();
+    }
+
+    if (ops.length === 0) return left;
+    return this.finish({ type: 'Compare', left, ops, comparators }, start);
+  }
+
+  private parseCompareOperator(): string | null {
+    const token = this.peek();
+    if (token.type === 'OP' && COMPARE_OPS[token.value]) {
+      this.pos++;
+      return COMPARE_OPS[token.value];
+    }
+    if (this.acceptKeyword('in')) return 'In';
+    if (this.checkKeyword('not') && this.isKeyword(this.peek(1), 'in')) {
+      this.pos += 2;
+      return 'NotIn';
+    }
+    if (this.acceptKeyword('is')) {
+      return this.acceptKeyword('not') ? 'IsNot' : 'Is';
+    }
+    return null;
+  }
+
+  /**
+   * Left-associative binary operators by precedence level
+   */
+  private parseBinary(level: number): ASTNode {
+    if (level >= BINARY_LEVELS.length) return this.parseFactor();
+
+    const start = this.peek();
+    let left = this.parseBinary(level + 1);
+
+    let op = this.peekBinaryOperator(level);
+    while (op) {
+      this.pos++;
+      const right = this.parseBinary(level + 1);
+      left = this.finish({ type: 'BinOp', left, op: { type: op }, right }, start);
+      op = this.peekBinaryOperator(level);
+    }
+
+    return left;
+  }
+
+  private peekBinaryOperator(level: number): string | undefined {
+    const token = this.peek();
+    return token.type === 'OP' ? BINARY_LEVELS[level][token.value] : undefined;
+  }
+
+  private parseFactor(): ASTNode {
+    const start = this.peek();
+    if (start.type === 'OP' && UNARY_OPS[start.value]) {
+      this.pos++;
+      const operand = this.parseFactor();
+      return this.finish({ type: 'UnaryOp', op: { type: UNARY_OPS[start.value] }, operand }, start);
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ASTNode {
+    const start = this.peek();
+    let base: ASTNode;
+    if (this.acceptKeyword('await')) {
+      const value = this.parsePrimary();
+      base = this.finish({ type: 'Await', value }, start);
+    } else {
+      base = this.parsePrimary();
+    }
+
+    if (this.acceptOp('**')) {
+      // Right-associative, binds tighter than unary minus on the left only
+      const exponent = this.parseFactor();
+      return this.finish(
+        { type: 'BinOp', left: base, op: { type: 'Pow' }, right: exponent },
+        start
+      );
+    }
+    return base;
+  }
+
+  /**
+   * Atom followed by calls, attribute access and subscripts
+   */
+  private parsePrimary(): ASTNode {
+    const start = this.peek();
+    let node = this.parseAtom();
+
+    while (this.checkOp('.') || this.checkOp('(') || this.checkOp('[')) {
+      if (this.acceptOp('.')) {
+        const attr = this.expectName();
+        node = this.finish({ type: 'Attribute', value: node, attr, ctx: 'Load' }, start);
+      } else if (this.acceptOp('(')) {
+        const { args, keywords } = this.parseCallArguments();
+        this.expectOp(')');
+        node = this.finish({ type: 'Call', func: node, args, keywords }, start);
+      } else {
+        this.pos++;
+        const slice = this.parseSubscriptList();
+        this.expectOp(']');
+        node = this.finish({ type: 'Subscript', value: node, slice, ctx: 'Load' }, start);
+      }
+    }
+
+    return node;
+  }
+
+  private parseCallArguments(): { args: ASTNode[]; keywords: ASTNode[] } {
+    const args: ASTNode[] = [];
+    const keywords: ASTNode[] = [];
+
+    while (!this.checkOp(')')) {
+      const start = this.peek();
+
+      if (this.acceptOp('**')) {
+        const value = this.parseTest();
+        keywords.push(this.finish({ type: 'keyword', arg: null, value }, start));
+      } else if (this.checkOp('*')) {
+        args.push(this.parseStarExpr());
+      } else if (
+        start.type === 'NAME' &&
+        this.peek(1).type === 'OP' &&
+        this.peek(1).value === '='
+      ) {
+        const arg = this.expectName();
+        this.pos++;
+        const value = this.parseTest();
+        keywords.push(this.finish({ type: 'keyword', arg, value }, start));
+      } else {
+        const value = this.parseNamedExpr();
+        if (this.checkKeyword('for')) {
+          // Bare generator argument: f(x for x in y)
+          const generators = this.parseComprehensionClauses();
+          args.push(this.finish({ type: 'GeneratorExp', elt: value, generators }, start));
+        } else {
+          args.push(value);
+        }
+      }
+
+      if (!this.acceptOp(',')) break;
+    }
+
+    return { args, keywords };
+  }
+
+  private parseSubscriptList(): ASTNode {
+    const start = this.peek();
+    const first = this.parseSubscript();
+    if (!this.checkOp(',')) return first;
+
+    const elts = [first];
+    while (this.acceptOp(',')) {
+      if (this.checkOp(']')) break;
+      elts.push(this.parseSubscript());
+    }
+    return this.finish({ type: 'Tuple', elts, ctx: 'Load' }, start);
+  }
+
+  private parseSubscript(): ASTNode {
+    const start = this.peek();
+    const lower = this.checkOp(':') ? null : this.parseNamedExpr();
+    if (!this.acceptOp(':')) {
+      return lower as ASTNode;
+    }
+
+    const upper =
+      this.checkOp(':') || this.checkOp(']') || this.checkOp(',') ? null : this.parseTest();
+    let step: ASTNode | null = null;
+    if (this.acceptOp(':')) {
+      step = this.checkOp(']') || this.checkOp(',') ? null : this.parseTest();
+    }
+    return this.finish({ type: 'Slice', lower, upper, step }, start);
+  }
+
+  private parseAtom(): ASTNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'NUMBER':
+        this.pos++;
+        return this.finish(this.parseNumber(token), token);
+      case 'STRING':
+        return this.parseStrings();
+      case 'NAME':
+        if (token.value === 'True' || token.value === 'False' || token.value === 'None') {
+          this.pos++;
+          const value = token.value === 'None' ? null : token.value === 'True';
+          return this.finish({ type: 'Constant', value, kind: null }, token);
+        }
+        if (KEYWORDS.has(token.value)) {
+          this.fail('invalid syntax');
+        }
+        this.pos++;
+        return this.finish({ type: 'Name', id: token.value, ctx: 'Load' }, token);
+      case 'OP':
+        switch (token.value) {
+          case '(':
+            return this.parseParenthesized();
+          case '[':
+            return this.parseListDisplay();
+          case '{':
+            return this.parseDictOrSetDisplay();
+          case '...':
+            this.pos++;
+            return this.finish({ type: 'Constant', value: '...', kind: 'Ellipsis' }, token);
+        }
+        break;
+      case 'NEWLINE':
+      case 'ENDMARKER':
+        this.fail('invalid syntax');
+    }
+
+    return this.fail('invalid syntax');
+  }
+
+  private parseNumber(token: Token): ASTNode {
+    const text = token.value.replace(/_/g, '').toLowerCase();
+
+    if (text.endsWith('j')) {
+      return { type: 'Constant', value: parseFloat(text), kind: null, isComplex: true };
+    }
+    if (/^0[xob]/.test(text)) {
+      const radix = text[1] === 'x' ? 16 : text[1] === 'o' ? 8 : 2;
+      return { type: 'Constant', value: parseInt(text.substring(2), radix), kind: null };
+    }
+    if (/[.e]/.test(text)) {
+      return { type: 'Constant', value: parseFloat(text), kind: null, isFloat: true };
+    }
+    return { type: 'Constant', value: parseInt(text, 10), kind: null };
+  }
+
+  /**
+   * Adjacent string literals are concatenated; any f-string makes the result a JoinedStr
+   */
+  private parseStrings(): ASTNode {
+    const start = this.peek();
+    const parts: Token[] = [];
+    while (this.check('STRING')) {
+      parts.push(this.advance());
+    }
+
+    const isBytes = parts.some((part) => part.prefix?.includes('b'));
+    if (isBytes && parts.some((part) => !part.prefix?.includes('b'))) {
+      this.fail('cannot mix bytes and nonbytes literals', start);
+    }
+
+    if (!parts.some((part) => part.prefix?.includes('f'))) {
+      const value = parts.map((part) => part.string ?? '').join('');
+      const node: ASTNode = { type: 'Constant', value, kind: null };
+      if (isBytes) node.isBytes = true;
+      if (start.prefix === 'u') node.kind = 'u';
+      return this.finish(node, start);
+    }
+
+    const values: ASTNode[] = [];
+    for (const part of parts) {
+      const pieces = part.prefix?.includes('f')
+        ? this.parseFormattedString(part)
+        : [{ type: 'Constant', value: part.string ?? '', kind: null }];
+      for (const piece of pieces) {
+        const previous = values[values.length - 1];
+        if (piece.type === 'Constant' && previous?.type === 'Constant') {
+          previous.value += piece.value;
+        } else {
+          values.push(piece);
+        }
+      }
+    }
+
+    return this.finish({ type: 'JoinedStr', values }, start);
+  }
+
+  /**
+   * Split an f-string into literal parts and replacement fields
+   */
+  private parseFormattedString(token: Token): ASTNode[] {
+    const content = token.string ?? '';
+    const raw = token.prefix?.includes('r') ?? false;
+    const values: ASTNode[] = [];
+    let literal = '';
+    let i = 0;
+
+    const flushLiteral = () => {
+      if (literal) {
+        values.push({
+          type: 'Constant',
+          value: raw ? literal : decodeEscapes(literal),
+          kind: null,
+        });
+        literal = '';
+      }
+    };
+
+    while (i < content.length) {
+      const ch = content[i];
+      if (ch === '{' && content[i + 1] === '{') {
+        literal += '{';
+        i += 2;
+      } else if (ch === '}' && content[i + 1] === '}') {
+        literal += '}';
+        i += 2;
+      } else if (ch === '{') {
+        flushLiteral();
+        const end = this.findFieldEnd(content, i + 1, token);
+        values.push(this.parseReplacementField(content.substring(i + 1, end), token));
+        i = end + 1;
+      } else if (ch === '}') {
+        this.fail("f-string: single '}' is not allowed", token);
+      } else {
+        literal += ch;
+        i++;
+      }
+    }
+    flushLiteral();
+
+    return values;
+  }
+
+  /**
+   * Find the closing brace of a replacement field, skipping nested brackets and strings
+   */
+  private findFieldEnd(content: string, from: number, token: Token): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = from; i < content.length; i++) {
+      const ch = content[i];
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if ('([{'.includes(ch)) {
+        depth++;
+      } else if (')]'.includes(ch)) {
+        depth--;
+      } else if (ch === '}') {
+        if (depth === 0) return i;
+        depth--;
+      }
+    }
+    return this.fail("f-string: expecting '}'", token);
+  }
+
+  private parseReplacementField(field: string, token: Token): ASTNode {
+    // Split off the format spec and conversion at the top bracket level
+    let depth = 0;
+    let exprEnd = field.length;
+    let quote: string | null = null;
+    for (let i = 0; i < field.length; i++) {
+      const ch = field[i];
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if ('([{'.includes(ch)) {
+        depth++;
+      } else if (')]}'.includes(ch)) {
+        depth--;
+      } else if (depth === 0 && (ch === ':' || (ch === '!' && field[i + 1] !== '='))) {
+        exprEnd = i;
+        break;
+      }
+    }
+
+    let expression = field.substring(0, exprEnd);
+    let rest = field.substring(exprEnd);
+
+    // Self-documenting expressions: f"{x=}"
+    const selfDocumenting = /=\s*$/.test(expression) && !/[=!<>]=\s*$/.test(expression);
+    if (selfDocumenting) {
+      expression = expression.replace(/=\s*$/, '');
+    }
+
+    let conversion = -1;
+    if (rest.startsWith('!')) {
+      conversion = rest.charCodeAt(1);
+      rest = rest.substring(2);
+    }
+
+    let formatSpec: ASTNode | null = null;
+    if (rest.startsWith(':')) {
+      formatSpec = {
+        type: 'JoinedStr',
+        values: [{ type: 'Constant', value: rest.substring(1), kind: null }],
+      };
+    }
+
+    if (!expression.trim()) {
+      this.fail('f-string: empty expression not allowed', token);
+    }
+
+    let value: ASTNode;
+    try {
+      value = new ASTParser(`(${expression.trim()})`).parseExpressionOnly();
+    } catch (error) {
+      if (error instanceof PythonSyntaxError) {
+        this.fail(`f-string: ${error.message}`, token);
+      }
+      throw error;
+    }
+    delete value.parenthesized;
+    this.relocate(value, token);
+
+    return this.finish(
+      { type: 'FormattedValue', value, conversion, format_spec: formatSpec },
+      token
+    );
+  }
+
+  /**
+   * Move nodes parsed from an f-string field onto the string token's position
+   */
+  private relocate(node: ASTNode, token: Token): void {
+    if (!node || typeof node !== 'object') return;
+    if (node.lineno !== undefined) {
+      node.lineno = token.line;
+      node.col_offset = token.column;
+      node.end_lineno = token.endLine;
+      node.end_col_offset = token.endColumn;
+    }
+    for (const value of Object.values(node)) {
+      if (Array.isArray(value)) value.forEach((item) => this.relocate(item, token));
+      else if (value && typeof value === 'object') this.relocate(value, token);
+    }
+  }
+
+  private parseParenthesized(): ASTNode {
+    const start = this.advance();
+
+    if (this.acceptOp(')')) {
+      return this.finish({ type: 'Tuple', elts: [], ctx: 'Load' }, start);
+    }
+
+    if (this.checkKeyword('yield')) {
+      const value = this.parseYield();
+      this.expectOp(')');
+      value.parenthesized = true;
+      return value;
+    }
+
+    const first = this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr();
+
+    if (this.checkKeyword('for')) {
+      const generators = this.parseComprehensionClauses();
+      this.expectOp(')');
+      return this.finish({ type: 'GeneratorExp', elt: first, generators }, start);
+    }
+
+    if (this.checkOp(',')) {
+      const elts = [first];
+      while (this.acceptOp(',')) {
+        if (this.checkOp(')')) break;
+        elts.push(this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr());
+      }
+      this.expectOp(')');
+      return this.finish({ type: 'Tuple', elts, ctx: 'Load' }, start);
+    }
+
+    this.expectOp(')');
+    first.parenthesized = true;
+    return first;
+  }
+
+  private parseListDisplay(): ASTNode {
+    const start = this.advance();
+    const elts: ASTNode[] = [];
+
+    if (!this.checkOp(']')) {
+      const first = this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr();
+      if (this.checkKeyword('for')) {
+        const generators = this.parseComprehensionClauses();
+        this.expectOp(']');
+        return this.finish({ type: 'ListComp', elt: first, generators }, start);
+      }
+      elts.push(first);
+      while (this.acceptOp(',')) {
+        if (this.checkOp(']')) break;
+        elts.push(this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr());
+      }
+    }
+
+    this.expectOp(']');
+    return this.finish({ type: 'List', elts, ctx: 'Load' }, start);
+  }
+
+  private parseDictOrSetDisplay(): ASTNode {
+    const start = this.advance();
+
+    if (this.acceptOp('}')) {
+      return this.finish({ type: 'Dict', keys: [], values: [] }, start);
+    }
+
+    // Dictionary display
+    if (this.checkOp('**') || this.isDictEntry()) {
+      const keys: Array<ASTNode | null> = [];
+      const values: ASTNode[] = [];
+
+      const parseEntry = () => {
+        if (this.acceptOp('**')) {
+          keys.push(null);
+          values.push(this.parseBinary(0));
+        } else {
+          keys.push(this.parseTest());
+          this.expectOp(':', "expected ':'");
+          values.push(this.parseTest());
+        }
+      };
+
+      parseEntry();
+      if (keys[0] !== null && this.checkKeyword('for')) {
+        const generators = this.parseComprehensionClauses();
+        this.expectOp('}');
+        return this.finish({ type: 'DictComp', key: keys[0], value: values[0], generators }, start);
+      }
+      while (this.acceptOp(',')) {
+        if (this.checkOp('}')) break;
+        parseEntry();
+      }
+      this.expectOp('}');
+      return this.finish({ type: 'Dict', keys, values }, start);
+    }
+
+    // Set display
+    const first = this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr();
+    if (this.checkKeyword('for')) {
+      const generators = this.parseComprehensionClauses();
+      this.expectOp('}');
+      return this.finish({ type: 'SetComp', elt: first, generators }, start);
+    }
+    const elts = [first];
+    while (this.acceptOp(',')) {
+      if (this.checkOp('}')) break;
+      elts.push(this.checkOp('*') ? this.parseStarExpr() : this.parseNamedExpr());
+    }
+    this.expectOp('}');
+    return this.finish({ type: 'Set', elts }, start);
+  }
+
+  /**
+   * Look ahead for a ':' at the top bracket level of the first display entry
+   */
+  private isDictEntry(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'OP') {
+        if (token.type === 'NAME' && depth === 0 && token.value === 'lambda') return false;
+        continue;
+      }
+      if ('([{'.includes(token.value)) depth++;
+      else if (')]}'.includes(token.value)) {
+        if (depth === 0) return false;
+        depth--;
+      } else if (depth === 0 && token.value === ',') return false;
+      else if (depth === 0 && token.value === ':') return true;
+    }
+    return false;
+  }
+
+  private parseComprehensionClauses(): ASTNode[] {
+    const generators: ASTNode[] = [];
+
+    while (this.acceptKeyword('for')) {
+      const target = this.setContext(this.parseTargetList(), 'Store');
+      this.expectKeyword('in');
+      const iter = this.parseOrTest();
+      const ifs: ASTNode[] = [];
+      while (this.acceptKeyword('if')) {
+        ifs.push(this.parseOrTest());
+      }
+      generators.push({ type: 'comprehension', target, iter, ifs, is_async: 0 });
+    }
+
+    return generators;
+  }
+
+  private parseYield(): ASTNode {
+    const start = this.advance();
+    if (this.acceptKeyword('from')) {
+      const value = this.parseTest();
+      return this.finish({ type: 'YieldFrom', value }, start);
+    }
+    const value = this.atSequenceEnd() ? null : this.parseTestListStarExpr();
+    return this.finish({ type: 'Yield', value }, start);
+  }
+
+  // ---- Helpers ----
+
+  /**
+   * Mark assignment/deletion targets with their expression context
+   */
+  private setContext(node: ASTNode, ctx: 'Store' | 'Del'): ASTNode {
+    switch (node.type) {
+      case 'Name':
+      case 'Attribute':
+      case 'Subscript':
+        node.ctx = ctx;
+        break;
+      case 'Starred':
+        node.ctx = ctx;
+        this.setContext(node.value, ctx);
+        break;
+      case 'Tuple':
+      case 'List':
+        node.ctx = ctx;
+        node.elts.forEach((elt: ASTNode) => this.setContext(elt, ctx));
+        break;
+      default:
+        this.fail(
+          ctx === 'Del' ? 'cannot delete expression' : 'cannot assign to expression',
+          this.tokenAt(node)
+        );
+    }
+    return node;
+  }
+
+  /**
+   * Set source range from the start token to the last consumed token
+   */
+  private finish<T extends ASTNode>(node: T, start: Position): T {
+    // A compound statement ends at its last token, not at the NEWLINE or DEDENT after it
+    let last = this.pos - 1;
+    while (last > 0 && ['NEWLINE', 'INDENT', 'DEDENT'].includes(this.tokens[last].type)) {
+      last--;
+    }
+    const end = this.tokens[last] ?? start;
+    node.lineno = start.line;
+    node.col_offset = start.column;
+    node.end_lineno = (end as Token).endLine ?? start.line;
+    node.end_col_offset = (end as Token).endColumn ?? start.column;
+    return node;
+  }
+
+  private tokenAt(node: ASTNode): Position {
+    return { line: node.lineno ?? this.peek().line, column: node.col_offset ?? 0 };
+  }
+
+  private atStatementEnd(): boolean {
+    return (
+      this.check('NEWLINE') || this.check('COMMENT') || this.check('ENDMARKER') || this.checkOp(';')
+    );
+  }
+
+  private atSequenceEnd(): boolean {
+    return (
+      this.atStatementEnd() ||
+      this.checkOp('=') ||
+      this.checkOp(')') ||
+      this.checkOp(']') ||
+      this.checkOp('}') ||
+      this.checkOp(':') ||
+      this.checkKeyword('in') ||
+      AUG_ASSIGN_OPS[this.peek().value] !== undefined
+    );
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private check(type: Token['type']): boolean {
+    return this.peek().type === type;
+  }
+
+  private skip(type: Token['type']): void {
+    if (this.check(type)) this.pos++;
+  }
+
+  private checkOp(op: string): boolean {
+    const token = this.peek();
+    return token.type === 'OP' && token.value === op;
+  }
+
+  private checkOpAt(offset: number, op: string): boolean {
+    const token = this.peek(offset);
+    return token.type === 'OP' && token.value === op;
+  }
+
+  private acceptOp(op: string): boolean {
+    if (!this.checkOp(op)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectOp(op: string, message?: string): Token {
+    if (!this.checkOp(op)) {
+      this.fail(message ?? `expected '${op}'`);
+    }
+    return this.advance();
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'NAME' && token.value === keyword;
+  }
+
+  private checkKeyword(keyword: string): boolean {
+    return this.isKeyword(this.peek(), keyword);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.checkKeyword(keyword)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string, message?: string): Token {
+    if (!this.checkKeyword(keyword)) {
+      this.fail(message ?? 'invalid syntax');
+    }
+    return this.advance();
+  }
+
+  private expectName(): string {
+    const token = this.peek();
+    if (token.type !== 'NAME' || KEYWORDS.has(token.value)) {
+      this.fail('invalid syntax');
+    }
+    this.pos++;
+    return token.value;
+  }
+
+  private expect(type: Token['type'], message: string): Token {
+    if (!this.check(type)) {
+      this.fail(message);
+    }
+    return this.advance();
+  }
+
+  private fail(message: string, at: Position = this.peek()): never {
+    throw new PythonSyntaxError(message, at.line, at.column);
+  }
+}
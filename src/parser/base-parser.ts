@@ -43,6 +43,14 @@ export abstract class BaseParser {
       maxErrors: options.maxErrors ?? 100,
       timeout: options.timeout ?? 30000,
       allowExperimentalSyntax: options.allowExperimentalSyntax ?? false,
+      preferCase: options.preferCase ?? false,
+      structuredLoops: options.structuredLoops ?? false,
+      declarations: options.declarations ?? 'none',
+      dialect: options.dialect ?? 'igcse',
+      callMappings: options.callMappings ?? [],
+      recordSuffix: options.recordSuffix ?? 'Record',
+      staticArrays: options.staticArrays ?? false,
+      arrayCapacity: options.arrayCapacity ?? 100,
     };
   }
 
@@ -64,6 +72,16 @@ export abstract class BaseParser {
       errors: [],
       warnings: [],
       arrayInfo: {},
+      arrayBounds: {},
+      dictionaries: new Set(),
+      constants: {},
+      fileHandles: {},
+      sourceLines: [],
+      identifiers: new Set(),
+      tupleFunctions: {},
+      imports: {},
+      callWarnings: [],
+      dynamicLists: {},
       parameterMapping: {},
       startTime: Date.now(),
       isClass: (name: string) => {
@@ -155,17 +173,180 @@ export abstract class BaseParser {
 
   /**
    * Register variable
+   * Python has no block scope, so variables belong to the enclosing function or module.
+   * The first definition is kept so that DECLARE statements can be placed before it.
    */
   protected registerVariable(name: string, type: IGCSEDataType, line?: number): void {
+    const scope = this.getVariableScope();
+    // Names declared global belong to the main program, which declares them itself
+    if (scope.globals?.includes(name) || scope.variables.has(name)) {
+      return;
+    }
+
     const variable: VariableInfo = {
       name,
       type,
-      scope: this.context.currentScope.name,
+      scope: scope.name,
       initialized: false,
       definedAt: line,
     };
 
-    this.context.currentScope.variables.set(name, variable);
+    scope.variables.set(name, variable);
+  }
+
+  /**
+   * Type written in the DECLARE of a variable; an array takes the bounds of the array it
+   * was assigned from, and one whose bounds are unknown is reported
+   */
+  private getDeclaredType(variable: VariableInfo, type: IGCSEDataType): string {
+    if (type !== 'ARRAY') {
+      return type;
+    }
+    const info = this.context.arrayInfo[variable.name];
+    if (info) {
+      return `ARRAY[1:${info.size}] OF ${info.elementType}`;
+    }
+    this.addWarning(
+      `The bounds of array '${variable.name}' on line ${variable.definedAt} could not be inferred; add them to its DECLARE`,
+      'type_inference',
+      variable.definedAt
+    );
+    return type;
+  }
+
+  /**
+   * Name of the record type for a class
+   */
+  protected getRecordTypeName(className: string): string {
+    return `${className}${this.options.recordSuffix}`;
+  }
+
+  /**
+   * Get the program, procedure or class scope that owns the current block's variables
+   */
+  protected getVariableScope(): ScopeInfo {
+    let scope = this.context.currentScope;
+    while (scope.parent && !['function', 'class', 'global'].includes(scope.type)) {
+      scope = scope.parent;
+    }
+    return scope;
+  }
+
+  /**
+   * Collect every identifier used or defined in some statements
+   */
+  protected collectIdentifiers(nodes: unknown[]): Set<string> {
+    const names = new Set<string>();
+    const visit = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+        return;
+      }
+      const value = child as { type?: unknown; id: string; arg: string; name: string };
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+      if (value.type === 'Name') names.add(value.id);
+      if (value.type === 'arg') names.add(value.arg);
+      if (value.type === 'FunctionDef' || value.type === 'ClassDef') names.add(value.name);
+      Object.values(value).forEach(visit);
+    };
+    visit(nodes);
+    return names;
+  }
+
+  /**
+   * Add DECLARE statements for the variables of the current scope to its statements
+   * Types inferred over the whole scope replace the type of the first assignment
+   */
+  protected addDeclarations(
+    children: IR[],
+    excluded: string[] = [],
+    types?: Map<string, IGCSEDataType>
+  ): IR[] {
+    const placement = this.options.declarations;
+    if (placement === 'none') {
+      return children;
+    }
+
+    // Variables already declared inline (arrays, records) are not declared again
+    const declared = new Set(excluded);
+    const collectDeclared = (nodes: IR[]): void => {
+      for (const node of nodes) {
+        const match = node.text.match(/^(?:DECLARE|CONSTANT) (\w+)/);
+        if (match) {
+          declared.add(match[1]);
+        }
+        if (node.kind !== 'function' && node.kind !== 'procedure' && node.kind !== 'class') {
+          collectDeclared(node.children);
+        }
+      }
+    };
+    collectDeclared(children);
+
+    const variables = Array.from(this.context.currentScope.variables.values())
+      .filter((variable) => !declared.has(variable.name))
+      .sort((a, b) => (a.definedAt ?? 0) - (b.definedAt ?? 0));
+    const createDeclaration = (variable: VariableInfo) =>
+      this.createIRNode(
+        'statement',
+        `DECLARE ${variable.name} : ${this.getDeclaredType(variable, types?.get(variable.name) ?? variable.type)}`
+      );
+
+    if (placement === 'beforeFirstUse') {
+      const result = [...children];
+      // Insert from the last variable so earlier insertions do not shift later positions
+      for (const variable of [...variables].reverse()) {
+        const index = this.findStatementIndex(result, variable.definedAt ?? 0);
+        result.splice(index, 0, createDeclaration(variable));
+      }
+      return result;
+    }
+
+    // Constants and declarations already written inline are moved up with the generated ones
+    const remaining: IR[] = [];
+    const constants: IR[] = [];
+    const hoisted: IR[] = [];
+    const hoist = (nodes: IR[]): IR[] =>
+      nodes.flatMap((node) => {
+        if (/^CONSTANT \w+/.test(node.text) && node.children.length === 0) {
+          constants.push(node);
+          return [];
+        }
+        if (/^DECLARE \w+\s*:/.test(node.text) && node.children.length === 0) {
+          hoisted.push(node);
+          return [];
+        }
+        if (!node.text && ['statement', 'block', 'compound'].includes(node.kind)) {
+          return [{ ...node, children: hoist(node.children) }];
+        }
+        return [node];
+      });
+    remaining.push(...hoist(children));
+
+    const declarations = [...constants, ...hoisted, ...variables.map(createDeclaration)];
+    let index = remaining.findIndex(
+      (node) => !['comment', 'function', 'procedure', 'class', 'type'].includes(node.kind)
+    );
+    if (index === -1) {
+      index = remaining.length;
+    }
+    remaining.splice(index, 0, ...declarations);
+    return remaining;
+  }
+
+  /**
+   * Find the position of the statement containing a source line
+   */
+  private findStatementIndex(children: IR[], line: number): number {
+    let index = 0;
+    children.forEach((child, position) => {
+      const lineNumber = child.meta?.lineNumber;
+      if (lineNumber !== undefined && lineNumber <= line) {
+        index = position;
+      }
+    });
+    return index;
   }
 
   /**
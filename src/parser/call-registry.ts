@@ -0,0 +1,81 @@
+// Registry of call mappings from Python builtins and methods to pseudocode
+
+import { CallMapping } from '../types/parser';
+
+/**
+ * Built-in mappings; user-supplied rules registered later take precedence
+ */
+export const DEFAULT_CALL_MAPPINGS: CallMapping[] = [
+  { name: 'print', template: 'OUTPUT {args}' },
+  // input() is rewritten on the right side of assignments by the emitter
+  { name: 'input', arity: 0, template: 'input()', resultType: 'STRING' },
+  { name: 'input', arity: 1, template: 'input({0})', resultType: 'STRING' },
+  { name: 'len', arity: 1, template: 'LENGTH({0})', resultType: 'INTEGER' },
+  { name: 'str', arity: 1, template: 'STRING({0})', resultType: 'STRING' },
+  { name: 'int', arity: 1, template: 'INTEGER({0})', resultType: 'INTEGER' },
+  { name: 'float', arity: 1, template: 'REAL({0})', resultType: 'REAL' },
+  { name: 'abs', arity: 1, template: 'ABS({0})' },
+  { name: 'max', template: 'MAX({args})' },
+  { name: 'min', template: 'MIN({args})' },
+  { name: 'round', arity: 1, template: 'ROUND({0}, 0)' },
+  { name: 'round', arity: 2, template: 'ROUND({0}, {1})' },
+  { name: 'range', arity: 1, template: '0 TO {0} - 1' },
+  { name: 'range', arity: 2, template: '{0} TO {1} - 1' },
+  { name: 'range', arity: 3, template: '{0} TO {1} - 1 STEP {2}' },
+  { name: 'upper', method: true, template: 'UCASE({object})', resultType: 'STRING' },
+  { name: 'lower', method: true, template: 'LCASE({object})', resultType: 'STRING' },
+  { name: 'strip', method: true, template: 'TRIM({object})', resultType: 'STRING' },
+  { name: 'split', method: true, arity: 0, template: 'SPLIT({object})' },
+  { name: 'split', method: true, arity: 1, template: 'SPLIT({object}, {0})' },
+  { name: 'replace', method: true, arity: 2, template: 'REPLACE({object}, {0}, {1})' },
+  { name: 'find', method: true, arity: 1, template: 'FIND({object}, {0})' },
+  { name: 'startswith', method: true, arity: 1, template: 'STARTSWITH({object}, {0})' },
+  { name: 'endswith', method: true, arity: 1, template: 'ENDSWITH({object}, {0})' },
+];
+
+/**
+ * Looks up the mapping for a call by name and number of arguments
+ */
+export class CallRegistry {
+  private mappings: CallMapping[] = [];
+
+  constructor(mappings: CallMapping[] = DEFAULT_CALL_MAPPINGS) {
+    this.registerAll(mappings);
+  }
+
+  register(mapping: CallMapping): void {
+    this.mappings.push(mapping);
+  }
+
+  registerAll(mappings: CallMapping[]): void {
+    mappings.forEach((mapping) => this.register(mapping));
+  }
+
+  /**
+   * Find the most recently registered mapping for a call
+   */
+  find(name: string, arity: number, method = false): CallMapping | null {
+    for (let i = this.mappings.length - 1; i >= 0; i--) {
+      const mapping = this.mappings[i];
+      if (
+        mapping.name === name &&
+        (mapping.method ?? false) === method &&
+        (mapping.arity === undefined || mapping.arity === arity)
+      ) {
+        return mapping;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Fill in a mapping's template with converted arguments
+   */
+  apply(mapping: CallMapping, args: string[], object?: string): string {
+    return mapping.template.replace(/\{(\d+|args|object)\}/g, (placeholder, key: string) => {
+      if (key === 'args') return args.join(', ');
+      if (key === 'object') return object ?? placeholder;
+      return args[Number(key)] ?? placeholder;
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { IR, IRKind, createIR, IRMeta } from '../types/ir';
-import { IGCSEDataType } from '../types/igcse';
-import { ParameterInfo, ParseResult } from '../types/parser';
+import { DEFAULT_DATA_TYPE, IGCSEDataType } from '../types/igcse';
+import { ParameterInfo, ParseResult, ParserOptions } from '../types/parser';
 import { ExpressionVisitor } from './expression-visitor';
 import { BaseParser } from './base-parser';
 
@@ -14,6 +14,25 @@ interface ASTNode {
   [key: string]: any;
 }
 
+/**
+ * Methods that change a list, dict or set in place
+ */
+const MUTATING_METHODS = [
+  'append',
+  'extend',
+  'insert',
+  'remove',
+  'pop',
+  'clear',
+  'sort',
+  'reverse',
+  'update',
+  'add',
+  'discard',
+  'setdefault',
+  'popitem',
+];
+
 /**
  * Visitor class responsible for processing function and class definitions
  */
@@ -27,9 +46,9 @@ export class DefinitionVisitor extends BaseParser {
   private expressionVisitor: ExpressionVisitor;
   public visitNode: ((node: ASTNode) => IR) | undefined;
 
-  constructor() {
-    super();
-    this.expressionVisitor = new ExpressionVisitor();
+  constructor(options: ParserOptions = {}) {
+    super(options);
+    this.expressionVisitor = new ExpressionVisitor(options);
   }
 
   /**
@@ -37,18 +56,45 @@ export class DefinitionVisitor extends BaseParser {
    */
   setContext(context: any): void {
     this.context = context;
+    this.expressionVisitor.setContext(context);
   }
 
   /**
    * Process function definitions
    */
   visitFunctionDef(node: ASTNode): IR {
-    const funcName = this.capitalizeFirstLetter(node.name);
-    const params = this.extractParameters(node.args);
-    const paramText = params.map((p) => `${p.name} : ${p.type}`).join(', ');
+    // Methods keep their names (NEW for __init__) and lose the self parameter
+    const method = this.context.currentScope.type === 'class';
+    const funcName = method ? this.getMemberName(node.name) : this.capitalizeFirstLetter(node.name);
+    const params = this.extractParameters(node);
+    if (method && !this.isStaticMethod(node)) {
+      params.shift();
+    }
+    const referenceParams = this.findReferenceParameters(
+      params.map((p) => p.name),
+      node.body
+    );
+    params.forEach((p) => {
+      p.byReference = referenceParams.has(p.name);
+    });
+    const methodBody = method ? this.renameLocals(node) : node.body;
+    const parameterMapping = method ? this.renameParameters(node, params) : null;
+
+    // A function returning a tuple passes the values back through BYREF output parameters
+    const outputs =
+      this.context.currentScope.type === 'global'
+        ? this.context.tupleFunctions[node.name]
+        : undefined;
+    let body: ASTNode[] = methodBody;
+    if (outputs) {
+      params.push(...outputs.map((output) => ({ ...output, byReference: true })));
+      body = [...node.body.slice(0, -1), ...this.createOutputAssignments(node, outputs)];
+    }
+    const paramList = params.map((p) => `${p.name} : ${p.type}`);
+    const paramText = paramList.join(', ');
 
     // Infer return type
-    const hasReturn = this.hasReturnStatement(node.body);
+    const hasReturn = !outputs && node.name !== '__init__' && this.hasReturnStatement(node.body);
     const returnType = hasReturn ? this.inferReturnType(node) : null;
 
     let funcText: string;
@@ -57,10 +103,17 @@ export class DefinitionVisitor extends BaseParser {
     } else {
       funcText = `PROCEDURE ${funcName}(${paramText})`;
     }
+    if (method) {
+      funcText = `${this.getVisibility(node.name)} ${funcText}`;
+    }
 
     // Enter function scope
     this.enterScope(funcName, 'function');
     this.increaseIndent();
+    const enclosingMapping = this.context.parameterMapping;
+    if (parameterMapping) {
+      this.context.parameterMapping = parameterMapping;
+    }
 
     // Register parameters as variables
     params.forEach((param) => {
@@ -68,10 +121,15 @@ export class DefinitionVisitor extends BaseParser {
     });
 
     // Process function body
-    const bodyChildren = node.body.map((child: ASTNode) =>
-      this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+    const bodyChildren = this.addDeclarations(
+      body.map((child: ASTNode) =>
+        this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+      ),
+      params.map((param) => param.name),
+      this.context?.typeInference?.getFunctionTypes(node)?.variables
     );
 
+    this.context.parameterMapping = enclosingMapping;
     this.decreaseIndent();
     this.exitScope();
 
@@ -80,7 +138,116 @@ export class DefinitionVisitor extends BaseParser {
     const endIR = this.createIRNode('statement', endText);
     bodyChildren.push(endIR);
 
-    return this.createIRNode('function', funcText, bodyChildren);
+    return this.createIRNode('function', funcText, bodyChildren, {
+      name: funcName,
+      params: paramList,
+      byRefParams: params.filter((p) => p.byReference).map((p) => p.name),
+    });
+  }
+
+  /**
+   * Replace the final return a, b with assignments to the output parameters
+   */
+  private createOutputAssignments(
+    node: ASTNode,
+    outputs: Array<{ name: string; type: IGCSEDataType }>
+  ): ASTNode[] {
+    const returned = node.body[node.body.length - 1];
+    return outputs
+      .map((output, index) => ({ output, value: returned.value.elts[index] }))
+      .filter(({ output, value }) => !(value.type === 'Name' && value.id === output.name))
+      .map(({ output, value }) => ({
+        type: 'Assign',
+        targets: [{ type: 'Name', id: output.name, ctx: 'Store' }],
+        value,
+        lineno: returned.lineno,
+        col_offset: returned.col_offset,
+      }));
+  }
+
+  /**
+   * Find parameters changed in a way the caller can see:
+   * element or attribute assignment (including swaps), mutating methods and del
+   */
+  private findReferenceParameters(paramNames: string[], body: ASTNode[]): Set<string> {
+    const candidates = new Set(paramNames.filter((name) => name !== 'self'));
+    const byReference = new Set<string>();
+
+    const getRootName = (target: ASTNode): string | null => {
+      let current = target;
+      while (current.type === 'Subscript' || current.type === 'Attribute') {
+        current = current.value;
+      }
+      return current.type === 'Name' ? current.id : null;
+    };
+
+    const markTarget = (target: ASTNode): void => {
+      if (target.type === 'Tuple' || target.type === 'List') {
+        target.elts.forEach(markTarget);
+      } else if (target.type === 'Starred') {
+        markTarget(target.value);
+      } else if (target.type === 'Name') {
+        // After rebinding, the name no longer refers to the caller's object
+        candidates.delete(target.id);
+      } else {
+        const name = getRootName(target);
+        if (name && candidates.has(name)) {
+          byReference.add(name);
+        }
+      }
+    };
+
+    const visit = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+        return;
+      }
+      const node = child as ASTNode;
+      if (!node || typeof node !== 'object' || typeof node.type !== 'string') {
+        return;
+      }
+
+      switch (node.type) {
+        // Nested definitions have their own parameters
+        case 'FunctionDef':
+        case 'ClassDef':
+        case 'Lambda':
+          return;
+        case 'Assign':
+          visit(node.value);
+          node.targets.forEach(markTarget);
+          return;
+        case 'AugAssign':
+        case 'AnnAssign':
+          visit(node.value);
+          markTarget(node.target);
+          return;
+        case 'Delete':
+          node.targets.forEach(markTarget);
+          return;
+        case 'For':
+          visit(node.iter);
+          markTarget(node.target);
+          visit(node.body);
+          visit(node.orelse);
+          return;
+        case 'Call':
+          if (
+            node.func.type === 'Attribute' &&
+            MUTATING_METHODS.includes(node.func.attr) &&
+            node.func.value.type === 'Name' &&
+            candidates.has(node.func.value.id)
+          ) {
+            byReference.add(node.func.value.id);
+          }
+          break;
+      }
+
+      Object.values(node).forEach(visit);
+    };
+
+    visit(body);
+    return byReference;
   }
 
   /**
@@ -89,8 +256,14 @@ export class DefinitionVisitor extends BaseParser {
   visitClassDef(node: ASTNode): IR {
     const className = node.name;
 
+    const enumMembers = this.getEnumMembers(node);
+    if (enumMembers) {
+      return this.createEnumType(node, className, enumMembers);
+    }
+
     // Determine whether to treat as record type
-    const isRecordType = this.shouldTreatAsRecordType(node);
+    const isRecordType =
+      this.context.classDefinitions?.[className]?.isRecord ?? this.shouldTreatAsRecordType(node);
 
     // If treating as record type
     if (isRecordType) {
@@ -101,11 +274,25 @@ export class DefinitionVisitor extends BaseParser {
     return this.createClass(node, className);
   }
 
+  /**
+   * Create an enumerated type (TYPE Day = (MON, TUE, WED)) from an Enum class
+   */
+  private createEnumType(node: ASTNode, className: string, members: string[]): IR {
+    if (node.body.some((item: ASTNode) => item.type === 'FunctionDef')) {
+      this.addWarning(
+        `Methods of enumeration ${className} have no IGCSE equivalent and were not converted`,
+        'unsupported_feature',
+        node.lineno
+      );
+    }
+    return this.createIRNode('type', `TYPE ${className} = (${members.join(', ')})`);
+  }
+
   /**
    * Create record type
    */
   private createRecordType(node: ASTNode, className: string): IR {
-    const recordTypeName = `${className}Record`;
+    const recordTypeName = this.getRecordTypeName(className);
     const typeText = `TYPE ${recordTypeName}`;
 
     // Extract attributes from __init__ method
@@ -114,7 +301,13 @@ export class DefinitionVisitor extends BaseParser {
     );
 
     const children: IR[] = [];
-    if (constructor) {
+    const fields = this.getDeclaredFields(node);
+    if (fields) {
+      for (const field of fields) {
+        const fieldType = this.convertFieldType(field.annotation);
+        children.push(this.createIRNode('statement', `DECLARE ${field.name} : ${fieldType}`));
+      }
+    } else if (constructor) {
       // Extract actual field names and types from constructor
       const attributes = this.extractAttributesFromConstructor(constructor);
 
@@ -128,59 +321,482 @@ export class DefinitionVisitor extends BaseParser {
   }
 
   /**
-   * Create regular class
+   * Fields declared with annotations by a dataclass, NamedTuple or TypedDict, with their
+   * default values; null for other classes
+   */
+  getDeclaredFields(
+    node: ASTNode
+  ): Array<{ name: string; annotation: ASTNode; value: ASTNode | null }> | null {
+    const getName = (expression: ASTNode): string | undefined =>
+      expression.type === 'Call'
+        ? getName(expression.func)
+        : expression.type === 'Attribute'
+          ? expression.attr
+          : expression.id;
+    const isDataclass = (node.decorator_list ?? []).some(
+      (decorator: ASTNode) => getName(decorator) === 'dataclass'
+    );
+    const isTypedTuple = node.bases.some((base: ASTNode) =>
+      ['NamedTuple', 'TypedDict'].includes(getName(base) ?? '')
+    );
+    if (!isDataclass && !isTypedTuple) {
+      return null;
+    }
+
+    // ClassVar annotations are class attributes rather than fields
+    return node.body
+      .filter(
+        (item: ASTNode) =>
+          item.type === 'AnnAssign' &&
+          item.target.type === 'Name' &&
+          getName(
+            item.annotation.type === 'Subscript' ? item.annotation.value : item.annotation
+          ) !== 'ClassVar'
+      )
+      .map((item: ASTNode) => ({
+        name: item.target.id,
+        annotation: item.annotation,
+        value: item.value ?? null,
+      }));
+  }
+
+  /**
+   * Parameters taken when constructing a record and the field values they give, such as
+   * self.x = x_coord in __init__; a dataclass takes its declared fields in order
+   */
+  getRecordFields(node: ASTNode): {
+    parameters: Array<{ name: string; value: ASTNode | null }>;
+    fields: Array<{ name: string; value: ASTNode }>;
+  } | null {
+    const declaredFields = this.getDeclaredFields(node);
+    if (declaredFields) {
+      return {
+        parameters: declaredFields.map(({ name, value }) => ({ name, value })),
+        fields: declaredFields.map(({ name }) => ({
+          name,
+          value: { type: 'Name', id: name, ctx: 'Load' },
+        })),
+      };
+    }
+
+    const constructor = node.body.find(
+      (item: ASTNode) => item.type === 'FunctionDef' && item.name === '__init__'
+    );
+    if (!constructor) {
+      return null;
+    }
+
+    // Defaults belong to the last parameters
+    const args = constructor.args.args.filter((arg: ASTNode) => arg.arg !== 'self');
+    const defaults = constructor.args.defaults ?? [];
+    const firstDefault = args.length - defaults.length;
+    return {
+      parameters: args.map((arg: ASTNode, index: number) => ({
+        name: arg.arg,
+        value: index >= firstDefault ? defaults[index - firstDefault] : null,
+      })),
+      fields: constructor.body
+        .filter(
+          (stmt: ASTNode) =>
+            (stmt.type === 'Assign' || (stmt.type === 'AnnAssign' && stmt.value)) &&
+            (stmt.targets?.[0] ?? stmt.target).type === 'Attribute' &&
+            (stmt.targets?.[0] ?? stmt.target).value.id === 'self'
+        )
+        .map((stmt: ASTNode) => ({
+          name: (stmt.targets?.[0] ?? stmt.target).attr,
+          value: stmt.value,
+        })),
+    };
+  }
+
+  /**
+   * Members of an Enum, IntEnum or StrEnum class in order; null for other classes
+   */
+  getEnumMembers(node: ASTNode): string[] | null {
+    const isEnum = node.bases.some((base: ASTNode) =>
+      ['Enum', 'IntEnum', 'StrEnum'].includes(base.type === 'Attribute' ? base.attr : base.id)
+    );
+    if (!isEnum) {
+      return null;
+    }
+
+    // Names starting with an underscore (_ignore_, _order_) configure the enum itself
+    return node.body
+      .filter(
+        (item: ASTNode) =>
+          item.type === 'Assign' &&
+          item.targets.length === 1 &&
+          item.targets[0].type === 'Name' &&
+          !item.targets[0].id.startsWith('_')
+      )
+      .map((item: ASTNode) => item.targets[0].id);
+  }
+
+  /**
+   * Constant values of the members of an Enum class, to find a member by its value (Day(2))
+   */
+  getEnumValues(node: ASTNode): Array<{ name: string; value: unknown }> {
+    return node.body
+      .filter(
+        (item: ASTNode) =>
+          item.type === 'Assign' &&
+          item.targets.length === 1 &&
+          item.targets[0].type === 'Name' &&
+          item.value.type === 'Constant'
+      )
+      .map((item: ASTNode) => ({ name: item.targets[0].id, value: item.value.value }));
+  }
+
+  /**
+   * Type of a record field: another record type or an IGCSE type
+   */
+  private convertFieldType(annotation: ASTNode): string {
+    if (annotation.type === 'Name' && this.context.classDefinitions?.[annotation.id]?.isRecord) {
+      return this.getRecordTypeName(annotation.id);
+    }
+    return this.convertPythonTypeToIGCSE(annotation);
+  }
+
+  /**
+   * Create a class in the Cambridge OOP syntax: attributes and methods named with a leading
+   * underscore are PRIVATE (and lose the underscore), the rest PUBLIC, and __init__ becomes
+   * the NEW constructor
    */
   private createClass(node: ASTNode, className: string): IR {
-    const baseClass = node.bases.length > 0 ? node.bases[0].id : null;
+    const fields = this.getDeclaredFields(node);
+    // NamedTuple and TypedDict only mark the fields, they are not inherited from
+    const baseClass = node.bases.length > 0 && !fields ? node.bases[0].id : null;
     let classText = `CLASS ${className}`;
     if (baseClass) {
       classText += ` INHERITS ${baseClass}`;
     }
 
+    const methods: ASTNode[] = node.body.filter((item: ASTNode) => item.type === 'FunctionDef');
+    // A dataclass with methods is constructed from its fields
+    const fieldConstructor =
+      fields && !methods.some((method) => method.name === '__init__')
+        ? this.createFieldConstructor(node, fields)
+        : null;
+    if (fieldConstructor) {
+      methods.unshift(fieldConstructor);
+    }
+    const attributes = this.collectAttributes(node, methods);
+    const classDefinitions = this.context.classDefinitions ?? {};
+    // Inherited members are reached as self.x too
+    const members = {
+      ...(baseClass ? classDefinitions[baseClass]?.members : undefined),
+      ...this.createMemberNames([
+        ...attributes.map((attribute) => attribute.name),
+        ...methods.map((method) => method.name),
+      ]),
+    };
+    classDefinitions[className] = { ...classDefinitions[className], members };
+    this.context.classDefinitions = classDefinitions;
+
+    const enclosingClass = this.context.currentClass;
+    this.context.currentClass = className;
     this.enterScope(className, 'class');
     this.increaseIndent();
 
-    const members: IR[] = [];
+    const children: IR[] = attributes.map((attribute) =>
+      this.createIRNode(
+        'statement',
+        `${this.getVisibility(attribute.name)} ${members[attribute.name]} : ${attribute.type}`
+      )
+    );
 
-    // Process class attributes and methods
-    for (const item of node.body) {
-      if (item.type === 'FunctionDef') {
-        if (item.name === '__init__') {
-          // Extract attributes from constructor
-          const attributes = this.extractAttributesFromConstructor(item);
-          attributes.forEach((attr) => {
-            members.push(this.createIRNode('statement', `PRIVATE ${attr}`));
-          });
-        }
-        members.push(
-          this.visitNode
-            ? this.visitNode(item)
-            : this.createIRNode('comment', '// Unprocessed node')
-        );
-      } else if (item.type === 'Assign') {
-        // Class attributes
-        const attrIR = this.visitNode
-          ? this.visitNode(item)
-          : this.createIRNode('comment', '// Unprocessed node');
-        attrIR.text = `PRIVATE ${attrIR.text}`;
-        members.push(attrIR);
+    // Class attributes are given their values by the constructor, so each object has its own
+    const classAttributes = this.createInitialValues(
+      fieldConstructor
+        ? { ...node, body: node.body.filter((item: ASTNode) => item.type !== 'AnnAssign') }
+        : node
+    );
+    for (const assignment of classAttributes) {
+      this.addWarning(
+        `Class attribute '${assignment.targets[0].attr}' on line ${assignment.lineno} is shared by all ${className} objects in Python but becomes a field of each object, set in NEW`,
+        'unsupported_feature',
+        assignment.lineno,
+        assignment.col_offset
+      );
+    }
+    const initialValues = classAttributes.map((assignment) =>
+      this.visitNode
+        ? this.visitNode(assignment)
+        : this.createIRNode('comment', '// Unprocessed node')
+    );
+    if (initialValues.length > 0 && !methods.some((method) => method.name === '__init__')) {
+      children.push(
+        this.createIRNode('procedure', 'PUBLIC PROCEDURE NEW()', [
+          ...initialValues,
+          this.createIRNode('statement', 'ENDPROCEDURE'),
+        ])
+      );
+    }
+
+    for (const method of methods) {
+      const methodIR = this.visitNode
+        ? this.visitNode(method)
+        : this.createIRNode('comment', '// Unprocessed node');
+      if (method.name === '__init__') {
+        methodIR.children.unshift(...initialValues);
       }
+      children.push(methodIR);
     }
 
     this.decreaseIndent();
     this.exitScope();
+    this.context.currentClass = enclosingClass;
 
     const endClassIR = this.createIRNode('statement', 'ENDCLASS');
-    members.push(endClassIR);
+    children.push(endClassIR);
+
+    return this.createIRNode('class', classText, children);
+  }
+
+  /**
+   * Collect the attributes of a class with their types: class attributes first, then
+   * the self.x assignments in each method
+   */
+  private collectAttributes(
+    node: ASTNode,
+    methods: ASTNode[]
+  ): Array<{ name: string; type: IGCSEDataType }> {
+    const attributes = new Map<string, IGCSEDataType>();
+    const add = (name: string, type: IGCSEDataType) => {
+      if (!attributes.has(name)) {
+        attributes.set(name, type);
+      }
+    };
+    const getValueType = (value: ASTNode): IGCSEDataType =>
+      value.inferredType ?? this.expressionVisitor.inferTypeFromValue(value);
+
+    for (const item of node.body) {
+      if (item.type === 'Assign' && item.targets[0].type === 'Name') {
+        add(item.targets[0].id, getValueType(item.value));
+      } else if (item.type === 'AnnAssign' && item.target.type === 'Name') {
+        add(item.target.id, this.convertPythonTypeToIGCSE(item.annotation));
+      }
+    }
+
+    for (const method of methods) {
+      // self.name = name takes the type of the parameter
+      const paramTypes = new Map(this.extractParameters(method).map((p) => [p.name, p.type]));
+      const visit = (statements: ASTNode[]): void => {
+        for (const statement of statements) {
+          if (statement.type === 'FunctionDef' || statement.type === 'ClassDef') {
+            continue;
+          }
+          const targets: ASTNode[] =
+            statement.type === 'Assign'
+              ? statement.targets
+              : statement.type === 'AnnAssign'
+                ? [statement.target]
+                : [];
+          for (const target of targets) {
+            if (this.isSelfAttribute(target)) {
+              const value = statement.value;
+              add(
+                target.attr,
+                statement.annotation
+                  ? this.convertPythonTypeToIGCSE(statement.annotation)
+                  : ((value.type === 'Name' ? paramTypes.get(value.id) : undefined) ??
+                      getValueType(value))
+              );
+            }
+          }
+          for (const key of ['body', 'orelse', 'finalbody', 'handlers']) {
+            if (Array.isArray(statement[key])) {
+              visit(statement[key]);
+            }
+          }
+        }
+      };
+      visit(method.body);
+    }
+
+    return Array.from(attributes, ([name, type]) => ({ name, type }));
+  }
+
+  /**
+   * Turn class attribute definitions (count = 0) into assignments for the constructor
+   */
+  private createInitialValues(node: ASTNode): ASTNode[] {
+    return node.body
+      .filter(
+        (item: ASTNode) =>
+          (item.type === 'Assign' || (item.type === 'AnnAssign' && item.value)) &&
+          (item.targets?.[0] ?? item.target).type === 'Name'
+      )
+      .map((item: ASTNode) => ({
+        ...item,
+        type: 'Assign',
+        targets: [
+          {
+            type: 'Attribute',
+            value: { type: 'Name', id: 'self', ctx: 'Load' },
+            attr: (item.targets?.[0] ?? item.target).id,
+            ctx: 'Store',
+          },
+        ],
+      }));
+  }
+
+  /**
+   * Constructor taking every declared field in order, as generated for a dataclass
+   */
+  private createFieldConstructor(
+    node: ASTNode,
+    fields: Array<{ name: string; annotation: ASTNode }>
+  ): ASTNode {
+    const self = (ctx: string): ASTNode => ({ type: 'Name', id: 'self', ctx });
+    return {
+      type: 'FunctionDef',
+      name: '__init__',
+      args: {
+        args: [
+          { arg: 'self' },
+          ...fields.map((field) => ({ arg: field.name, annotation: field.annotation })),
+        ],
+      },
+      body: fields.map((field) => ({
+        type: 'Assign',
+        targets: [{ type: 'Attribute', value: self('Load'), attr: field.name, ctx: 'Store' }],
+        value: { type: 'Name', id: field.name, ctx: 'Load' },
+        lineno: node.lineno || 0,
+      })),
+      decorator_list: [],
+      lineno: node.lineno || 0,
+    };
+  }
+
+  /**
+   * Name each member in pseudocode: __init__ is NEW and private members lose their
+   * leading underscores unless that would clash with another member
+   */
+  private createMemberNames(names: string[]): { [key: string]: string } {
+    const members: { [key: string]: string } = {};
+    for (const name of names) {
+      const stripped = name.replace(/^_+/, '');
+      members[name] =
+        this.getVisibility(name) === 'PRIVATE' && stripped && !names.includes(stripped)
+          ? stripped
+          : name;
+    }
+    members['__init__'] = 'NEW';
+    return members;
+  }
+
+  /**
+   * Pseudocode name of a member of the class being converted
+   */
+  private getMemberName(name: string): string {
+    const members = this.context.currentClass
+      ? this.context.classDefinitions?.[this.context.currentClass]?.members
+      : undefined;
+    return members && Object.prototype.hasOwnProperty.call(members, name) ? members[name] : name;
+  }
 
-    return this.createIRNode('class', classText, members);
+  /**
+   * Members named with a leading underscore (but not __special__ methods) are private
+   */
+  private getVisibility(name: string): 'PUBLIC' | 'PRIVATE' {
+    return name.startsWith('_') && !/^__\w+__$/.test(name) ? 'PRIVATE' : 'PUBLIC';
+  }
+
+  /**
+   * Rename method parameters that clash with a member, as both are plain names in
+   * pseudocode: name becomes initialName in the constructor and newName elsewhere
+   */
+  private renameParameters(node: ASTNode, params: ParameterInfo[]): { [key: string]: string } {
+    const members = Object.values(
+      this.context.classDefinitions?.[this.context.currentClass ?? '']?.members ?? {}
+    );
+    const prefix = node.name === '__init__' ? 'initial' : 'new';
+    const mapping: { [key: string]: string } = {};
+    for (const param of params) {
+      if (members.includes(param.name)) {
+        mapping[param.name] = `${prefix}${this.capitalizeFirstLetter(param.name)}`;
+        param.name = mapping[param.name];
+      }
+    }
+    return mapping;
+  }
+
+  /**
+   * Rename the local variables of a method that clash with a member (total becomes
+   * localTotal), as assigning the member from the local would otherwise be lost
+   */
+  private renameLocals(node: ASTNode): ASTNode[] {
+    const members = Object.values(
+      this.context.classDefinitions?.[this.context.currentClass ?? '']?.members ?? {}
+    );
+    const parameters = (node.args.args ?? []).map((arg: ASTNode) => arg.arg);
+    const mapping = new Map<string, string>();
+
+    // Nested definitions have their own local variables
+    const isNestedScope = (child: ASTNode) =>
+      ['FunctionDef', 'ClassDef', 'Lambda'].includes(child.type);
+    const collect = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(collect);
+        return;
+      }
+      const value = child as ASTNode;
+      if (!value || typeof value !== 'object' || typeof value.type !== 'string') {
+        return;
+      }
+      if (isNestedScope(value)) {
+        return;
+      }
+      if (
+        value.type === 'Name' &&
+        value.ctx === 'Store' &&
+        members.includes(value.id) &&
+        !parameters.includes(value.id)
+      ) {
+        mapping.set(value.id, `local${this.capitalizeFirstLetter(value.id)}`);
+      }
+      Object.values(value).forEach(collect);
+    };
+    collect(node.body);
+    if (mapping.size === 0) {
+      return node.body;
+    }
+
+    const rename = (child: unknown): unknown => {
+      if (Array.isArray(child)) {
+        return child.map(rename);
+      }
+      const value = child as ASTNode;
+      if (!value || typeof value !== 'object' || isNestedScope(value)) {
+        return child;
+      }
+      if (value.type === 'Name' && mapping.has(value.id)) {
+        return { ...value, id: mapping.get(value.id) };
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, property]) => [key, rename(property)])
+      );
+    };
+    return rename(node.body) as ASTNode[];
+  }
+
+  private isStaticMethod(node: ASTNode): boolean {
+    return (node.decorator_list ?? []).some(
+      (decorator: ASTNode) => decorator.type === 'Name' && decorator.id === 'staticmethod'
+    );
+  }
+
+  private isSelfAttribute(node: ASTNode): boolean {
+    return node.type === 'Attribute' && node.value.type === 'Name' && node.value.id === 'self';
   }
 
   /**
    * Extract function parameters
    */
-  private extractParameters(args: any): ParameterInfo[] {
+  private extractParameters(node: ASTNode): ParameterInfo[] {
     const params: ParameterInfo[] = [];
+    const args = node.args;
 
     if (args.args) {
       args.args.forEach((arg: any) => {
@@ -188,10 +804,9 @@ export class DefinitionVisitor extends BaseParser {
         // Prioritize type annotations if available
         let type = this.convertPythonTypeToIGCSE(arg.annotation);
 
-        // If no type annotation, infer INTEGER as default
-        // (More appropriate default due to frequent numeric operations)
+        // If no type annotation, use the types passed at call sites, else the default type
         if (!arg.annotation) {
-          type = 'INTEGER';
+          type = this.context?.typeInference?.getParameterType(node, name) ?? DEFAULT_DATA_TYPE;
         }
 
         params.push({ name, type });
@@ -205,23 +820,7 @@ export class DefinitionVisitor extends BaseParser {
    * Convert Python type annotations to IGCSE types
    */
   private convertPythonTypeToIGCSE(annotation: any): IGCSEDataType {
-    if (!annotation) return 'INTEGER'; // Changed default to INTEGER
-
-    if (annotation.type === 'Name') {
-      switch (annotation.id) {
-        case 'int':
-          return 'INTEGER';
-        case 'str':
-          return 'STRING';
-        case 'bool':
-          return 'BOOLEAN';
-        case 'float':
-          return 'REAL';
-        default:
-          return 'INTEGER'; // Unknown types also default to INTEGER
-      }
-    }
-    return 'INTEGER';
+    return this.expressionVisitor.inferTypeFromAnnotation(annotation);
   }
 
   /**
@@ -230,16 +829,8 @@ export class DefinitionVisitor extends BaseParser {
   private extractAttributesFromConstructor(constructor: ASTNode): string[] {
     const attributes: string[] = [];
 
-    // Get type information from constructor parameters
-    const paramTypes = new Map<string, IGCSEDataType>();
-    if (constructor.args && constructor.args.args) {
-      constructor.args.args.forEach((arg: any) => {
-        if (arg.arg !== 'self') {
-          const type = this.convertPythonTypeToIGCSE(arg.annotation);
-          paramTypes.set(arg.arg, type);
-        }
-      });
-    }
+    // Get type information from constructor parameters, annotated or inferred from the calls
+    const paramTypes = new Map(this.extractParameters(constructor).map((p) => [p.name, p.type]));
 
     // Look for self.attribute = value format
     for (const stmt of constructor.body) {
@@ -249,7 +840,7 @@ export class DefinitionVisitor extends BaseParser {
           const attrName = target.attr;
 
           // If assigned value is a parameter, use parameter type
-          let attrType: IGCSEDataType = 'STRING';
+          let attrType: IGCSEDataType;
           if (stmt.value.type === 'Name' && paramTypes.has(stmt.value.id)) {
             attrType = paramTypes.get(stmt.value.id)!;
           } else {
@@ -268,7 +859,12 @@ export class DefinitionVisitor extends BaseParser {
   /**
    * Determine whether to treat as record type
    */
-  private shouldTreatAsRecordType(node: ASTNode): boolean {
+  shouldTreatAsRecordType(node: ASTNode): boolean {
+    // Dataclasses, NamedTuples and TypedDicts without methods are records of their fields
+    if (this.getDeclaredFields(node)) {
+      return !node.body.some((item: ASTNode) => item.type === 'FunctionDef');
+    }
+
     // Classes with inheritance are not treated as record types
     if (node.bases && node.bases.length > 0) {
       return false;
@@ -357,159 +953,10 @@ export class DefinitionVisitor extends BaseParser {
   }
 
   /**
-   * Infer return type
+   * Return type from the shared type inference (INTEGER when nothing is known)
    */
   private inferReturnType(node: ASTNode): IGCSEDataType {
-    // Prioritize Python type hints if available
-    if (node.returns && node.returns.id) {
-      switch (node.returns.id) {
-        case 'int':
-          return 'INTEGER';
-        case 'str':
-          return 'STRING';
-        case 'bool':
-          return 'BOOLEAN';
-        case 'float':
-          return 'REAL';
-        default:
-          return 'STRING';
-      }
-    }
-
-    // Get parameter type information
-    const params = this.extractParameters(node.args);
-    const paramTypes = new Map<string, IGCSEDataType>();
-    params.forEach((param) => {
-      paramTypes.set(param.name, param.type);
-    });
-
-    // Simple return type inference (recursively search for Return statements)
-    const findReturnType = (statements: ASTNode[]): IGCSEDataType | null => {
-      for (const stmt of statements) {
-        if (stmt.type === 'Return' && stmt.value) {
-          return this.inferReturnTypeFromExpression(stmt.value, paramTypes);
-        }
-        // Also search nested structures (if statements, for loops, etc.)
-        if (stmt.body && Array.isArray(stmt.body)) {
-          const nestedType = findReturnType(stmt.body);
-          if (nestedType) return nestedType;
-        }
-        if (stmt.orelse && Array.isArray(stmt.orelse)) {
-          const elseType = findReturnType(stmt.orelse);
-          if (elseType) return elseType;
-        }
-      }
-      return null;
-    };
-
-    const returnType = findReturnType(node.body);
-    return returnType || 'INTEGER';
-  }
-
-  /**
-   * Return type inference considering parameter type information
-   */
-  private inferReturnTypeFromExpression(
-    node: ASTNode,
-    paramTypes: Map<string, IGCSEDataType>
-  ): IGCSEDataType {
-    if (!node) return 'INTEGER';
-
-    switch (node.type) {
-      case 'Constant':
-        if (typeof node.value === 'number') {
-          return Number.isInteger(node.value) ? 'INTEGER' : 'REAL';
-        }
-        if (typeof node.value === 'string') return 'STRING';
-        if (typeof node.value === 'boolean') return 'BOOLEAN';
-        break;
-      case 'Num':
-        return Number.isInteger(node.n) ? 'INTEGER' : 'REAL';
-      case 'Str':
-        return 'STRING';
-      case 'Name':
-        // Reference parameter type
-        if (paramTypes.has(node.id)) {
-          return paramTypes.get(node.id)!;
-        }
-        // Numeric literal
-        if (node.id && /^\d+$/.test(node.id)) {
-          return 'INTEGER';
-        }
-        if (node.id && /^\d+\.\d+$/.test(node.id)) {
-          return 'REAL';
-        }
-        return 'INTEGER';
-      case 'BinOp':
-        // Type inference for binary operations
-        const leftType = this.inferReturnTypeFromExpression(node.left, paramTypes);
-        const rightType = this.inferReturnTypeFromExpression(node.right, paramTypes);
-
-        // For arithmetic operators
-        if (['Add', 'Sub', 'Mult', 'Div', 'Mod', 'Pow'].includes(node.op.type)) {
-          // String concatenation (+operator) - only for explicit string types
-          if (
-            node.op.type === 'Add' &&
-            ((leftType === 'STRING' && this.isExplicitStringNode(node.left)) ||
-              (rightType === 'STRING' && this.isExplicitStringNode(node.right)))
-          ) {
-            return 'STRING';
-          }
-
-          // Treat as numeric operation if numeric types are involved
-          if (
-            leftType === 'INTEGER' ||
-            leftType === 'REAL' ||
-            rightType === 'INTEGER' ||
-            rightType === 'REAL'
-          ) {
-            // Division results in REAL
-            if (node.op.type === 'Div') {
-              return 'REAL';
-            }
-            // INTEGER if both are INTEGER
-            if (leftType === 'INTEGER' && rightType === 'INTEGER') {
-              return 'INTEGER';
-            }
-            // REAL if either is REAL
-            if (leftType === 'REAL' || rightType === 'REAL') {
-              return 'REAL';
-            }
-            // Default is INTEGER
-            return 'INTEGER';
-          }
-
-          // Default arithmetic operations inferred as INTEGER
-          return 'INTEGER';
-        }
-
-        // For comparison operators
-        if (['Eq', 'NotEq', 'Lt', 'LtE', 'Gt', 'GtE'].includes(node.op.type)) {
-          return 'BOOLEAN';
-        }
-
-        return 'INTEGER';
-    }
-
-    return 'INTEGER';
-  }
-
-  /**
-   * Check if it's an explicit string node
-   */
-  private isExplicitStringNode(node: ASTNode): boolean {
-    if (!node) return false;
-
-    switch (node.type) {
-      case 'Constant':
-        return typeof node.value === 'string';
-      case 'Str':
-        return true;
-      case 'JoinedStr': // f-string
-        return true;
-      default:
-        return false;
-    }
+    return this.context?.typeInference?.getReturnType(node) ?? DEFAULT_DATA_TYPE;
   }
 
   protected override createIRNode(
@@ -1,5 +1,8 @@
 // import { IR, IRKind, createIR } from '../types/ir';
 import { IGCSEDataType } from '../types/igcse';
+import { CallMapping, ParserContext, ParserOptions, createParseError } from '../types/parser';
+import { CallRegistry } from './call-registry';
+import { TypeInference } from './type-inference';
 
 /**
  * Basic interface for Python AST nodes
@@ -11,10 +14,102 @@ interface ASTNode {
   [key: string]: any;
 }
 
+/**
+ * Position in a string: a 0-based offset from the start, an offset back from
+ * the end (LENGTH(s) - k), or an expression
+ */
+type StringPosition =
+  | { kind: 'start'; offset: number }
+  | { kind: 'end'; offset: number }
+  | { kind: 'expression'; text: string };
+
+/**
+ * How tightly each IGCSE operator binds; an operand binding less tightly than
+ * its operator is printed in parentheses
+ */
+const PRECEDENCE: { [operator: string]: number } = {
+  OR: 1,
+  AND: 2,
+  NOT: 3,
+  '=': 4,
+  '≠': 4,
+  '<': 4,
+  '≤': 4,
+  '>': 4,
+  '≥': 4,
+  IN: 4,
+  'NOT IN': 4,
+  '+': 5,
+  '-': 5,
+  '&': 5,
+  '*': 6,
+  '/': 6,
+  DIV: 6,
+  MOD: 6,
+  NEGATE: 7,
+  '^': 8,
+};
+
+/**
+ * Operators whose result does not depend on how repeated uses are grouped
+ */
+const ASSOCIATIVE_OPERATORS = ['+', '*', '&', 'AND', 'OR'];
+
+/**
+ * Comparison written the other way round (0 <= x → x ≥ 0)
+ */
+const REVERSED_COMPARISONS: { [op: string]: string } = {
+  Lt: 'Gt',
+  LtE: 'GtE',
+  Gt: 'Lt',
+  GtE: 'LtE',
+  Eq: 'Eq',
+  NotEq: 'NotEq',
+};
+
+/**
+ * Modules whose functions are mapped to library routines even without an import
+ */
+const LIBRARY_MODULES = ['math', 'random'];
+
+/**
+ * Expressions with no IGCSE equivalent, kept in their Python form for manual translation
+ */
+const UNSUPPORTED_EXPRESSIONS: { [type: string]: string } = {
+  Lambda: 'Lambda expression',
+  NamedExpr: 'Assignment expression (:=)',
+  Set: 'Set literal',
+  Starred: 'Starred expression',
+  Slice: 'Slice',
+  ListComp: 'List comprehension',
+  SetComp: 'Set comprehension',
+  DictComp: 'Dictionary comprehension',
+  GeneratorExp: 'Generator expression',
+};
+
+/**
+ * Comprehensions can be expanded into loops only when assigned to a variable
+ */
+const COMPREHENSIONS = ['ListComp', 'SetComp', 'DictComp', 'GeneratorExp'];
+
 /**
  * Visitor class responsible for processing expressions
  */
 export class ExpressionVisitor {
+  private context: ParserContext | undefined;
+  private callRegistry = new CallRegistry();
+
+  constructor(private options: ParserOptions = {}) {
+    this.callRegistry.registerAll(options.callMappings ?? []);
+  }
+
+  /**
+   * Share the parser context for imports and call warnings
+   */
+  setContext(context: ParserContext): void {
+    this.context = context;
+  }
+
   /**
    * Convert expressions to IGCSE pseudocode
    */
@@ -29,10 +124,19 @@ export class ExpressionVisitor {
     }
 
     switch (node.type) {
-      case 'Name':
-        return node.id;
+      case 'Name': {
+        // Method parameters renamed to avoid clashing with an attribute
+        const mapping = this.context?.parameterMapping ?? {};
+        return Object.prototype.hasOwnProperty.call(mapping, node.id) ? mapping[node.id] : node.id;
+      }
       case 'Constant':
-        return this.formatConstant(node.value);
+        if (node.isComplex || node.isBytes) {
+          return this.visitUnsupportedExpression(
+            node,
+            node.isComplex ? 'Complex number literal' : 'Bytes literal'
+          );
+        }
+        return this.formatConstant(node.value, node.isFloat);
       case 'Num':
         return node.n.toString();
       case 'Str':
@@ -58,8 +162,6 @@ export class ExpressionVisitor {
         return this.visitList(node);
       case 'Dict':
         return this.visitDict(node);
-      case 'ListComp':
-        return this.visitListComp(node);
       case 'IfExp':
         return this.visitIfExp(node);
       case 'JoinedStr':
@@ -71,10 +173,46 @@ export class ExpressionVisitor {
         }
         return this.visitExpression(node.value);
       default:
-        return `/* ${node.type} */`;
+        return this.visitUnsupportedExpression(node);
     }
   }
 
+  /**
+   * Report an expression with no IGCSE equivalent and keep its Python source, which the
+   * statement marks as needing manual translation
+   */
+  private visitUnsupportedExpression(
+    node: ASTNode,
+    description = UNSUPPORTED_EXPRESSIONS[node.type] ?? `${node.type} expression`
+  ): string {
+    const reason = COMPREHENSIONS.includes(node.type)
+      ? 'can only be converted when assigned to a variable'
+      : 'has no IGCSE equivalent';
+    this.context?.callWarnings.push({
+      message: `${description} on line ${node.lineno} ${reason}`,
+      needsTranslation: true,
+    });
+    const source = this.getSourceText(node);
+    return node.parenthesized ? `(${source})` : source;
+  }
+
+  /**
+   * Python source of an expression, from its start to its end position
+   */
+  getSourceText(node: ASTNode): string {
+    const lines = this.context?.sourceLines.slice(
+      (node.lineno ?? 0) - 1,
+      node.end_lineno ?? node.lineno
+    );
+    if (!lines || lines.length === 0 || node.lineno === undefined) {
+      return node.type;
+    }
+    const last = lines.length - 1;
+    lines[last] = lines[last].slice(0, node.end_col_offset);
+    lines[0] = lines[0].slice(node.col_offset);
+    return lines.join('\n');
+  }
+
   /**
    * Simple expression parsing
    */
@@ -114,9 +252,13 @@ export class ExpressionVisitor {
     return result.trim();
   }
 
-  private formatConstant(value: any): string {
+  private formatConstant(value: any, isFloat: boolean = false): string {
     if (typeof value === 'string') {
-      return `"${value}"`;
+      // Keep control characters visible on a single output line
+      return `"${value.replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '\\r')}"`;
+    }
+    if (typeof value === 'number' && isFloat && Number.isInteger(value)) {
+      return value.toFixed(1);
     }
     if (typeof value === 'boolean') {
       return value ? 'TRUE' : 'FALSE';
@@ -135,97 +277,226 @@ export class ExpressionVisitor {
   }
 
   private visitBinOp(node: ASTNode): string {
-    const left = this.visitExpression(node.left);
-    const right = this.visitExpression(node.right);
-
-    // Special handling for string concatenation
-    if (
-      node.op.type === 'Add' &&
-      (this.isExplicitStringType(node.left) || this.isExplicitStringType(node.right))
-    ) {
-      return `${left} & ${right}`;
-    }
-
-    const op = this.convertOperator(node.op);
-    return `${left} ${op} ${right}`;
+    const operator = this.getOperator(node)!;
+    const left = this.formatOperand(node.left, operator, 'left');
+    const right = this.formatOperand(node.right, operator, 'right');
+    return `${left} ${operator} ${right}`;
   }
 
-  // Removed duplicate convertOperator method
-
   private visitUnaryOp(node: ASTNode): string {
-    const operand = this.visitExpression(node.operand);
     const op = this.convertUnaryOperator(node.op);
+    const operand = this.formatOperand(node.operand, this.getOperator(node)!, 'right');
+    // Sign operators attach directly to their operand (e.g. -1)
+    if (node.op.type === 'USub' || node.op.type === 'UAdd') {
+      return `${op}${operand}`;
+    }
     return `${op} ${operand}`;
   }
 
   private visitCompare(node: ASTNode): string {
-    let result = this.visitExpression(node.left);
-
-    for (let i = 0; i < node.ops.length; i++) {
-      const op = this.convertCompareOperator(node.ops[i]);
-      const comparator = this.visitExpression(node.comparators[i]);
-      result += ` ${op} ${comparator}`;
+    // 0 <= x < 10 is checked as x ≥ 0 AND x < 10
+    if (node.ops.length > 1) {
+      return node.ops
+        .map((op: ASTNode, index: number) => {
+          const left = index === 0 ? node.left : node.comparators[index - 1];
+          return this.visitExpression(this.createComparison(left, op, node.comparators[index]));
+        })
+        .join(' AND ');
     }
 
-    return result;
+    const operator = this.convertCompareOperator(node.ops[0]);
+    const left = this.formatOperand(node.left, operator, 'left');
+    const right = this.formatOperand(node.comparators[0], operator, 'right');
+    return `${left} ${operator} ${right}`;
+  }
+
+  /**
+   * Create one link of a chained comparison, putting a literal on the right
+   */
+  private createComparison(left: ASTNode, op: ASTNode, right: ASTNode): ASTNode {
+    const isLiteral = (node: ASTNode) =>
+      node.type === 'Constant' ||
+      (node.type === 'UnaryOp' && node.op.type === 'USub' && node.operand.type === 'Constant');
+    if (isLiteral(left) && !isLiteral(right) && REVERSED_COMPARISONS[op.type]) {
+      return {
+        type: 'Compare',
+        left: right,
+        ops: [{ type: REVERSED_COMPARISONS[op.type] }],
+        comparators: [left],
+      };
+    }
+    return { type: 'Compare', left, ops: [op], comparators: [right] };
   }
 
   private visitBoolOp(node: ASTNode): string {
-    const op = node.op.type === 'And' ? ' AND ' : ' OR ';
-    return node.values.map((value: ASTNode) => this.visitExpression(value)).join(op);
+    const operator = this.getOperator(node)!;
+    return node.values
+      .map((value: ASTNode, index: number) =>
+        this.formatOperand(value, operator, index === 0 ? 'left' : 'right')
+      )
+      .join(` ${operator} `);
   }
 
-  private visitCallExpression(node: ASTNode): string {
-    // Special handling for string method calls
-    if (node.func.type === 'Attribute') {
-      const value = this.visitExpression(node.func.value);
-      const method = node.func.attr;
-      const args = node.args.map((arg: ASTNode) => this.visitExpression(arg));
-
-      // Convert string methods to IGCSE Pseudocode functions
-      switch (method) {
-        case 'upper':
-          return `UCASE(${value})`;
-        case 'lower':
-          return `LCASE(${value})`;
-        case 'strip':
-          return `TRIM(${value})`;
-        case 'split':
-          return args.length > 0 ? `SPLIT(${value}, ${args[0]})` : `SPLIT(${value})`;
-        case 'replace':
-          return args.length >= 2
-            ? `REPLACE(${value}, ${args[0]}, ${args[1]})`
-            : `${value}.${method}(${args.join(', ')})`;
-        case 'find':
-          return args.length > 0
-            ? `FIND(${value}, ${args[0]})`
-            : `${value}.${method}(${args.join(', ')})`;
-        case 'startswith':
-          return args.length > 0
-            ? `STARTSWITH(${value}, ${args[0]})`
-            : `${value}.${method}(${args.join(', ')})`;
-        case 'endswith':
-          return args.length > 0
-            ? `ENDSWITH(${value}, ${args[0]})`
-            : `${value}.${method}(${args.join(', ')})`;
-        default:
-          return `${value}.${method}(${args.join(', ')})`;
+  /**
+   * Get the IGCSE operator an expression is printed with (for math and random calls, that
+   * of the expression they are written as), or null for names, literals, other calls and
+   * other operands that never need parentheses
+   */
+  private getOperator(node: ASTNode): string | null {
+    switch (node.type) {
+      case 'BinOp':
+        // Special handling for string concatenation
+        if (
+          node.op.type === 'Add' &&
+          (node.inferredType === 'STRING' ||
+            this.isExplicitStringType(node.left) ||
+            this.isExplicitStringType(node.right))
+        ) {
+          return '&';
+        }
+        return this.convertOperator(node.op);
+      case 'UnaryOp':
+        return node.op.type === 'Not' ? 'NOT' : 'NEGATE';
+      case 'Compare':
+        return node.ops.length > 1 ? 'AND' : this.convertCompareOperator(node.ops[0]);
+      case 'BoolOp':
+        return node.op.type === 'And' ? 'AND' : 'OR';
+      case 'Constant':
+        return typeof node.value === 'number' && node.value < 0 ? 'NEGATE' : null;
+      case 'IfExp':
+        return 'IF';
+      case 'Call': {
+        const name = this.getLibraryName(node.func);
+        const libraryExpression = name ? this.createLibraryExpression(name, node.args) : null;
+        return libraryExpression ? this.getOperator(libraryExpression) : null;
       }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Print an operand, in parentheses when it binds less tightly than its operator
+   * or when regrouping it would change the result, as in a - (b - c)
+   */
+  private formatOperand(node: ASTNode, operator: string, side: 'left' | 'right'): string {
+    const text = this.visitExpression(node);
+    const inner = this.getOperator(node);
+    if (inner === null) {
+      return text;
+    }
+
+    const innerPrecedence = PRECEDENCE[inner] ?? 0;
+    const outerPrecedence = PRECEDENCE[operator] ?? 0;
+    let parenthesize = innerPrecedence < outerPrecedence;
+    if (innerPrecedence === outerPrecedence) {
+      if (operator === '^') {
+        // ^ groups from the right: 2 ^ 3 ^ 2 is 2 ^ (3 ^ 2)
+        parenthesize = side === 'left';
+      } else if (operator === 'NEGATE' || innerPrecedence === PRECEDENCE['=']) {
+        // --x and a < b = c would be misread
+        parenthesize = true;
+      } else if (side === 'right' && operator !== 'NOT') {
+        parenthesize = !(ASSOCIATIVE_OPERATORS.includes(operator) && inner === operator);
+      }
+    }
+    return parenthesize ? `(${text})` : text;
+  }
+
+  private visitCallExpression(node: ASTNode): string {
+    const staticArrayCall = this.convertStaticArrayCall(node);
+    if (staticArrayCall !== null) {
+      return staticArrayCall;
+    }
+
+    const mappedCall = this.convertMappedCall(node);
+    if (mappedCall !== null) {
+      return mappedCall;
+    }
+
+    const libraryCall = this.convertLibraryCall(node);
+    if (libraryCall) {
+      return libraryCall;
+    }
+
+    const enumMember = this.visitEnumCall(node);
+    if (enumMember) {
+      return enumMember;
+    }
+
+    // Reads and writes of an open file are converted as statements (READFILE, WRITEFILE)
+    if (
+      node.func.type === 'Attribute' &&
+      node.func.value.type === 'Name' &&
+      this.context?.fileHandles[node.func.value.id]
+    ) {
+      return this.visitUnsupportedExpression(node, `File method ${node.func.attr}()`);
     }
 
-    const func = this.visitExpression(node.func);
     const args = node.args.map((arg: ASTNode) => this.visitExpression(arg));
+    if (node.func.type === 'Attribute') {
+      const method =
+        this.visitMemberAccess(node.func) ??
+        `${this.visitExpression(node.func.value)}.${node.func.attr}`;
+      return `${method}(${args.join(', ')})`;
+    }
 
-    // Convert built-in functions
-    const builtinResult = this.convertBuiltinFunction(func, args);
-    if (builtinResult) {
-      return builtinResult;
+    // Objects of classes (not record types) are created with NEW
+    if (
+      node.func.type === 'Name' &&
+      this.context?.classDefinitions?.[node.func.id]?.isRecord === false
+    ) {
+      return `NEW ${node.func.id}(${args.join(', ')})`;
     }
 
+    const func = this.visitExpression(node.func);
     return `${func}(${args.join(', ')})`;
   }
 
+  /**
+   * Find the registered mapping for a builtin, library or method call
+   */
+  public findCallMapping(node: ASTNode): CallMapping | null {
+    const func = node.func;
+    const libraryName = this.getLibraryName(func);
+    const method = !libraryName && func.type === 'Attribute';
+    const name = libraryName ?? (method ? func.attr : func.type === 'Name' ? func.id : null);
+    return name ? this.callRegistry.find(name, node.args.length, method) : null;
+  }
+
+  private convertMappedCall(node: ASTNode): string | null {
+    const mapping = this.findCallMapping(node);
+    if (!mapping) {
+      return null;
+    }
+
+    if (mapping.warning) {
+      this.context?.callWarnings.push({ message: mapping.warning, needsTranslation: false });
+    }
+    const args = node.args.map((arg: ASTNode) => this.visitExpression(arg));
+    const object = mapping.method ? this.visitExpression(node.func.value) : undefined;
+    return this.callRegistry.apply(mapping, args, object);
+  }
+
   private visitAttribute(node: ASTNode): string {
+    switch (this.getLibraryName(node)) {
+      case 'math.pi':
+        return '3.14159';
+      case 'math.e':
+        return '2.71828';
+    }
+
+    const enumMember = this.visitEnumMember(node);
+    if (enumMember) {
+      return enumMember;
+    }
+
+    const member = this.visitMemberAccess(node);
+    if (member) {
+      return member;
+    }
+    this.checkRecordField(node);
+
     // If attribute access target is Subscript, process directly to ensure index conversion
     if (node.value.type === 'Subscript') {
       const subscriptValue = this.visitExpression(node.value.value);
@@ -272,28 +543,416 @@ export class ExpressionVisitor {
     }
   }
 
+  /**
+   * Inside a class, self.x and ClassName.x are the member x itself; super().method is
+   * SUPER.method, and super().__init__ the constructor SUPER.NEW
+   */
+  visitMemberAccess(node: ASTNode): string | null {
+    const { value, attr } = node;
+    if (value.type === 'Call' && value.func.type === 'Name' && value.func.id === 'super') {
+      return `SUPER.${attr === '__init__' ? 'NEW' : attr}`;
+    }
+
+    const className = this.context?.currentClass;
+    if (!className || value.type !== 'Name' || (value.id !== 'self' && value.id !== className)) {
+      return null;
+    }
+    const members = this.context?.classDefinitions?.[className]?.members ?? {};
+    return Object.prototype.hasOwnProperty.call(members, attr) ? members[attr] : attr;
+  }
+
+  /**
+   * The length of a static array is its counter (len(scores) → scoresCount), that of a
+   * 2D array or one of its rows the declared size; list operations on a static array
+   * are only expanded as statements
+   */
+  private convertStaticArrayCall(node: ASTNode): string | null {
+    const arrayInfo = this.context?.arrayInfo ?? {};
+    if (node.func.type === 'Name' && node.func.id === 'len' && node.args.length === 1) {
+      const [array] = node.args;
+      return (
+        this.get2DArraySize(array) ??
+        (array.type === 'Name' ? (arrayInfo[array.id]?.count ?? null) : null)
+      );
+    }
+
+    if (
+      node.func.type === 'Attribute' &&
+      node.func.value.type === 'Name' &&
+      arrayInfo[node.func.value.id]?.count &&
+      ['append', 'pop', 'insert', 'remove'].includes(node.func.attr)
+    ) {
+      this.context?.callWarnings.push({
+        message: `${node.func.value.id}.${node.func.attr}() inside an expression is not expanded for a static array; use it as a statement or assignment`,
+        needsTranslation: true,
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Members of an enumerated type are referred to by name alone (Day.MON → MON);
+   * .value and .name have no equivalent, so they are kept and a warning raised, also when
+   * the object is of an unknown type that may be an enumeration
+   */
+  private visitEnumMember(node: ASTNode): string | null {
+    const classDefinitions = this.context?.classDefinitions ?? {};
+    const { value, attr } = node;
+    if (value.type === 'Name' && classDefinitions[value.id]?.enumMembers?.includes(attr)) {
+      return attr;
+    }
+
+    const hasEnums = Object.values(classDefinitions).some((definition) => definition.enumMembers);
+    if (!hasEnums || (attr !== 'value' && attr !== 'name')) {
+      return null;
+    }
+
+    const enumType = value.inferredType;
+    if (!enumType) {
+      this.context?.callWarnings.push({
+        message: `${this.getSourceText(node)} may read the ${attr} of an enumeration member, which IGCSE enumerated types do not have`,
+        needsTranslation: false,
+      });
+      return null;
+    }
+    if (!classDefinitions[enumType]?.enumMembers) {
+      return null;
+    }
+
+    if (attr === 'name') {
+      const source = this.getSourceText(node);
+      this.context?.callWarnings.push({
+        message: `${source} depends on the names of enumeration ${enumType}, which IGCSE enumerated types do not have`,
+        needsTranslation: true,
+      });
+      return source;
+    }
+    const member = this.visitExpression(value);
+    this.context?.callWarnings.push({
+      message: `${member}.value depends on the values of enumeration ${enumType}, which IGCSE enumerated types do not have`,
+      needsTranslation: true,
+    });
+    return member;
+  }
+
+  /**
+   * Day(2) is the member of the enumeration with that value (TUE); lookups of a value
+   * that is not a literal are kept and reported, as IGCSE enumerated types have no values
+   */
+  private visitEnumCall(node: ASTNode): string | null {
+    const className = node.func.type === 'Name' ? node.func.id : undefined;
+    const classDefinition = className ? this.context?.classDefinitions?.[className] : undefined;
+    if (!classDefinition?.enumMembers) {
+      return null;
+    }
+
+    const [value] = node.args;
+    const member =
+      node.args.length === 1 && value.type === 'Constant'
+        ? classDefinition.enumValues?.find(
+            (enumValue: { name: string; value: unknown }) => enumValue.value === value.value
+          )
+        : undefined;
+    if (member) {
+      return member.name;
+    }
+    const source = this.getSourceText(node);
+    this.context?.callWarnings.push({
+      message: `${source} finds a member of enumeration ${className} by its value, which IGCSE enumerated types do not have`,
+      needsTranslation: true,
+    });
+    return source;
+  }
+
+  /**
+   * Field read by subscripting a TypedDict record with a string key (student["name"])
+   */
+  getRecordField(node: ASTNode): string | null {
+    const slice = node.slice.type === 'Index' ? node.slice.value : node.slice;
+    const key = slice.type === 'Str' ? slice.s : slice.value;
+    if (typeof key !== 'string') {
+      return null;
+    }
+    const fields = this.getRecordDefinition(node.value)?.fields ?? [];
+    return fields.some((field) => field.name === key) ? key : null;
+  }
+
+  /**
+   * Report a field that the record type of a variable or array element does not have
+   * (student.nmae) as a name error
+   */
+  checkRecordField(node: ASTNode): void {
+    const recordDefinition = this.getRecordDefinition(node.value);
+    const fields = recordDefinition?.fields;
+    if (!recordDefinition || !fields || fields.some((field) => field.name === node.attr)) {
+      return;
+    }
+    // Expressions can be visited more than once, but each is reported once
+    const message = `${node.attr} is not a field of ${recordDefinition.typeName}`;
+    const errors = this.context?.errors ?? [];
+    if (!errors.some((error) => error.message === message && error.line === node.lineno)) {
+      errors.push(createParseError(message, 'name_error', node.lineno, node.col_offset));
+    }
+  }
+
+  /**
+   * Class definition of the record type of a variable (student) or array element (students[i])
+   */
+  private getRecordDefinition(
+    node: ASTNode
+  ): { typeName: string; fields?: Array<{ name: string }> } | undefined {
+    let type: string | undefined;
+    if (node.type === 'Name') {
+      type = this.getVariableType(node.id);
+    } else if (
+      node.type === 'Subscript' &&
+      node.value.type === 'Name' &&
+      node.slice.type !== 'Slice'
+    ) {
+      type = this.context?.arrayInfo[node.value.id]?.elementType;
+    }
+    return type
+      ? Object.values(this.context?.classDefinitions ?? {}).find(
+          (classDefinition) => classDefinition.isRecord && classDefinition.typeName === type
+        )
+      : undefined;
+  }
+
+  /**
+   * Declared type of a variable in the current or an enclosing scope
+   */
+  private getVariableType(name: string): string | undefined {
+    let scope = this.context?.currentScope;
+    while (scope && !scope.variables.has(name)) {
+      scope = scope.parent;
+    }
+    return scope?.variables.get(name)?.type;
+  }
+
   private visitSubscript(node: ASTNode): string {
-    const value = this.visitExpression(node.value);
-    const slice = this.visitExpression(node.slice);
+    const field = this.getRecordField(node);
+    if (field) {
+      return `${this.visitExpression(node.value)}.${field}`;
+    }
+
+    if (this.isStringValue(node.value)) {
+      const substring = this.visitStringSubscript(node);
+      if (substring) return substring;
+    }
+
+    // Slices of arrays, and string slices with a step, are kept whole
+    if (node.slice.type === 'Slice') {
+      return this.visitUnsupportedExpression(
+        node,
+        node.slice.step ? 'Slice with a step' : UNSUPPORTED_EXPRESSIONS.Slice
+      );
+    }
+
+    // Element of a 2D array: grid[r][c] → grid[r + 1, c + 1]
+    if (
+      node.value.type === 'Subscript' &&
+      node.value.slice.type !== 'Slice' &&
+      this.isKnownArray(node.value.value)
+    ) {
+      const array = this.visitExpression(node.value.value);
+      const row = this.formatArrayIndex(node.value.slice, node.value.value);
+      return `${array}[${row}, ${this.formatArrayIndex(node.slice, node.value)}]`;
+    }
+
+    const index = this.formatArrayIndex(node.slice, node.value);
+    return `${this.visitExpression(node.value)}[${index}]`;
+  }
+
+  /**
+   * Convert a 0-based Python index to a 1-based array index; a negative index counts
+   * back from the length of the array. Keys of dictionaries and other subscripts that
+   * are not numeric indices of a known array are kept as they are
+   */
+  formatArrayIndex(slice: ASTNode, array: ASTNode): string {
+    if (slice.type === 'Index') {
+      return this.formatArrayIndex(slice.value, array);
+    }
+    if (
+      !this.isKnownArray(array) ||
+      ['STRING', 'CHAR', 'BOOLEAN'].includes(slice.inferredType) ||
+      (slice.type === 'Constant' && typeof slice.value === 'string')
+    ) {
+      return this.visitExpression(slice);
+    }
 
     // For numeric indices, convert from 0-based to 1-based
-    if (node.slice.type === 'Num') {
-      const index = node.slice.n + 1;
-      return `${value}[${index}]`;
+    if (this.isNumericConstant(slice)) {
+      const value = this.getNumericValue(slice);
+      if (value < 0) {
+        const length = this.getArrayLength(array);
+        return this.formatStringPosition({ kind: 'end', offset: -value }, length, 1);
+      }
+      return `${value + 1}`;
+    }
+
+    // Every other index is shifted too, folding into a trailing constant (j + 1 → j + 2)
+    return this.formatStringPosition(
+      { kind: 'expression', text: this.visitExpression(slice) },
+      '',
+      1
+    );
+  }
+
+  /**
+   * Check that a subscripted value is an array: a list literal, a list-typed variable or
+   * a row of a 2D array
+   */
+  private isKnownArray(node: ASTNode): boolean {
+    if (node.inferredType === 'ARRAY' || node.type === 'List') {
+      return true;
+    }
+    if (node.type === 'Name') {
+      return (
+        !!this.context?.arrayInfo[node.id] ||
+        !!this.context?.arrayBounds[node.id] ||
+        this.getVariableType(node.id) === 'ARRAY'
+      );
+    }
+    return node.type === 'Subscript' && this.isKnownArray(node.value);
+  }
+
+  /**
+   * Declared number of rows of a 2D array (grid), or of columns for one of its rows (grid[r])
+   */
+  private get2DArraySize(array: ASTNode): string | null {
+    const bounds = this.context?.arrayBounds ?? {};
+    if (array.type === 'Name') {
+      return bounds[array.id]?.[0] ?? null;
+    }
+    if (array.type === 'Subscript' && array.value.type === 'Name' && array.slice.type !== 'Slice') {
+      return bounds[array.value.id]?.[1] ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Length of an array as pseudocode: the counter of a static array, the declared size
+   * of other arrays, or LENGTH() when the array is not known
+   */
+  getArrayLength(array: ASTNode): string {
+    const size = this.get2DArraySize(array);
+    if (size) {
+      return size;
+    }
+    const arrayInfo = array.type === 'Name' ? this.context?.arrayInfo[array.id] : undefined;
+    if (arrayInfo) {
+      return arrayInfo.count ?? String(arrayInfo.size);
     }
+    return `LENGTH(${this.visitExpression(array)})`;
+  }
 
-    // Also convert for Constant type numeric indices
-    if (node.slice.type === 'Constant' && typeof node.slice.value === 'number') {
-      const index = node.slice.value + 1;
-      return `${value}[${index}]`;
+  /**
+   * Convert string indexing and slicing to SUBSTRING (MID in the A Level dialect)
+   * s[i] → SUBSTRING(s, i + 1, 1), s[a:b] → SUBSTRING(s, a + 1, b - a)
+   */
+  private visitStringSubscript(node: ASTNode): string | null {
+    const value = this.visitExpression(node.value);
+    const length = `LENGTH(${value})`;
+    const slice = node.slice;
+
+    // Single character
+    if (slice.type !== 'Slice') {
+      const start = this.formatStringPosition(this.getStringPosition(slice), length, 1);
+      return this.formatSubstring(value, start, '1');
     }
 
-    // For variable indices, add +1
-    if (node.slice.type === 'Name') {
-      return `${value}[${slice} + 1]`;
+    // Slices with a step have no SUBSTRING equivalent
+    if (slice.step && !(slice.step.type === 'Constant' && slice.step.value === 1)) {
+      return null;
     }
+    const start: StringPosition = slice.lower
+      ? this.getStringPosition(slice.lower)
+      : { kind: 'start', offset: 0 };
+    const end: StringPosition = slice.upper
+      ? this.getStringPosition(slice.upper)
+      : { kind: 'end', offset: 0 };
 
-    return `${value}[${slice}]`;
+    const startText = this.formatStringPosition(start, length, 1);
+    return this.formatSubstring(value, startText, this.formatSubstringLength(start, end, length));
+  }
+
+  /**
+   * SUBSTRING(s, start, length), or MID in the A Level dialect
+   */
+  formatSubstring(value: string, start: string, length: string): string {
+    const name = this.options.dialect === 'alevel' ? 'MID' : 'SUBSTRING';
+    return `${name}(${value}, ${start}, ${length})`;
+  }
+
+  /**
+   * Classify a string index: non-negative literal, negative literal or expression
+   */
+  private getStringPosition(node: ASTNode): StringPosition {
+    if (this.isNumericConstant(node) && Number.isInteger(this.getNumericValue(node))) {
+      const value = this.getNumericValue(node);
+      return value < 0 ? { kind: 'end', offset: -value } : { kind: 'start', offset: value };
+    }
+    return { kind: 'expression', text: this.visitExpression(node) };
+  }
+
+  /**
+   * Format a position as an offset, adding 1 for the 1-based start of SUBSTRING
+   */
+  private formatStringPosition(position: StringPosition, length: string, adjust = 0): string {
+    switch (position.kind) {
+      case 'start':
+        return `${position.offset + adjust}`;
+      case 'end': {
+        const offset = position.offset - adjust;
+        if (offset === 0) return length;
+        return offset > 0 ? `${length} - ${offset}` : `${length} + ${-offset}`;
+      }
+      default: {
+        if (!adjust) return position.text;
+        // Fold into a trailing constant: i - 1 → i, i + 1 → i + 2
+        const match = position.text.match(/^(.+) ([+-]) (\d+)$/);
+        if (match) {
+          const offset = (match[2] === '+' ? 1 : -1) * parseInt(match[3], 10) + adjust;
+          if (offset === 0) return match[1];
+          return offset > 0 ? `${match[1]} + ${offset}` : `${match[1]} - ${-offset}`;
+        }
+        return `${position.text} + ${adjust}`;
+      }
+    }
+  }
+
+  /**
+   * Length of the substring between two positions, folded when both are literals
+   */
+  private formatSubstringLength(
+    start: StringPosition,
+    end: StringPosition,
+    length: string
+  ): string {
+    if (start.kind === end.kind && start.kind !== 'expression' && end.kind !== 'expression') {
+      const difference =
+        start.kind === 'start' ? end.offset - start.offset : start.offset - end.offset;
+      return `${Math.max(difference, 0)}`;
+    }
+    if (start.kind === 'start' && end.kind === 'end') {
+      return this.formatStringPosition({ kind: 'end', offset: end.offset + start.offset }, length);
+    }
+
+    const endText = this.formatStringPosition(end, length);
+    if (start.kind === 'start' && start.offset === 0) {
+      return endText;
+    }
+    const startText = this.formatStringPosition(start, length);
+    return /\s/.test(startText) ? `${endText} - (${startText})` : `${endText} - ${startText}`;
+  }
+
+  /**
+   * Check whether an expression is known to be a string
+   */
+  isStringValue(node: ASTNode): boolean {
+    return (
+      node.inferredType === 'STRING' || (node.type === 'Constant' && typeof node.value === 'string')
+    );
   }
 
   private visitList(node: ASTNode): string {
@@ -304,6 +963,10 @@ export class ExpressionVisitor {
   }
 
   private visitDict(node: ASTNode): string {
+    // {**other} merges another dictionary
+    if (node.keys.some((key: ASTNode | null) => !key)) {
+      return this.visitUnsupportedExpression(node, 'Dictionary unpacking (**)');
+    }
     const pairs: string[] = [];
     for (let i = 0; i < node.keys.length; i++) {
       const key = this.visitExpression(node.keys[i]);
@@ -313,12 +976,6 @@ export class ExpressionVisitor {
     return `{${pairs.join(', ')}}`;
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private visitListComp(_node: ASTNode): string {
-    // Simplify list comprehensions
-    return '[/* list comprehension */]';
-  }
-
   private visitIfExp(node: ASTNode): string {
     const test = this.visitExpression(node.test);
     const body = this.visitExpression(node.body);
@@ -348,44 +1005,191 @@ export class ExpressionVisitor {
     return parts.join(' & ');
   }
 
-  public convertBuiltinFunction(func: string, args: string[]): string | null {
-    switch (func) {
-      case 'print':
-        return `OUTPUT ${args.join(', ')}`;
-      case 'input':
-        // input() requires special handling on the right side of assignment
-        // Return as is for now, process later in emitter
-        return args.length > 0 ? `input(${args[0]})` : 'input()';
-      case 'len':
-        return `LENGTH(${args[0]})`;
-      case 'str':
-        return `STRING(${args[0]})`;
-      case 'int':
-        return `INTEGER(${args[0]})`;
-      case 'float':
-        return `REAL(${args[0]})`;
-      case 'abs':
-        return `ABS(${args[0]})`;
-      case 'max':
-        return `MAX(${args.join(', ')})`;
-      case 'min':
-        return `MIN(${args.join(', ')})`;
-      case 'round':
-        return `ROUND(${args[0]})`;
-      case 'range':
-        if (args.length === 1) {
-          return `0 TO ${args[0]} - 1`;
-        } else if (args.length === 2) {
-          return `${args[0]} TO ${args[1]} - 1`;
-        } else if (args.length === 3) {
-          return `${args[0]} TO ${args[1]} - 1 STEP ${args[2]}`;
+  /**
+   * Get the qualified name of a module function or constant, such as math.sqrt
+   * for math.sqrt, m.sqrt after import math as m, or sqrt after from math import sqrt
+   */
+  getLibraryName(node: ASTNode): string | null {
+    const imports = this.context?.imports ?? {};
+    if (node.type === 'Name') {
+      return imports[node.id]?.includes('.') ? imports[node.id]! : null;
+    }
+    if (node.type === 'Attribute' && node.value.type === 'Name') {
+      const module =
+        imports[node.value.id] ??
+        (LIBRARY_MODULES.includes(node.value.id) ? node.value.id : undefined);
+      return module ? `${module}.${node.attr}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * Convert math and random calls to the Cambridge library routines (^, DIV, ROUND,
+   * RANDOM); other library calls are kept and reported for manual translation
+   */
+  private convertLibraryCall(node: ASTNode): string | null {
+    const name = this.getLibraryName(node.func);
+    if (!name) {
+      return null;
+    }
+
+    const libraryExpression = this.createLibraryExpression(name, node.args);
+    if (libraryExpression) {
+      return this.visitExpression(libraryExpression);
+    }
+
+    const args: ASTNode[] = node.args;
+    if (`${name}/${args.length}` === 'random.choice/1' && args[0].type === 'Name') {
+      const index = this.createRandomInteger(
+        this.createNumber(1),
+        this.createCall('LENGTH', [args[0]])
+      );
+      return `${args[0].id}[${this.visitExpression(index)}]`;
+    }
+
+    this.context?.callWarnings.push({
+      message: `${name}() has no IGCSE equivalent and needs manual translation`,
+      needsTranslation: true,
+    });
+    return null;
+  }
+
+  /**
+   * The expression a math or random call is written as, so that it is printed with the
+   * parentheses its operators need (math.floor(a) ^ 2 → (a DIV 1) ^ 2)
+   */
+  private createLibraryExpression(name: string, args: ASTNode[]): ASTNode | null {
+    const alevel = this.options.dialect === 'alevel';
+    const binOp = (left: ASTNode, op: string, right: ASTNode): ASTNode => ({
+      type: 'BinOp',
+      left,
+      op: { type: op },
+      right,
+    });
+
+    switch (`${name}/${args.length}`) {
+      case 'math.sqrt/1':
+        return binOp(args[0], 'Pow', this.createNumber(0.5));
+      case 'math.pow/2':
+        return binOp(args[0], 'Pow', args[1]);
+      case 'math.fabs/1':
+        return this.createCall('ABS', args);
+      case 'math.floor/1': {
+        // math.floor(a / b) is a DIV b
+        const [value] = args;
+        return value.type === 'BinOp' && value.op.type === 'Div'
+          ? binOp(value.left, 'FloorDiv', value.right)
+          : binOp(value, 'FloorDiv', this.createNumber(1));
+      }
+      case 'math.ceil/1': {
+        // math.ceil(a / b) is (a + b - 1) DIV b for integers, otherwise -(-x DIV 1)
+        const [value] = args;
+        if (value.type === 'BinOp' && value.op.type === 'Div') {
+          if (value.left.inferredType !== 'INTEGER' || value.right.inferredType !== 'INTEGER') {
+            return null;
+          }
+          const dividend = this.offsetNumber(binOp(value.left, 'Add', value.right), -1);
+          return binOp(dividend, 'FloorDiv', value.right);
         }
-        return null;
+        const negate = (operand: ASTNode): ASTNode => ({
+          type: 'UnaryOp',
+          op: { type: 'USub' },
+          operand,
+        });
+        return negate(binOp(negate(value), 'FloorDiv', this.createNumber(1)));
+      }
+      case 'random.random/0':
+        return this.createCall(alevel ? 'RAND' : 'RANDOM', alevel ? [this.createNumber(1)] : []);
+      case 'random.uniform/2': {
+        const [low, high] = args;
+        const range = this.subtractNumbers(high, low);
+        const scaled = alevel
+          ? this.createCall('RAND', [range])
+          : binOp(this.createCall('RANDOM', []), 'Mult', range);
+        return this.addNumbers(scaled, low);
+      }
+      case 'random.randint/2':
+        return this.createRandomInteger(args[0], args[1]);
+      case 'random.randrange/1':
+        return this.createRandomInteger(this.createNumber(0), this.offsetNumber(args[0], -1));
+      case 'random.randrange/2':
+        return this.createRandomInteger(args[0], this.offsetNumber(args[1], -1));
       default:
         return null;
     }
   }
 
+  /**
+   * Create a random integer from low to high inclusive, each value equally likely:
+   * ROUND(RANDOM() * (high - low + 1) + low - 0.5, 0), or INT(RAND(high - low + 1)) + low in the
+   * A Level dialect
+   */
+  private createRandomInteger(low: ASTNode, high: ASTNode): ASTNode {
+    const count = this.offsetNumber(this.subtractNumbers(high, low), 1);
+    if (this.options.dialect === 'alevel') {
+      return this.addNumbers(this.createCall('INT', [this.createCall('RAND', [count])]), low);
+    }
+    const scaled: ASTNode = {
+      type: 'BinOp',
+      left: this.createCall('RANDOM', []),
+      op: { type: 'Mult' },
+      right: count,
+    };
+    return this.createCall('ROUND', [
+      this.offsetNumber(this.addNumbers(scaled, low), -0.5),
+      this.createNumber(0),
+    ]);
+  }
+
+  private createCall(func: string, args: ASTNode[]): ASTNode {
+    return { type: 'Call', func: { type: 'Name', id: func }, args, keywords: [] };
+  }
+
+  private createNumber(value: number): ASTNode {
+    return { type: 'Constant', value, isFloat: !Number.isInteger(value) };
+  }
+
+  private isNumber(node: ASTNode): boolean {
+    return node.type === 'Constant' && typeof node.value === 'number';
+  }
+
+  /**
+   * Add a constant to an expression, folding numbers (n + 1 - 1 → n)
+   */
+  private offsetNumber(node: ASTNode, amount: number): ASTNode {
+    if (amount === 0) return node;
+    if (this.isNumber(node)) return this.createNumber(node.value + amount);
+    if (
+      node.type === 'BinOp' &&
+      ['Add', 'Sub'].includes(node.op.type) &&
+      this.isNumber(node.right)
+    ) {
+      const sign = node.op.type === 'Add' ? 1 : -1;
+      return this.offsetNumber(node.left, sign * node.right.value + amount);
+    }
+    return {
+      type: 'BinOp',
+      left: node,
+      op: { type: amount > 0 ? 'Add' : 'Sub' },
+      right: this.createNumber(Math.abs(amount)),
+    };
+  }
+
+  private addNumbers(left: ASTNode, right: ASTNode): ASTNode {
+    if (this.isNumber(right)) return this.offsetNumber(left, right.value);
+    return { type: 'BinOp', left, op: { type: 'Add' }, right };
+  }
+
+  private subtractNumbers(left: ASTNode, right: ASTNode): ASTNode {
+    if (this.isNumber(right)) return this.offsetNumber(left, -right.value);
+    return { type: 'BinOp', left, op: { type: 'Sub' }, right };
+  }
+
+  public convertBuiltinFunction(func: string, args: string[]): string | null {
+    const mapping = this.callRegistry.find(func, args.length);
+    return mapping ? this.callRegistry.apply(mapping, args) : null;
+  }
+
   private convertOperator(op: ASTNode): string {
     switch (op.type) {
       case 'Add':
@@ -430,7 +1234,7 @@ export class ExpressionVisitor {
     }
   }
 
-  private convertCompareOperator(op: ASTNode): string {
+  convertCompareOperator(op: ASTNode): string {
     switch (op.type) {
       case 'Eq':
         return '=';
@@ -458,108 +1262,30 @@ export class ExpressionVisitor {
   }
 
   /**
-   * Infer type from value
+   * Infer type from value, through the type inference shared by the visitors
    */
   inferTypeFromValue(node: ASTNode): IGCSEDataType {
-    if (!node) return 'STRING';
-
-    switch (node.type) {
-      case 'Constant':
-        if (typeof node.value === 'number') {
-          return Number.isInteger(node.value) ? 'INTEGER' : 'REAL';
-        }
-        if (typeof node.value === 'string') return 'STRING';
-        if (typeof node.value === 'boolean') return 'BOOLEAN';
-        break;
-      case 'Num':
-        return Number.isInteger(node.n) ? 'INTEGER' : 'REAL';
-      case 'Str':
-        return 'STRING';
-      case 'NameConstant':
-        if (node.value === true || node.value === false) return 'BOOLEAN';
-        break;
-      case 'List':
-      case 'Tuple':
-        return 'ARRAY';
-      case 'Name':
-        // Type inference for names (variables or numeric literals)
-        if (node.id && /^\d+$/.test(node.id)) {
-          // Integer literal
-          return 'INTEGER';
-        }
-        if (node.id && /^\d+\.\d+$/.test(node.id)) {
-          // Floating point literal
-          return 'REAL';
-        }
-        if (node.id === 'True' || node.id === 'False') {
-          return 'BOOLEAN';
-        }
-        // Other variable names are STRING (when type information is unavailable)
-        return 'STRING';
-      case 'BinOp': {
-        // Type inference for binary operations
-        const leftType = this.inferTypeFromValue(node.left);
-        const rightType = this.inferTypeFromValue(node.right);
-
-        // For arithmetic operators
-        if (['Add', 'Sub', 'Mult', 'Div', 'Mod', 'Pow'].includes(node.op.type)) {
-          // String concatenation (+operator) - only for explicit string types
-          if (
-            node.op.type === 'Add' &&
-            ((leftType === 'STRING' && this.isExplicitStringType(node.left)) ||
-              (rightType === 'STRING' && this.isExplicitStringType(node.right)))
-          ) {
-            return 'STRING';
-          }
-
-          // Treat as numeric operation if numeric types are involved
-          if (
-            leftType === 'INTEGER' ||
-            leftType === 'REAL' ||
-            rightType === 'INTEGER' ||
-            rightType === 'REAL'
-          ) {
-            // Division results in REAL
-            if (node.op.type === 'Div') {
-              return 'REAL';
-            }
-            // INTEGER if both are INTEGER or type unknown (variables)
-            if (
-              (leftType === 'INTEGER' || leftType === 'STRING') &&
-              (rightType === 'INTEGER' || rightType === 'STRING')
-            ) {
-              return 'INTEGER';
-            } else {
-              return 'REAL';
-            }
-          }
-
-          // Default arithmetic operations inferred as INTEGER (for unknown variable types)
-          return 'INTEGER';
-        }
-
-        // For comparison operators
-        if (['Eq', 'NotEq', 'Lt', 'LtE', 'Gt', 'GtE'].includes(node.op.type)) {
-          return 'BOOLEAN';
-        }
-
-        // For logical operators
-        if (['And', 'Or'].includes(node.op.type)) {
-          return 'BOOLEAN';
-        }
+    return this.getTypeInference().getValueType(node);
+  }
 
-        // Default is STRING
-        return 'STRING';
-      }
-    }
+  /**
+   * Convert a type annotation to an IGCSE type, through the type inference shared by the visitors
+   */
+  inferTypeFromAnnotation(annotation: ASTNode): IGCSEDataType {
+    return this.getTypeInference().getAnnotationType(annotation);
+  }
 
-    return 'STRING';
+  private getTypeInference(): TypeInference {
+    return this.context?.typeInference ?? new TypeInference();
   }
 
   /**
    * Check if it's a numeric constant
    */
   isNumericConstant(node: ASTNode): boolean {
+    if (node.type === 'UnaryOp' && (node.op.type === 'USub' || node.op.type === 'UAdd')) {
+      return this.isNumericConstant(node.operand);
+    }
     return (node.type === 'Constant' && typeof node.value === 'number') || node.type === 'Num';
   }
 
@@ -573,6 +1299,10 @@ export class ExpressionVisitor {
     if (node.type === 'Num') {
       return node.n;
     }
+    if (node.type === 'UnaryOp') {
+      const value = this.getNumericValue(node.operand);
+      return node.op.type === 'USub' ? -value : value;
+    }
     return 0;
   }
 
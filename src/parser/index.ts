@@ -2,6 +2,9 @@
 
 export { BaseParser } from './base-parser';
 export { PythonASTVisitor } from './visitor';
+export { ASTParser } from './ast-parser';
+export { Tokenizer, PythonSyntaxError } from './tokenizer';
+export { CallRegistry, DEFAULT_CALL_MAPPINGS } from './call-registry';
 
 // Main parser classes
 export { PythonParser } from './python-parser';
@@ -0,0 +1,512 @@
+// Structured rewrites of break and continue
+
+/**
+ * Basic interface for Python AST nodes
+ */
+interface ASTNode {
+  type: string;
+  lineno?: number;
+  col_offset?: number;
+  [key: string]: any;
+}
+
+/**
+ * Note about one rewrite, reported to the user
+ */
+export interface LoopRewriteNote {
+  message: string;
+  line?: number | undefined;
+}
+
+/**
+ * Statements replacing a loop
+ */
+export interface LoopRewrite {
+  statements: ASTNode[];
+  notes: LoopRewriteNote[];
+}
+
+/**
+ * The only way out of a `while True` loop: `if test: ...; break` directly in its body
+ */
+export interface LoopExit {
+  /** Position of the IF in the loop body */
+  index: number;
+  test: ASTNode;
+  /** Statements run before the break, after the loop has finished */
+  after: ASTNode[];
+}
+
+/**
+ * Built-in functions without side effects, allowed in a condition that is tested twice
+ */
+const PURE_FUNCTIONS = ['len', 'abs', 'int', 'float', 'str', 'min', 'max', 'round', 'ord', 'chr'];
+
+/**
+ * Statements that start a new loop or scope, whose jumps belong to themselves
+ */
+const OWN_JUMP_SCOPES = ['For', 'While', 'FunctionDef', 'ClassDef'];
+
+/**
+ * Rewrites loops so that they need neither BREAK nor CONTINUE
+ *
+ * `continue` becomes an IF around the rest of the loop body (or a skip flag when the
+ * jump is too deeply nested), and `break` becomes a flag tested in the loop condition.
+ * FOR loops that stop early are turned into WHILE loops.
+ */
+export class LoopRewriter {
+  /**
+   * @param identifiers Names used in the program; generated names are added to it
+   */
+  constructor(private identifiers: Set<string>) {}
+
+  /**
+   * Rewrite a For or While loop, or return null when it has nothing to rewrite
+   */
+  rewrite(loop: ASTNode): LoopRewrite | null {
+    if (loop.orelse && loop.orelse.length > 0) {
+      return null;
+    }
+
+    const notes: LoopRewriteNote[] = [];
+    let body: ASTNode[] = loop.body;
+    let changed = false;
+
+    if (this.containsJump(body, 'Continue')) {
+      const structured = this.structureContinues(body);
+      if (structured) {
+        this.findJumps(body, 'Continue').forEach((jump) =>
+          notes.push({
+            message: `'continue' on line ${jump.lineno} was replaced by an IF around the rest of the loop body`,
+            line: jump.lineno,
+          })
+        );
+        body = structured;
+      } else {
+        const skip = this.createName('skip');
+        this.findJumps(body, 'Continue').forEach((jump) =>
+          notes.push({
+            message: `'continue' on line ${jump.lineno} was replaced by setting the flag '${skip}'`,
+            line: jump.lineno,
+          })
+        );
+        body = [
+          this.assign(skip, this.constant(false), loop),
+          ...this.replaceJumps(body, 'Continue', skip),
+        ];
+      }
+      changed = true;
+    }
+
+    const breakLoop = this.containsJump(body, 'Break')
+      ? this.rewriteBreaks({ ...loop, body }, notes)
+      : null;
+    if (breakLoop) {
+      return { statements: breakLoop, notes };
+    }
+
+    return changed ? { statements: [{ ...loop, body }], notes } : null;
+  }
+
+  /**
+   * Find the single conditional break of a loop
+   * Returns null when the loop has several exits, a continue or a break nested deeper
+   */
+  findExit(loop: ASTNode): LoopExit | null {
+    const body: ASTNode[] = loop.body;
+    if (
+      (loop.orelse && loop.orelse.length > 0) ||
+      this.containsJump(body, 'Continue') ||
+      this.findJumps(body, 'Break').length !== 1
+    ) {
+      return null;
+    }
+
+    const index = body.findIndex(
+      (statement) =>
+        statement.type === 'If' &&
+        (!statement.orelse || statement.orelse.length === 0) &&
+        statement.body[statement.body.length - 1].type === 'Break'
+    );
+    if (index === -1) {
+      return null;
+    }
+    return { index, test: body[index].test, after: body[index].body.slice(0, -1) };
+  }
+
+  /**
+   * Check whether a condition can be tested again after some statements
+   * with the same result: it has no side effects and they do not change it
+   */
+  canRepeatTest(test: ASTNode, statements: ASTNode[]): boolean {
+    const names = new Set<string>();
+    let pure = true;
+    this.walk(test, (node) => {
+      if (node.type === 'Name') names.add(node.id);
+      if (
+        node.type === 'NamedExpr' ||
+        (node.type === 'Call' &&
+          !(node.func.type === 'Name' && PURE_FUNCTIONS.includes(node.func.id)))
+      ) {
+        pure = false;
+      }
+    });
+    if (!pure) return false;
+
+    // Names assigned, or changed through methods and elements
+    const getRoot = (node: ASTNode): ASTNode => {
+      let current = node;
+      while (['Subscript', 'Attribute'].includes(current.type)) current = current.value;
+      return current;
+    };
+    let changed = false;
+    this.walk(statements, (node) => {
+      const targets: ASTNode[] =
+        node.type === 'Assign'
+          ? node.targets
+          : ['AugAssign', 'AnnAssign', 'For'].includes(node.type)
+            ? [node.target]
+            : node.type === 'Call' && node.func.type === 'Attribute'
+              ? [node.func.value]
+              : node.type === 'Global'
+                ? node.names.map((name: string) => ({ type: 'Name', id: name }))
+                : [];
+      this.walk(targets, (target) => {
+        const root = getRoot(target);
+        if (root.type === 'Name' && names.has(root.id)) changed = true;
+      });
+    });
+    return !changed;
+  }
+
+  /**
+   * Negate a condition, inverting a single comparison where possible
+   */
+  negate(test: ASTNode): ASTNode {
+    const inverse: { [op: string]: string } = {
+      Eq: 'NotEq',
+      NotEq: 'Eq',
+      Lt: 'GtE',
+      GtE: 'Lt',
+      Gt: 'LtE',
+      LtE: 'Gt',
+    };
+    if (test.type === 'UnaryOp' && test.op.type === 'Not') {
+      return test.operand;
+    }
+    if (test.type === 'Compare' && test.ops.length === 1 && inverse[test.ops[0].type]) {
+      return { ...test, ops: [{ type: inverse[test.ops[0].type] }] };
+    }
+    return this.not(
+      ['BoolOp', 'Compare'].includes(test.type) ? { ...test, parenthesized: true } : test,
+      test
+    );
+  }
+
+  /**
+   * Replace break with a flag tested in the loop condition
+   */
+  private rewriteBreaks(loop: ASTNode, notes: LoopRewriteNote[]): ASTNode[] | null {
+    let before: ASTNode[];
+    let test: ASTNode;
+    let body: ASTNode[];
+
+    if (loop.type === 'While') {
+      before = [];
+      test = loop.test;
+      body = loop.body;
+    } else {
+      const whileLoop = this.createWhileFromFor(loop);
+      if (!whileLoop) return null;
+      ({ before, test, body } = whileLoop);
+      notes.push({
+        message: `FOR loop on line ${loop.lineno} was rewritten as a WHILE loop so that it can stop early`,
+        line: loop.lineno,
+      });
+    }
+
+    const done = this.createName('done');
+    this.findJumps(loop.body, 'Break').forEach((jump) =>
+      notes.push({
+        message: `'break' on line ${jump.lineno} was replaced by setting the flag '${done}'`,
+        line: jump.lineno,
+      })
+    );
+
+    const notDone = this.not(this.name(done, loop), loop);
+    const isTrue = test.type === 'Constant' && test.value === true;
+    return [
+      ...before,
+      this.assign(done, this.constant(false), loop),
+      {
+        ...loop,
+        type: 'While',
+        test: isTrue
+          ? notDone
+          : this.node('BoolOp', loop, {
+              op: { type: 'And' },
+              values: [test.type === 'BoolOp' ? { ...test, parenthesized: true } : test, notDone],
+            }),
+        body: this.replaceJumps(body, 'Break', done),
+        orelse: [],
+      },
+    ];
+  }
+
+  /**
+   * Turn `for x in range(...)` and `for item in items` into the parts of a WHILE loop
+   */
+  private createWhileFromFor(
+    loop: ASTNode
+  ): { before: ASTNode[]; test: ASTNode; body: ASTNode[] } | null {
+    const { iter, target } = loop;
+    if (target.type !== 'Name') {
+      return null;
+    }
+
+    if (iter.type === 'Call' && iter.func.type === 'Name' && iter.func.id === 'range') {
+      const args: ASTNode[] = iter.args;
+      const start = args.length > 1 ? args[0] : this.constant(0);
+      const stop = args.length > 1 ? args[1] : args[0];
+      const step = args[2] || this.constant(1);
+      const stepValue = this.getIntegerValue(step);
+      if (!stop || stepValue === null || stepValue === 0) {
+        return null;
+      }
+
+      return {
+        before: [this.assign(target.id, start, loop)],
+        test: this.compare(this.name(target.id, loop), stepValue > 0 ? 'Lt' : 'Gt', stop, loop),
+        body: [...loop.body, this.increment(target.id, stepValue, loop)],
+      };
+    }
+
+    if (iter.type === 'Name' || iter.inferredType === 'STRING') {
+      const index = this.createName('i');
+      const length = this.node('Call', loop, {
+        func: this.name('len', loop),
+        args: [iter],
+        keywords: [],
+      });
+      const element = this.node('Subscript', loop, { value: iter, slice: this.name(index, loop) });
+
+      return {
+        before: [this.assign(index, this.constant(0), loop)],
+        test: this.compare(this.name(index, loop), 'Lt', length, loop),
+        body: [this.assign(target.id, element, loop), ...loop.body, this.increment(index, 1, loop)],
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Remove continue by moving the rest of the body into the other branch of its IF
+   * Returns null when a continue is not directly inside IF statements
+   */
+  private structureContinues(statements: ASTNode[]): ASTNode[] | null {
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      if (statement.type === 'Continue') {
+        return statements.slice(0, index);
+      }
+      if (!this.containsJump([statement], 'Continue')) {
+        continue;
+      }
+      if (statement.type !== 'If') {
+        return null;
+      }
+
+      const orelse: ASTNode[] = statement.orelse || [];
+      const rest = this.structureContinues(statements.slice(index + 1));
+      const body = this.structureContinues(statement.body);
+      const elseBody = this.structureContinues(orelse);
+      if (!rest || !body || !elseBody) {
+        return null;
+      }
+
+      const bodyContinues = this.alwaysContinues(statement.body);
+      const elseContinues = this.alwaysContinues(orelse);
+      let result: ASTNode;
+      if (bodyContinues && elseContinues) {
+        result = { ...statement, body, orelse: elseBody };
+      } else if (bodyContinues && !this.containsJump(orelse, 'Continue')) {
+        result = { ...statement, body, orelse: [...elseBody, ...rest] };
+      } else if (elseContinues && !this.containsJump(statement.body, 'Continue')) {
+        result = { ...statement, body: [...body, ...rest], orelse: elseBody };
+      } else {
+        return null;
+      }
+
+      // IF c THEN (nothing) ELSE ... → IF NOT c THEN ...
+      if (result.body.length === 0) {
+        if (result.orelse.length === 0) {
+          return statements.slice(0, index);
+        }
+        result = { ...result, test: this.negate(result.test), body: result.orelse, orelse: [] };
+      }
+      return [...statements.slice(0, index), result];
+    }
+    return statements;
+  }
+
+  /**
+   * Check whether every path through the statements reaches a continue
+   */
+  private alwaysContinues(statements: ASTNode[]): boolean {
+    return statements.some(
+      (statement) =>
+        statement.type === 'Continue' ||
+        (statement.type === 'If' &&
+          statement.orelse?.length > 0 &&
+          this.alwaysContinues(statement.body) &&
+          this.alwaysContinues(statement.orelse))
+    );
+  }
+
+  /**
+   * Replace a jump with `flag = True`, running the statements after it only while the flag is unset
+   */
+  private replaceJumps(statements: ASTNode[], jump: string, flag: string): ASTNode[] {
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      if (statement.type === jump) {
+        return [...statements.slice(0, index), this.assign(flag, this.constant(true), statement)];
+      }
+      if (!this.containsJump([statement], jump)) {
+        continue;
+      }
+
+      const rewritten = this.mapBlocks(statement, (block) => this.replaceJumps(block, jump, flag));
+      const rest = this.replaceJumps(statements.slice(index + 1), jump, flag);
+      const guard =
+        rest.length > 0
+          ? [
+              this.node('If', rest[0], {
+                test: this.not(this.name(flag, statement), statement),
+                body: rest,
+                orelse: [],
+              }),
+            ]
+          : [];
+      return [...statements.slice(0, index), rewritten, ...guard];
+    }
+    return statements;
+  }
+
+  /**
+   * Copy a statement with each of its nested blocks transformed
+   */
+  private mapBlocks(statement: ASTNode, transform: (block: ASTNode[]) => ASTNode[]): ASTNode {
+    const result: ASTNode = { ...statement };
+    for (const key of ['body', 'orelse', 'finalbody']) {
+      if (Array.isArray(statement[key])) {
+        result[key] = transform(statement[key]);
+      }
+    }
+    for (const key of ['handlers', 'cases']) {
+      if (Array.isArray(statement[key])) {
+        result[key] = statement[key].map((clause: ASTNode) =>
+          Array.isArray(clause.body) ? { ...clause, body: transform(clause.body) } : clause
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find the jumps belonging to the current loop (not to loops nested in it)
+   */
+  private findJumps(statements: ASTNode[], jump: string): ASTNode[] {
+    const jumps: ASTNode[] = [];
+    for (const statement of statements) {
+      if (statement.type === jump) {
+        jumps.push(statement);
+      } else if (!OWN_JUMP_SCOPES.includes(statement.type)) {
+        this.mapBlocks(statement, (block) => {
+          jumps.push(...this.findJumps(block, jump));
+          return block;
+        });
+      }
+    }
+    return jumps;
+  }
+
+  private containsJump(statements: ASTNode[], jump: string): boolean {
+    return this.findJumps(statements, jump).length > 0;
+  }
+
+  /**
+   * Pick a name not used anywhere in the program
+   */
+  private createName(base: string): string {
+    let name = base;
+    for (let suffix = 2; this.identifiers.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    this.identifiers.add(name);
+    return name;
+  }
+
+  private getIntegerValue(node: ASTNode): number | null {
+    if (node.type === 'Constant' && Number.isInteger(node.value)) {
+      return node.value;
+    }
+    if (node.type === 'UnaryOp' && node.op.type === 'USub') {
+      const value = this.getIntegerValue(node.operand);
+      return value === null ? null : -value;
+    }
+    return null;
+  }
+
+  /**
+   * Call a function for every AST node under some nodes
+   */
+  private walk(nodes: unknown, callback: (node: ASTNode) => void): void {
+    if (Array.isArray(nodes)) {
+      nodes.forEach((node) => this.walk(node, callback));
+      return;
+    }
+    const node = nodes as ASTNode;
+    if (!node || typeof node !== 'object') return;
+    if (typeof node.type === 'string') callback(node);
+    Object.values(node).forEach((value) => {
+      if (value && typeof value === 'object') this.walk(value, callback);
+    });
+  }
+
+  private node(type: string, position: ASTNode, fields: { [key: string]: unknown }): ASTNode {
+    const node: ASTNode = { type, ...fields };
+    if (position.lineno !== undefined) node.lineno = position.lineno;
+    if (position.col_offset !== undefined) node.col_offset = position.col_offset;
+    return node;
+  }
+
+  private name(id: string, position: ASTNode): ASTNode {
+    return this.node('Name', position, { id });
+  }
+
+  private constant(value: boolean | number): ASTNode {
+    return { type: 'Constant', value };
+  }
+
+  private not(operand: ASTNode, position: ASTNode): ASTNode {
+    return this.node('UnaryOp', position, { op: { type: 'Not' }, operand });
+  }
+
+  private compare(left: ASTNode, op: string, right: ASTNode, position: ASTNode): ASTNode {
+    return this.node('Compare', position, { left, ops: [{ type: op }], comparators: [right] });
+  }
+
+  private assign(target: string, value: ASTNode, position: ASTNode): ASTNode {
+    return this.node('Assign', position, { targets: [this.name(target, position)], value });
+  }
+
+  private increment(target: string, step: number, position: ASTNode): ASTNode {
+    return this.node('AugAssign', position, {
+      target: this.name(target, position),
+      op: { type: step > 0 ? 'Add' : 'Sub' },
+      value: this.constant(Math.abs(step)),
+    });
+  }
+}
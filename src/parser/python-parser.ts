@@ -38,7 +38,7 @@ export class PythonParser extends BaseParser {
     const processedSource = this.preprocessSource(source);
 
     // Convert AST to IR using PythonASTVisitor
-    const visitor = new PythonASTVisitor();
+    const visitor = new PythonASTVisitor(this.options);
     const visitorResult = visitor.parse(processedSource);
 
     const parseTime = Date.now() - this.context.startTime;
@@ -144,8 +144,7 @@ export class PythonParser extends BaseParser {
       .map((line) => line.trimEnd())
       .join('\n');
 
-    // Merge consecutive empty lines into one
-    processed = processed.replace(/\n\s*\n\s*\n/g, '\n\n');
+    // Empty lines are kept so that error line numbers match the original source
 
     this.debug(`Preprocessed ${source.split('\n').length} lines`);
 
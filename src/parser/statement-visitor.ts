@@ -1,8 +1,9 @@
 import { IR, IRKind, createIR, IRMeta } from '../types/ir';
 import { ExpressionVisitor } from './expression-visitor';
+import { LoopRewriter } from './loop-rewriter';
 import { BaseParser } from './base-parser';
-import { ParseResult } from '../types/parser';
-import { IGCSEDataType } from '../types/igcse';
+import { ParseResult, ParserOptions, ScopeInfo } from '../types/parser';
+import { DEFAULT_DATA_TYPE, IGCSEDataType } from '../types/igcse';
 
 /**
  * Basic interface for Python AST nodes
@@ -14,6 +15,20 @@ interface ASTNode {
   [key: string]: any;
 }
 
+/**
+ * IGCSE file modes for Python open() modes
+ */
+const FILE_MODES: { [mode: string]: string } = {
+  r: 'READ',
+  w: 'WRITE',
+  a: 'APPEND',
+};
+
+/**
+ * AST fields that record where a node is, not what it is
+ */
+const POSITION_KEYS = ['lineno', 'col_offset', 'end_lineno', 'end_col_offset', 'parenthesized'];
+
 /**
  * Visitor class responsible for processing statements
  */
@@ -26,10 +41,13 @@ export class StatementVisitor extends BaseParser {
   }
   private expressionVisitor: ExpressionVisitor;
   public visitNode: ((node: ASTNode) => IR) | undefined;
+  /** Index variables of the for-each loops being converted */
+  private activeCounters: string[] = [];
+  private temporaries = new Map<ScopeInfo, Map<IGCSEDataType, string>>();
 
-  constructor() {
-    super();
-    this.expressionVisitor = new ExpressionVisitor();
+  constructor(options: ParserOptions = {}) {
+    super(options);
+    this.expressionVisitor = new ExpressionVisitor(options);
   }
 
   /**
@@ -37,17 +55,76 @@ export class StatementVisitor extends BaseParser {
    */
   setContext(context: any): void {
     this.context = context;
+    this.expressionVisitor.setContext(context);
   }
 
   /**
    * Process assignment statements
    */
   visitAssign(node: ASTNode): IR {
+    if (this.isConstantDefinition(node.targets[0], node)) {
+      return this.createConstant(node.targets[0].id, node.value);
+    }
+
+    // x = y = 0 assigns each target in turn
+    if (node.targets.length > 1) {
+      return this.createChainedAssign(node);
+    }
+
+    // a, b = b, a and q, r = divmod(n, d) become one assignment per name
+    if (node.targets[0].type === 'Tuple' || node.targets[0].type === 'List') {
+      const unpacking = this.createUnpackingAssign(node);
+      if (unpacking) {
+        return unpacking;
+      }
+    }
+
+    // Lists changed by list operations become static arrays with a length counter, and
+    // item = items.pop() takes the last element off
+    const staticArray = this.createStaticArray(node, node.targets[0], node.value);
+    if (staticArray) {
+      return staticArray;
+    }
+    if (node.targets[0].type === 'Name') {
+      const listOperation = this.createListOperation(node.value, node.targets[0].id);
+      if (listOperation) {
+        return listOperation;
+      }
+    }
+
     // Detect array initialization first
     if (this.expressionVisitor.isArrayInitialization(node.value)) {
       return this.handleArrayInitialization(node);
     }
 
+    // File handling: f = open(...), line = f.readline()
+    if (node.targets[0].type === 'Name') {
+      if (this.isOpenCall(node.value)) {
+        return this.createOpenFile(node.value, node.targets[0].id);
+      }
+      const readFile = this.createReadFile(node.value, node.targets[0].id);
+      if (readFile) {
+        return readFile;
+      }
+    }
+
+    // [0] * 5 and [[0] * 5 for _ in range(3)] are filled by FOR loops
+    if (node.targets[0].type === 'Name') {
+      const filledArray = this.createFilledArray(node.targets[0].id, node.value);
+      if (filledArray) {
+        return filledArray;
+      }
+    }
+
+    // List comprehensions are expanded into loops that fill an array
+    if (node.value.type === 'ListComp' && node.targets[0].type === 'Name') {
+      return this.handleListComprehension(node);
+    }
+
+    if (node.value.type === 'SetComp' || node.value.type === 'DictComp') {
+      return this.createUnsupportedComprehension(node.value);
+    }
+
     // Handle input() function assignments specially (including nested function calls)
     if (this.containsInputCall(node.value)) {
       return this.handleInputAssignment(node);
@@ -57,7 +134,8 @@ export class StatementVisitor extends BaseParser {
     if (node.value.type === 'Call') {
       if (node.value.func.type === 'Name') {
         const funcName = node.value.func.id;
-        const isClass = this.context.isClass(funcName);
+        const isClass =
+          this.context.isClass(funcName) && !this.context.classDefinitions?.[funcName]?.enumMembers;
         if (isClass) {
           return this.handleClassInstantiation(node);
         }
@@ -95,20 +173,648 @@ export class StatementVisitor extends BaseParser {
     const target = this.expressionVisitor.visitExpression(targetNode);
     const value = this.expressionVisitor.visitExpression(node.value);
 
-    let text = `${target} ← ${value}`;
-
-    // Add inline comment if present
-    if (node.inlineComment) {
-      text += ` // ${node.inlineComment}`;
-    }
+    const text = `${target} ← ${value}`;
 
     // Infer and register variable type
     const dataType = this.expressionVisitor.inferTypeFromValue(node.value);
     if (targetNode.type === 'Name') {
       this.registerVariable(targetNode.id, dataType, node.lineno);
+      if (node.value.type === 'Dict') {
+        this.context.dictionaries.add(targetNode.id);
+      }
+      // copy = numbers names the same array
+      const source = node.value.type === 'Name' ? this.context.arrayInfo[node.value.id] : undefined;
+      if (source && !this.context.arrayInfo[targetNode.id]) {
+        this.context.arrayInfo[targetNode.id] = { ...source };
+      }
     }
 
-    return this.createIRNode('assign', text);
+    return this.createIRNode('assign', text, [], { dataType });
+  }
+
+  /**
+   * Expand x = y = value; later targets copy the first unless the value is a plain
+   * literal or name, so calls such as input() still run once
+   */
+  private createChainedAssign(node: ASTNode): IR {
+    const [first] = node.targets;
+    const copyFirst =
+      !['Constant', 'Name', 'List', 'Tuple', 'UnaryOp'].includes(node.value.type) &&
+      first.type !== 'Tuple' &&
+      first.type !== 'List';
+    const statements = node.targets.map((target: ASTNode, index: number) =>
+      this.visitAssign({
+        ...node,
+        targets: [target],
+        value: index > 0 && copyFirst ? first : node.value,
+      })
+    );
+    return this.createIRNode('statement', '', statements);
+  }
+
+  /**
+   * Expand tuple unpacking into sequential assignments
+   */
+  private createUnpackingAssign(node: ASTNode): IR | null {
+    const targets: ASTNode[] = node.targets[0].elts;
+    const value = node.value;
+
+    // p, (s, t) = 1, (2, 3) assigns p, s and t
+    const pairs = this.flattenUnpacking(node.targets[0], value);
+    if (pairs) {
+      return this.createParallelAssign(
+        pairs.map(([target]) => target),
+        pairs.map(([, element]) => element),
+        node
+      );
+    }
+    if (targets.some((target) => target.type === 'Tuple' || target.type === 'List')) {
+      this.context.callWarnings.push({
+        message: `Nested unpacking on line ${node.lineno} has no IGCSE equivalent`,
+        needsTranslation: true,
+      });
+      return this.createIRNode('statement', this.expressionVisitor.getSourceText(node));
+    }
+    if (targets.some((target) => target.type === 'Starred')) {
+      return null;
+    }
+    if (value.type === 'Tuple' || value.type === 'List') {
+      return null;
+    }
+
+    if (value.type === 'Call' && value.func.type === 'Name') {
+      // q, r = divmod(n, d)
+      if (value.func.id === 'divmod' && value.args.length === 2 && targets.length === 2) {
+        const [dividend, divisor] = value.args;
+        const values = ['FloorDiv', 'Mod'].map((op) => ({
+          type: 'BinOp',
+          left: dividend,
+          op: { type: op },
+          right: divisor,
+          inferredType: 'INTEGER',
+        }));
+        return this.createParallelAssign(targets, values, node);
+      }
+
+      // lo, hi = min_max(values) calls the procedure with BYREF outputs
+      const outputs = this.context.tupleFunctions[value.func.id];
+      if (outputs && outputs.length === targets.length) {
+        targets.forEach((target, index) => {
+          if (target.type === 'Name') {
+            this.registerVariable(target.id, outputs[index].type, node.lineno);
+          }
+        });
+        return this.visitCall({ ...value, args: [...value.args, ...targets] });
+      }
+    }
+
+    // Other tuples are unpacked element by element, through a temporary array for calls
+    const statements: IR[] = [];
+    let source = value;
+    const elementType =
+      value.type === 'Name' ? this.context.arrayInfo[value.id]?.elementType : undefined;
+    if (value.type !== 'Name') {
+      const temporary = this.getTemporary('ARRAY');
+      statements.push(
+        this.createIRNode(
+          'statement',
+          `DECLARE ${temporary.name} : ARRAY[1:${targets.length}] OF INTEGER`
+        ),
+        this.createIRNode(
+          'assign',
+          `${temporary.name} ← ${this.expressionVisitor.visitExpression(value)}`
+        )
+      );
+      source = { type: 'Name', id: temporary.name };
+    }
+    const elements = targets.map((_, index) => ({
+      type: 'Subscript',
+      value: source,
+      slice: { type: 'Constant', value: index },
+      inferredType: elementType,
+    }));
+    statements.push(this.createParallelAssign(targets, elements, node));
+    return this.createIRNode('statement', '', statements);
+  }
+
+  /**
+   * Pair each name of a tuple target with its element of a tuple value, descending into
+   * nested tuples on both sides; null when the shapes differ or either side is starred
+   */
+  private flattenUnpacking(target: ASTNode, value: ASTNode): Array<[ASTNode, ASTNode]> | null {
+    if (target.type !== 'Tuple' && target.type !== 'List') {
+      return target.type === 'Starred' ? null : [[target, value]];
+    }
+    if (
+      (value.type !== 'Tuple' && value.type !== 'List') ||
+      value.elts.length !== target.elts.length ||
+      value.elts.some((elt: ASTNode) => elt.type === 'Starred')
+    ) {
+      return null;
+    }
+    const pairs: Array<[ASTNode, ASTNode]> = [];
+    for (let index = 0; index < target.elts.length; index++) {
+      const nested = this.flattenUnpacking(target.elts[index], value.elts[index]);
+      if (!nested) {
+        return null;
+      }
+      pairs.push(...nested);
+    }
+    return pairs;
+  }
+
+  /**
+   * Assign values to targets as if all values were computed first; a target read by a
+   * later value is saved in a temporary before it is overwritten (Temp ← a, a ← b, b ← Temp)
+   */
+  private createParallelAssign(targets: ASTNode[], values: ASTNode[], node: ASTNode): IR {
+    const statements: IR[] = [];
+    const pending = [...values];
+
+    targets.forEach((target, index) => {
+      const later = pending.slice(index + 1);
+      const read = later
+        .map((value) => this.findExpression(value, target))
+        .find((found) => found !== null);
+      if (read) {
+        // Targets are not typed by inference, but the same expression read as a value is
+        const type = target.inferredType ?? this.expressionVisitor.inferTypeFromValue(read);
+        const temporary = this.getTemporary(type, node.lineno);
+        if (temporary.declaration) {
+          statements.push(temporary.declaration);
+        }
+        const source = this.expressionVisitor.visitExpression(target);
+        statements.push(this.createIRNode('assign', `${temporary.name} ← ${source}`));
+        for (let i = index + 1; i < pending.length; i++) {
+          pending[i] = this.replaceExpression(pending[i], target, {
+            type: 'Name',
+            id: temporary.name,
+            inferredType: type,
+          });
+        }
+      }
+
+      statements.push(this.visitAssign({ ...node, targets: [target], value: pending[index] }));
+    });
+
+    return this.createIRNode('statement', '', statements);
+  }
+
+  /**
+   * Hoist conditional expressions out of a statement, as IGCSE has none:
+   * `x = a if c else b` becomes an IF assigning x in each branch (nested conditional
+   * expressions become ELSE IF), and a conditional expression inside a larger
+   * expression is first assigned to a temporary used in its place, as is the middle
+   * operand of a chained comparison; a WHILE condition assigns the temporary again at the
+   * end of the loop body
+   */
+  visitConditionalExpressions(node: ASTNode): IR | null {
+    const comprehension = this.findNestedComprehension(node);
+    if (comprehension && this.visitNode) {
+      return this.hoistComprehension(node, comprehension);
+    }
+    const record = this.findNestedRecord(node);
+    if (record && this.visitNode) {
+      return this.hoistRecord(node, record);
+    }
+    const fileRead = this.findNestedFileRead(node);
+    if (fileRead && this.visitNode) {
+      return this.hoistFileRead(node, fileRead);
+    }
+    const operand = this.findChainedOperand(node);
+    if (operand && this.visitNode) {
+      return this.hoistExpression(
+        node,
+        operand,
+        operand.inferredType ?? this.expressionVisitor.inferTypeFromValue(operand)
+      );
+    }
+
+    const expression = this.findConditionalExpression(node);
+    if (!expression || !this.visitNode) {
+      return null;
+    }
+
+    if (node.value === expression) {
+      return this.visitNode(this.createConditionalStatement(node, expression));
+    }
+
+    return this.hoistExpression(
+      node,
+      expression,
+      expression.inferredType ?? this.expressionVisitor.inferTypeFromValue(expression.body)
+    );
+  }
+
+  /**
+   * Assign an expression to a temporary used in its place by the statement; a WHILE
+   * condition assigns the temporary again at the end of the loop body
+   */
+  private hoistExpression(node: ASTNode, expression: ASTNode, type: IGCSEDataType): IR {
+    const visitNode = this.visitNode as (node: ASTNode) => IR;
+    const temporary = this.getTemporary(type, node.lineno, node);
+    const name: ASTNode = { type: 'Name', id: temporary.name, inferredType: type };
+    const assignment: ASTNode = {
+      type: 'Assign',
+      lineno: node.lineno || 0,
+      col_offset: node.col_offset || 0,
+      targets: [{ ...name, ctx: 'Store' }],
+      value: expression,
+    };
+    const statement = this.replaceEvaluatedExpression(node, expression, name);
+    if (node.type === 'While') {
+      statement.body = [...statement.body, assignment];
+    }
+    const statements: IR[] = temporary.declaration ? [temporary.declaration] : [];
+    statements.push(visitNode(assignment), visitNode(statement));
+    return this.createIRNode('statement', '', statements);
+  }
+
+  /**
+   * Build a list comprehension used inside a larger expression (`total = sum([...])`)
+   * into a temporary array first, which the statement then reads in its place
+   */
+  private hoistComprehension(node: ASTNode, comprehension: ASTNode): IR {
+    const visitNode = this.visitNode as (node: ASTNode) => IR;
+    const temporary = this.getTemporary('ARRAY');
+    this.context.identifiers.add(temporary.name);
+    const name: ASTNode = { type: 'Name', id: temporary.name };
+    return this.createIRNode('statement', '', [
+      visitNode({
+        ...this.withoutComment(node),
+        type: 'Assign',
+        targets: [{ ...name, ctx: 'Store' }],
+        value: comprehension,
+      }),
+      visitNode(this.replaceEvaluatedExpression(node, comprehension, { ...name, ctx: 'Load' })),
+    ]);
+  }
+
+  /**
+   * Fill in a record constructed inside a larger expression (`return Point(0, 0)`,
+   * `show(Point(1, 2))`) in a temporary first, which the statement then reads in its place
+   */
+  private hoistRecord(node: ASTNode, record: ASTNode): IR {
+    const visitNode = this.visitNode as (node: ASTNode) => IR;
+    const className = record.func.id;
+    const type = this.getRecordTypeName(className) as IGCSEDataType;
+    const temporary = this.getTemporary(type, node.lineno, node);
+    const name: ASTNode = { type: 'Name', id: temporary.name, inferredType: type };
+    return this.createIRNode('statement', '', [
+      ...(temporary.declaration ? [temporary.declaration] : []),
+      ...this.createFieldAssignments(temporary.name, className, record.args, record.keywords ?? []),
+      visitNode(this.replaceEvaluatedExpression(node, record, name)),
+    ]);
+  }
+
+  /**
+   * Read a line of a file used inside a larger expression (`return f.readline()`,
+   * `print(f.readline())`) with READFILE into a temporary first, which the statement then
+   * reads in its place; a WHILE condition reads the next line at the end of the loop body
+   */
+  private hoistFileRead(node: ASTNode, read: ASTNode): IR {
+    const visitNode = this.visitNode as (node: ASTNode) => IR;
+    const temporary = this.getTemporary('STRING', node.lineno, node);
+    const name: ASTNode = { type: 'Name', id: temporary.name, inferredType: 'STRING' };
+    const statement = this.replaceEvaluatedExpression(node, read, name);
+    if (node.type === 'While') {
+      statement.body = [
+        ...statement.body,
+        {
+          type: 'Assign',
+          lineno: node.lineno || 0,
+          col_offset: node.col_offset || 0,
+          targets: [{ ...name, ctx: 'Store' }],
+          value: read,
+        },
+      ];
+    }
+    return this.createIRNode('statement', '', [
+      ...(temporary.declaration ? [temporary.declaration] : []),
+      this.createReadFile(read, temporary.name)!,
+      visitNode(statement),
+    ]);
+  }
+
+  /**
+   * Find the first line read from an open file inside a larger expression of a statement;
+   * a line read straight into a variable is converted by visitAssign
+   */
+  private findNestedFileRead(node: ASTNode): ASTNode | null {
+    const isFileRead = (expression: ASTNode) => this.isFileRead(expression);
+    const read =
+      node.type === 'While'
+        ? this.findMatchingExpression([node.test], isFileRead)
+        : this.findEvaluatedExpression(node, isFileRead);
+    const assigned =
+      node.type === 'Assign' &&
+      node.targets[0].type === 'Name' &&
+      this.getFileRead(node.value) === read;
+    return read && !assigned ? read : null;
+  }
+
+  /**
+   * Find the first record constructed inside a larger expression of a statement; records
+   * assigned directly, as elements of a list or added to a static array are filled in
+   * field by field where they are stored
+   */
+  private findNestedRecord(node: ASTNode): ASTNode | null {
+    const record = this.findEvaluatedExpression(
+      node,
+      (expression) =>
+        expression.type === 'Call' &&
+        expression.func.type === 'Name' &&
+        this.context.classDefinitions?.[expression.func.id]?.isRecord === true
+    );
+    const assigned =
+      ['Assign', 'AnnAssign'].includes(node.type) &&
+      (node.value === record || (node.value?.type === 'List' && node.value.elts.includes(record)));
+    const call = node.type === 'Expr' ? node.value : undefined;
+    const added =
+      call?.type === 'Call' &&
+      call.func.type === 'Attribute' &&
+      call.func.value.type === 'Name' &&
+      this.context.arrayInfo[call.func.value.id]?.count &&
+      call.args.includes(record);
+    return record && !assigned && !added ? record : null;
+  }
+
+  /**
+   * Find the first list comprehension inside a larger expression of a statement; one
+   * assigned directly to a variable is expanded by visitAssign
+   */
+  private findNestedComprehension(node: ASTNode): ASTNode | null {
+    if (
+      node.type === 'Assign' &&
+      node.value.type === 'ListComp' &&
+      node.targets[0].type === 'Name'
+    ) {
+      return null;
+    }
+    return this.findEvaluatedExpression(node, (expression) => expression.type === 'ListComp');
+  }
+
+  /**
+   * Find the first operand in the middle of a chained comparison that is neither a name
+   * nor a literal; `a < f(x) <= b` compares it twice, so it is evaluated once beforehand
+   */
+  private findChainedOperand(node: ASTNode): ASTNode | null {
+    const isSimple = (operand: ASTNode) =>
+      operand.type === 'Name' ||
+      operand.type === 'Constant' ||
+      (operand.type === 'UnaryOp' && operand.operand.type === 'Constant');
+    const getOperand = (expression: ASTNode): ASTNode | undefined =>
+      expression.type === 'Compare'
+        ? expression.comparators.slice(0, -1).find((comparator: ASTNode) => !isSimple(comparator))
+        : undefined;
+    const comparison =
+      node.type === 'While'
+        ? this.findMatchingExpression([node.test], (expression) => !!getOperand(expression))
+        : this.findEvaluatedExpression(node, (expression) => !!getOperand(expression));
+    return comparison ? getOperand(comparison)! : null;
+  }
+
+  /**
+   * Find the first conditional expression evaluated by a statement
+   */
+  private findConditionalExpression(node: ASTNode): ASTNode | null {
+    const isConditional = (expression: ASTNode) => expression.type === 'IfExp';
+    return node.type === 'While'
+      ? this.findMatchingExpression([node.test], isConditional)
+      : this.findEvaluatedExpression(node, isConditional);
+  }
+
+  /**
+   * Find the first expression matching a test that a statement evaluates once
+   */
+  private findEvaluatedExpression(
+    node: ASTNode,
+    matches: (expression: ASTNode) => boolean
+  ): ASTNode | null {
+    let expressions: ASTNode[];
+    switch (node.type) {
+      case 'Assign':
+        expressions = [...node.targets, node.value];
+        break;
+      case 'AugAssign':
+        expressions = [node.target, node.value];
+        break;
+      case 'AnnAssign':
+      case 'Return':
+      case 'Expr':
+        expressions = node.value ? [node.value] : [];
+        break;
+      case 'If':
+        expressions = [node.test];
+        break;
+      case 'For':
+        expressions = [node.iter];
+        break;
+      default:
+        return null;
+    }
+    return this.findMatchingExpression(expressions, matches);
+  }
+
+  /**
+   * Search expressions for the first one matching a test; those in lambdas and
+   * comprehensions are evaluated more than once and are left alone
+   */
+  private findMatchingExpression(
+    expressions: ASTNode[],
+    matches: (expression: ASTNode) => boolean
+  ): ASTNode | null {
+    const find = (expression: ASTNode): ASTNode | null => {
+      if (matches(expression)) {
+        return expression;
+      }
+      if (['Lambda', 'ListComp', 'SetComp', 'DictComp', 'GeneratorExp'].includes(expression.type)) {
+        return null;
+      }
+      for (const [key, child] of Object.entries(expression)) {
+        if (POSITION_KEYS.includes(key)) continue;
+        for (const item of Array.isArray(child) ? child : [child]) {
+          if (item && typeof item === 'object' && typeof item.type === 'string') {
+            const found = find(item);
+            if (found) return found;
+          }
+        }
+      }
+      return null;
+    };
+
+    for (const expression of expressions) {
+      const found = find(expression);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Replace an expression where a statement evaluates it, leaving the statement's body alone
+   */
+  private replaceEvaluatedExpression(
+    node: ASTNode,
+    expression: ASTNode,
+    replacement: ASTNode
+  ): ASTNode {
+    switch (node.type) {
+      case 'If':
+      case 'While':
+        return { ...node, test: this.replaceExpression(node.test, expression, replacement) };
+      case 'For':
+        return { ...node, iter: this.replaceExpression(node.iter, expression, replacement) };
+      default:
+        return this.replaceExpression(node, expression, replacement);
+    }
+  }
+
+  /**
+   * Turn a statement whose value is a conditional expression into an IF running the
+   * statement with each branch; a conditional expression in the else branch becomes ELSE IF
+   */
+  private createConditionalStatement(node: ASTNode, expression: ASTNode): ASTNode {
+    const statement = this.withoutComment(node);
+    return {
+      ...statement,
+      type: 'If',
+      test: expression.test,
+      body: [{ ...statement, value: expression.body }],
+      orelse: [
+        expression.orelse.type === 'IfExp'
+          ? this.createConditionalStatement(node, expression.orelse)
+          : { ...statement, value: expression.orelse },
+      ],
+    };
+  }
+
+  /**
+   * Copy a statement for use in generated statements, which leave its comment to it
+   */
+  private withoutComment(node: ASTNode): ASTNode {
+    return { ...node, inlineComment: undefined };
+  }
+
+  /**
+   * Get a temporary variable for the current procedure, reusing the one already made
+   * for the same type unless the statement being converted reads it; the name avoids
+   * every identifier in the source
+   */
+  private getTemporary(
+    type: IGCSEDataType,
+    line?: number,
+    statement?: ASTNode
+  ): { name: string; declaration: IR | null } {
+    const scope = this.getVariableScope();
+    const temporaries = this.temporaries.get(scope) ?? new Map<IGCSEDataType, string>();
+    this.temporaries.set(scope, temporaries);
+
+    const existing = temporaries.get(type);
+    const inUse =
+      existing && statement && this.findExpression(statement, { type: 'Name', id: existing });
+    if (existing && type !== 'ARRAY' && !inUse) {
+      return { name: existing, declaration: null };
+    }
+
+    const used = new Set([...this.context.identifiers, ...temporaries.values()]);
+    let suffix = 1;
+    while (used.has(`Temp${suffix > 1 ? suffix : ''}`)) suffix++;
+    const name = `Temp${suffix > 1 ? suffix : ''}`;
+    temporaries.set(type, name);
+    if (type === 'ARRAY') {
+      return { name, declaration: null };
+    }
+
+    // With generated declarations the temporary is declared with the other variables
+    this.registerVariable(name, type, line);
+    const declaration =
+      this.options.declarations === 'none'
+        ? this.createIRNode('statement', `DECLARE ${name} : ${type}`)
+        : null;
+    return { name, declaration };
+  }
+
+  /**
+   * Find an occurrence of an expression inside another, ignoring source positions
+   */
+  private findExpression(node: ASTNode, expression: ASTNode): ASTNode | null {
+    if (this.isSameExpression(node, expression)) {
+      return node;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (POSITION_KEYS.includes(key)) continue;
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (item && typeof item === 'object' && typeof item.type === 'string') {
+          const found = this.findExpression(item, expression);
+          if (found) return found;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Copy an expression with every occurrence of one subexpression replaced
+   */
+  private replaceExpression(node: ASTNode, expression: ASTNode, replacement: ASTNode): ASTNode {
+    if (this.isSameExpression(node, expression)) {
+      return replacement;
+    }
+    const replace = (child: unknown): unknown => {
+      if (Array.isArray(child)) return child.map(replace);
+      if (child && typeof child === 'object' && typeof (child as ASTNode).type === 'string') {
+        return this.replaceExpression(child as ASTNode, expression, replacement);
+      }
+      return child;
+    };
+    return Object.fromEntries(
+      Object.entries(node).map(([key, child]) => [key, replace(child)])
+    ) as ASTNode;
+  }
+
+  /**
+   * Compare two expressions, ignoring source positions
+   */
+  private isSameExpression(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return (
+        Array.isArray(a) &&
+        Array.isArray(b) &&
+        a.length === b.length &&
+        a.every((item, index) => this.isSameExpression(item, b[index]))
+      );
+    }
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+      return a === b;
+    }
+    const keys = (node: object) =>
+      Object.keys(node).filter(
+        (key) => !POSITION_KEYS.includes(key) && key !== 'ctx' && key !== 'inferredType'
+      );
+    const aKeys = keys(a);
+    return (
+      aKeys.length === keys(b).length &&
+      aKeys.every((key) => this.isSameExpression((a as ASTNode)[key], (b as ASTNode)[key]))
+    );
+  }
+
+  /**
+   * Check whether an assignment defines a constant found by the visitor's pre-pass
+   */
+  private isConstantDefinition(target: ASTNode, node: ASTNode): boolean {
+    return target.type === 'Name' && this.context.constants[target.id] === node.lineno;
+  }
+
+  /**
+   * Create a CONSTANT declaration in the configured dialect
+   */
+  private createConstant(name: string, valueNode: ASTNode): IR {
+    const operator = this.options.dialect === 'alevel' ? '=' : '←';
+    const value = this.expressionVisitor.visitExpression(valueNode);
+    return this.createIRNode('statement', `CONSTANT ${name} ${operator} ${value}`, [], {
+      name,
+      dataType: this.expressionVisitor.inferTypeFromValue(valueNode),
+    });
   }
 
   /**
@@ -207,10 +913,16 @@ export class StatementVisitor extends BaseParser {
    */
   visitAugAssign(node: ASTNode): IR {
     const target = this.expressionVisitor.visitExpression(node.target);
-    const value = this.expressionVisitor.visitExpression(node.value);
-    const op = this.convertOperator(node.op);
-
-    const text = `${target} ← ${target} ${op} ${value}`;
+    // x -= a + b is x ← x - (a + b), so the value is printed as an operand
+    const value = this.expressionVisitor.visitExpression({
+      type: 'BinOp',
+      left: node.target,
+      op: node.op,
+      right: node.value,
+      inferredType: node.target.inferredType,
+    });
+
+    const text = `${target} ← ${value}`;
     return this.createIRNode('assign', text);
   }
 
@@ -220,6 +932,15 @@ export class StatementVisitor extends BaseParser {
   visitAnnAssign(node: ASTNode): IR {
     const targetName = node.target.id;
 
+    if (this.isConstantDefinition(node.target, node)) {
+      return this.createConstant(targetName, node.value);
+    }
+
+    const staticArray = this.createStaticArray(node, node.target, node.value, node.annotation);
+    if (staticArray) {
+      return staticArray;
+    }
+
     // Detect array type from type annotation
     if (this.isListTypeAnnotation(node.annotation)) {
       const elementType = this.extractListElementType(node.annotation);
@@ -243,6 +964,38 @@ export class StatementVisitor extends BaseParser {
       }
     }
 
+    // A dictionary literal for a TypedDict fills in the record field by field
+    const classDefinition =
+      node.annotation.type === 'Name'
+        ? this.context.classDefinitions?.[node.annotation.id]
+        : undefined;
+    if (classDefinition?.isRecord && classDefinition.fields && node.value?.type === 'Dict') {
+      const recordTypeName = this.getRecordTypeName(node.annotation.id);
+      this.registerVariable(targetName, recordTypeName as IGCSEDataType, node.lineno);
+      const keywords = node.value.keys.map((key: ASTNode, index: number) => ({
+        arg: key.value,
+        value: node.value.values[index],
+      }));
+      return this.createIRNode('block', '', [
+        this.createIRNode('statement', `DECLARE ${targetName} : ${recordTypeName}`),
+        ...this.createFieldAssignments(targetName, node.annotation.id, [], keywords),
+      ]);
+    }
+
+    // A record constructed by its class is filled in field by field
+    if (
+      node.value?.type === 'Call' &&
+      node.value.func.type === 'Name' &&
+      this.context.classDefinitions?.[node.value.func.id]?.isRecord
+    ) {
+      return this.handleClassInstantiation({
+        type: 'Assign',
+        targets: [node.target],
+        value: node.value,
+        lineno: node.lineno || 0,
+      });
+    }
+
     // Normal annotated assignment
     const target = this.expressionVisitor.visitExpression(node.target);
     const value = node.value ? this.expressionVisitor.visitExpression(node.value) : '';
@@ -263,6 +1016,13 @@ export class StatementVisitor extends BaseParser {
    * Process IF statements
    */
   visitIf(node: ASTNode): IR {
+    if (this.options.preferCase) {
+      const caseIR = this.createCaseFromIf(node);
+      if (caseIR) {
+        return caseIR;
+      }
+    }
+
     const condition = this.expressionVisitor.visitExpression(node.test);
     const ifText = `IF ${condition} THEN`;
 
@@ -280,8 +1040,9 @@ export class StatementVisitor extends BaseParser {
     if (node.orelse && node.orelse.length > 0) {
       const firstElse = node.orelse[0];
 
-      // Process as ELSE IF when first element is IF statement
-      if (firstElse.type === 'If') {
+      // Process as ELSE IF when first element is IF statement; a conditional expression
+      // in its condition is assigned to a temporary inside a plain ELSE
+      if (firstElse.type === 'If' && !this.findConditionalExpression(firstElse)) {
         const condition = this.expressionVisitor.visitExpression(firstElse.test);
         const elseIfText = `ELSE IF ${condition} THEN`;
         const elseIfIR = this.createIRNode('elseif', elseIfText);
@@ -331,69 +1092,84 @@ export class StatementVisitor extends BaseParser {
     return this.createIRNode('if', ifText, children);
   }
 
+  /**
+   * The else block of a loop runs when the loop ends without a break, which IGCSE
+   * cannot express; it is reported and its Python code kept as comments after the loop
+   */
+  private createLoopWithElse(node: ASTNode): IR {
+    const loop = node.type === 'For' ? 'FOR' : 'WHILE';
+    const orelse: ASTNode[] = node.orelse;
+    this.addWarning(
+      `The else block of the ${loop} loop on line ${node.lineno} has no IGCSE equivalent`,
+      'unsupported_feature',
+      orelse[0].lineno,
+      orelse[0].col_offset
+    );
+
+    const lines = this.context.sourceLines.slice(
+      (orelse[0].lineno ?? 1) - 1,
+      orelse[orelse.length - 1].end_lineno ?? orelse[orelse.length - 1].lineno
+    );
+    const indent = Math.min(
+      ...lines.filter((line) => line.trim()).map((line) => line.search(/\S/))
+    );
+    const comments = [
+      `// Not converted: else block of the ${loop} loop (runs when the loop ends without a break)`,
+      ...lines.map((line) => `//   ${line.slice(indent)}`.trimEnd()),
+    ];
+
+    const converted =
+      node.type === 'For'
+        ? this.visitFor({ ...node, orelse: [] })
+        : this.visitWhile({ ...node, orelse: [] });
+    return this.createIRNode('statement', '', [
+      converted,
+      ...comments.map((comment) => this.createIRNode('comment', comment)),
+    ]);
+  }
+
   /**
    * Process FOR statements
    */
   visitFor(node: ASTNode): IR {
+    if (node.orelse?.length > 0) {
+      return this.createLoopWithElse(node);
+    }
+
+    const structuredLoop = this.createStructuredLoop(node);
+    if (structuredLoop) {
+      return structuredLoop;
+    }
+
     const target = this.expressionVisitor.visitExpression(node.target);
 
+    // Reading a file line by line
+    const fileName = this.getFileNameForLines(node.iter);
+    if (fileName) {
+      return this.handleFileFor(node, target, fileName);
+    }
+
     // Process for statement using range() function
     if (node.iter.type === 'Call' && node.iter.func.id === 'range') {
       return this.handleRangeFor(node, target);
     }
 
-    // Direct iteration over arrays or lists
-    if (node.iter.type === 'Name') {
-      const arrayName = node.iter.id;
-      const indexVar = 'i';
-
-      // Get array size (from context)
-      let arraySize = '3'; // Default size
-
-      // Get array size from context
-      if (this.context && this.context.arrayInfo && this.context.arrayInfo[arrayName]) {
-        arraySize = this.context.arrayInfo[arrayName].size.toString();
-      }
-
-      // Format: FOR i ← 1 TO size
-      const forText = `FOR ${indexVar} ← 1 TO ${arraySize}`;
-
-      this.enterScope('for', 'block');
-      this.increaseIndent();
-
-      // Process body (directly reference array elements without using target variable)
-      const bodyChildren = node.body.map((child: ASTNode) => {
-        // Convert print(target) to OUTPUT array[i]
-        // Convert print(target) to OUTPUT array[i]
-        if (
-          child.type === 'Expr' &&
-          child.value.type === 'Call' &&
-          child.value.func &&
-          child.value.func.type === 'Name' &&
-          child.value.func.id === 'print' &&
-          child.value.args.length === 1 &&
-          ((child.value.args[0].type === 'Name' && child.value.args[0].id === target) ||
-            (child.value.args[0].type === 'Str' && child.value.args[0].s === target))
-        ) {
-          return this.createIRNode('output', `OUTPUT ${arrayName}[${indexVar}]`);
-        }
-        return this.visitNode
-          ? this.visitNode(child)
-          : this.createIRNode('comment', '// Unprocessed node');
-      });
-
-      this.decreaseIndent();
-      this.exitScope();
-
-      const nextIR = this.createIRNode('statement', `NEXT ${indexVar}`);
-      bodyChildren.push(nextIR);
-
-      return this.createIRNode('for', forText, bodyChildren);
+    // Iteration over arrays and strings, enumerate() and zip()
+    const forEach = this.createForEach(node);
+    if (forEach) {
+      return forEach;
     }
 
-    // Normal for statement (other iterable objects)
+    // Other iterables, such as dictionaries, sorted() and split(), have no IGCSE loop
     const iterable = this.expressionVisitor.visitExpression(node.iter);
+    this.context.callWarnings.push({
+      message: `Iteration over ${this.expressionVisitor.getSourceText(node.iter)} on line ${node.lineno} has no IGCSE equivalent`,
+      needsTranslation: true,
+    });
     const forText = `FOR ${target} IN ${iterable}`;
+    if (node.target.type === 'Name') {
+      this.registerVariable(target, DEFAULT_DATA_TYPE, node.lineno);
+    }
 
     this.enterScope('for', 'block');
     this.increaseIndent();
@@ -413,13 +1189,22 @@ export class StatementVisitor extends BaseParser {
    * Process WHILE statements
    */
   visitWhile(node: ASTNode): IR {
-    // Check if this is a REPEAT-UNTIL pattern:
-    // while True:
-    //     ...
-    //     if condition:
-    //         break
-    if (this.isRepeatUntilPattern(node)) {
-      return this.createRepeatUntilIR(node);
+    if (node.orelse?.length > 0) {
+      return this.createLoopWithElse(node);
+    }
+
+    // while True with a conditional break becomes REPEAT-UNTIL, a pre-test WHILE
+    // or a WHILE controlled by a flag
+    if (node.test.type === 'Constant' && (node.test.value === true || node.test.value === 1)) {
+      const loop = this.createLoopFromWhileTrue(node);
+      if (loop) {
+        return loop;
+      }
+    }
+
+    const structuredLoop = this.createStructuredLoop(node);
+    if (structuredLoop) {
+      return structuredLoop;
     }
 
     // Regular while loop
@@ -441,106 +1226,286 @@ export class StatementVisitor extends BaseParser {
   }
 
   /**
-   * Check if a while loop matches the REPEAT-UNTIL pattern
-   * Pattern: while True with a conditional break at the end
+   * Convert `while True` by its single exit `if cond: break`:
+   * at the start it becomes WHILE NOT cond, at the end REPEAT ... UNTIL cond,
+   * and in the middle REPEAT with the rest of the body under IF NOT cond
+   * when cond can be tested twice. Other loops get a flag in the WHILE condition.
    */
-  private isRepeatUntilPattern(node: ASTNode): boolean {
-    // Check if condition is 'True'
-    // The AST structure might vary, so we check both raw value and type
-    if (
-      node.test.type === 'Compare' &&
-      node.test.raw !== 'True' &&
-      node.test.type === 'NameConstant' &&
-      node.test.value !== true
-    ) {
-      return false;
-    }
+  private createLoopFromWhileTrue(node: ASTNode): IR | null {
+    const rewriter = new LoopRewriter(this.context.identifiers);
+    const exit = rewriter.findExit(node);
+    const visit = (statement: ASTNode) =>
+      this.visitNode
+        ? this.visitNode(statement)
+        : this.createIRNode('comment', '// Unprocessed node');
+
+    if (exit) {
+      const before: ASTNode[] = node.body.slice(0, exit.index);
+      const rest: ASTNode[] = node.body.slice(exit.index + 1);
+      let loop: IR | null = null;
+
+      if (before.length === 0) {
+        loop = visit({ ...node, test: rewriter.negate(exit.test), body: rest });
+      } else if (rest.length === 0 || rewriter.canRepeatTest(exit.test, rest)) {
+        this.enterScope('repeat', 'block');
+        this.increaseIndent();
+        const children = before.map(visit);
+        if (rest.length > 0) {
+          children.push(
+            visit({ type: 'If', test: rewriter.negate(exit.test), body: rest, orelse: [] })
+          );
+        }
+        this.decreaseIndent();
+        this.exitScope();
+
+        children.push(
+          this.createIRNode('until', `UNTIL ${this.expressionVisitor.visitExpression(exit.test)}`)
+        );
+        loop = this.createIRNode('repeat', 'REPEAT', children);
+      }
 
-    // Check if the last statement is an if with break
-    const lastStatement = node.body[node.body.length - 1];
-    if (!lastStatement || lastStatement.type !== 'If') {
-      return false;
+      if (loop) {
+        return exit.after.length > 0
+          ? this.createIRNode('statement', '', [loop, ...exit.after.map(visit)])
+          : loop;
+      }
     }
 
-    // Check if the if body contains a break statement
-    const ifBody = lastStatement.body;
-    if (!ifBody || ifBody.length === 0) {
-      return false;
+    const rewrite = rewriter.rewrite(node);
+    if (!rewrite) {
+      return null;
     }
+    rewrite.notes.forEach((note) => this.addWarning(note.message, 'structured_rewrite', note.line));
+    const children = rewrite.statements.map(visit);
+    return children.length === 1 ? children[0] : this.createIRNode('statement', '', children);
+  }
 
-    // Check if the if body contains ONLY a break statement
-    // This is important for the REPEAT-UNTIL pattern
-    if (ifBody.length !== 1 || ifBody[0].type !== 'Break') {
-      return false;
+  /**
+   * Process MATCH statements (converted to CASE OF ... ENDCASE)
+   */
+  visitMatch(node: ASTNode): IR {
+    const subject = this.expressionVisitor.visitExpression(node.subject);
+    const branches: IR[] = [];
+    const cases = node.cases.filter((matchCase: ASTNode) => matchCase.type !== 'Comment');
+
+    for (const matchCase of node.cases) {
+      if (matchCase.type === 'Comment') {
+        branches.push(this.visitComment(matchCase));
+        continue;
+      }
+      const isLast = matchCase === cases[cases.length - 1];
+      branches.push(...this.createCaseBranches(matchCase, subject, isLast));
     }
 
-    return true;
+    return this.createIRNode('case', `CASE OF ${subject}`, branches);
   }
 
   /**
-   * Create a REPEAT-UNTIL IR from a while True loop with conditional break
+   * Create one CASE branch per value label of a match case
    */
-  private createRepeatUntilIR(node: ASTNode): IR {
-    const repeatText = 'REPEAT';
+  private createCaseBranches(matchCase: ASTNode, subject: string, isLast: boolean): IR[] {
+    const captures: string[] = [];
+    const labels = this.getCaseLabels(matchCase.pattern, captures);
+
+    // OTHERWISE can only be the final branch
+    if (!labels || (labels.includes('OTHERWISE') && !isLast)) {
+      this.addWarning(
+        `Pattern on line ${matchCase.lineno} cannot be expressed as an IGCSE CASE label`,
+        'unsupported_feature',
+        matchCase.lineno,
+        matchCase.col_offset
+      );
+      return [
+        this.createIRNode('comment', `// Unsupported case pattern (line ${matchCase.lineno})`),
+      ];
+    }
+
+    let body = this.visitCaseBody(matchCase.body);
+
+    // Guards are checked inside the branch
+    if (matchCase.guard) {
+      this.addWarning(
+        `Guard on line ${matchCase.lineno} is not supported in IGCSE CASE; converted to an IF inside the branch`,
+        'unsupported_feature',
+        matchCase.lineno,
+        matchCase.col_offset
+      );
+      const condition = this.expressionVisitor.visitExpression(matchCase.guard);
+      body = [this.createIRNode('if', `IF ${condition} THEN`, body)];
+    }
+
+    // Captured names are bound to the subject before the body runs
+    if (captures.length > 0) {
+      this.addWarning(
+        `Capture pattern on line ${matchCase.lineno} is not supported in IGCSE CASE; ` +
+          `'${captures.join("', '")}' is assigned from the subject instead`,
+        'unsupported_feature',
+        matchCase.lineno,
+        matchCase.col_offset
+      );
+      body = [
+        ...captures.map((name) => this.createIRNode('assign', `${name} ← ${subject}`)),
+        ...body,
+      ];
+    }
 
-    this.enterScope('repeat', 'block');
+    if (matchCase.inlineComment) {
+      body.unshift(this.createIRNode('comment', `// ${matchCase.inlineComment}`));
+    }
+
+    return labels.map((label) => this.createIRNode('case_branch', label, body));
+  }
+
+  /**
+   * Visit the statements of a CASE branch
+   */
+  private visitCaseBody(statements: ASTNode[]): IR[] {
+    this.enterScope('case', 'block');
     this.increaseIndent();
+    const body = statements.map((child: ASTNode) =>
+      this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+    );
+    this.decreaseIndent();
+    this.exitScope();
+    return body;
+  }
 
-    // Process all statements except the last one (which is the if-break)
-    const bodyStatements = node.body.slice(0, -1);
+  /**
+   * Convert an if/elif chain comparing one variable against constants into a CASE statement
+   * Returns null when the chain does not have that shape
+   */
+  private createCaseFromIf(node: ASTNode): IR | null {
+    const branches: Array<{ labels: string[]; body: ASTNode[] }> = [];
+    let subject: string | null = null;
+    let current: ASTNode = node;
+    let otherwise: ASTNode[] = [];
+
+    for (;;) {
+      const comparison = this.getEqualityLabels(current.test);
+      if (!comparison || (subject !== null && comparison.subject !== subject)) {
+        return null;
+      }
+      subject = comparison.subject;
+      branches.push({ labels: comparison.labels, body: current.body });
 
-    // Special handling for input function in the body
-    const bodyChildren: IR[] = [];
+      const orelse: ASTNode[] = current.orelse || [];
+      if (orelse.length === 1 && orelse[0].type === 'If') {
+        current = orelse[0];
+        continue;
+      }
+      otherwise = orelse;
+      break;
+    }
 
-    for (const child of bodyStatements) {
-      // Check if this is an assignment with input() function
-      if (
-        child.type === 'Assign' &&
-        child.value &&
-        child.value.type === 'Call' &&
-        child.value.func &&
-        child.value.func.id === 'input'
-      ) {
-        // Get the target variable name
-        const target = this.expressionVisitor.visitExpression(child.targets[0]);
-
-        // Get the input prompt if any
-        const args = child.value.args || [];
-        if (args.length > 0) {
-          // Create OUTPUT statement for the prompt
-          const prompt = this.expressionVisitor.visitExpression(args[0]);
-          const outputIR = this.createIRNode('output', `OUTPUT ${prompt}`);
-          bodyChildren.push(outputIR);
-        }
+    // A single comparison reads better as IF
+    if (branches.length < 2 || subject === null) {
+      return null;
+    }
 
-        // Create INPUT statement
-        const inputIR = this.createIRNode('input', `INPUT ${target}`);
-        bodyChildren.push(inputIR);
-      } else {
-        // Normal statement processing
-        const ir = this.visitNode
-          ? this.visitNode(child)
-          : this.createIRNode('comment', '// Unprocessed node');
-        bodyChildren.push(ir);
+    // Python takes the first matching branch, so a repeated value cannot become a label
+    const allLabels = branches.flatMap((branch) => branch.labels);
+    if (new Set(allLabels).size !== allLabels.length) {
+      return null;
+    }
+
+    const children: IR[] = [];
+    for (const branch of branches) {
+      const body = this.visitCaseBody(branch.body);
+      children.push(...branch.labels.map((label) => this.createIRNode('case_branch', label, body)));
+    }
+    if (otherwise.length > 0) {
+      children.push(this.createIRNode('case_branch', 'OTHERWISE', this.visitCaseBody(otherwise)));
+    }
+
+    return this.createIRNode('case', `CASE OF ${subject}`, children);
+  }
+
+  /**
+   * Extract the subject and constant labels from `x == 1` or `x == 1 or x == 2`
+   */
+  private getEqualityLabels(test: ASTNode): { subject: string; labels: string[] } | null {
+    if (!test) return null;
+
+    if (test.type === 'BoolOp' && test.op.type === 'Or') {
+      let subject: string | null = null;
+      const labels: string[] = [];
+      for (const value of test.values) {
+        const comparison = this.getEqualityLabels(value);
+        if (!comparison || (subject !== null && comparison.subject !== subject)) {
+          return null;
+        }
+        subject = comparison.subject;
+        labels.push(...comparison.labels);
       }
+      return subject === null ? null : { subject, labels };
     }
 
-    // Get the condition from the if statement
-    const lastStatement = node.body[node.body.length - 1];
+    if (test.type !== 'Compare' || test.ops.length !== 1 || test.ops[0].type !== 'Eq') {
+      return null;
+    }
 
-    // The condition in the if statement is what we need for the UNTIL
-    // In Python: if condition: break
-    // In IGCSE: UNTIL condition
-    const condition = this.expressionVisitor.visitExpression(lastStatement.test);
+    // Accept both `x == 1` and `1 == x`
+    const [left, right] = [test.left, test.comparators[0]];
+    const [variable, constant] = this.isCaseLabelConstant(right) ? [left, right] : [right, left];
+    if (
+      !this.isCaseLabelConstant(constant) ||
+      !['Name', 'Attribute', 'Subscript'].includes(variable.type)
+    ) {
+      return null;
+    }
 
-    this.decreaseIndent();
-    this.exitScope();
+    return {
+      subject: this.expressionVisitor.visitExpression(variable),
+      labels: [this.expressionVisitor.visitExpression(constant)],
+    };
+  }
 
-    // Create UNTIL statement
-    const untilIR = this.createIRNode('until', `UNTIL ${condition}`);
-    bodyChildren.push(untilIR);
+  /**
+   * Check for a string or integer literal usable as a CASE label
+   */
+  private isCaseLabelConstant(node: ASTNode): boolean {
+    if (node.type === 'Constant') {
+      return typeof node.value === 'string' || (Number.isInteger(node.value) && !node.isFloat);
+    }
+    return (
+      node.type === 'UnaryOp' &&
+      node.op.type === 'USub' &&
+      this.isCaseLabelConstant(node.operand) &&
+      typeof node.operand.value === 'number'
+    );
+  }
 
-    return this.createIRNode('repeat', repeatText, bodyChildren);
+  /**
+   * Get CASE labels for a pattern (null when IGCSE cannot express it)
+   */
+  private getCaseLabels(pattern: ASTNode, captures: string[]): string[] | null {
+    switch (pattern.type) {
+      case 'MatchValue':
+        return [this.expressionVisitor.visitExpression(pattern.value)];
+      case 'MatchSingleton':
+        return [this.expressionVisitor.visitExpression({ type: 'Constant', value: pattern.value })];
+      case 'MatchOr': {
+        const labels: string[] = [];
+        for (const alternative of pattern.patterns) {
+          const alternativeLabels = this.getCaseLabels(alternative, captures);
+          if (!alternativeLabels) return null;
+          labels.push(...alternativeLabels);
+        }
+        return labels;
+      }
+      case 'MatchAs':
+        if (pattern.name) {
+          captures.push(pattern.name);
+        }
+        // Wildcard (_) or bare capture
+        if (!pattern.pattern) {
+          return ['OTHERWISE'];
+        }
+        return this.getCaseLabels(pattern.pattern, captures);
+      default:
+        // Class, sequence, mapping and star patterns
+        return null;
+    }
   }
 
   /**
@@ -550,16 +1515,14 @@ export class StatementVisitor extends BaseParser {
     const func = this.expressionVisitor.visitExpression(node.func);
     const args = node.args.map((arg: ASTNode) => this.expressionVisitor.visitExpression(arg));
 
-    // Convert built-in functions
+    // File handling: f.write(x), print(x, file=f), f.close()
+    const fileOperation = this.createFileOperation(node);
+    if (fileOperation) {
+      return fileOperation;
+    }
+
     if (func === 'print') {
-      // Special handling for f-string with single argument
-      if (args.length === 1 && node.args[0].type === 'JoinedStr') {
-        const fstringResult = this.expressionVisitor.visitExpression(node.args[0]);
-        const text = `OUTPUT ${fstringResult}`;
-        return this.createIRNode('output', text);
-      }
-      const text = `OUTPUT ${args.join(', ')}`;
-      return this.createIRNode('output', text);
+      return this.createIRNode('output', this.expressionVisitor.visitExpression(node));
     }
 
     if (func === 'input') {
@@ -568,6 +1531,20 @@ export class StatementVisitor extends BaseParser {
       return this.createIRNode('input', text);
     }
 
+    // Library calls such as random.shuffle() are kept as written, mapped calls as converted
+    if (
+      this.expressionVisitor.getLibraryName(node.func) ||
+      this.expressionVisitor.findCallMapping(node)
+    ) {
+      return this.createIRNode('statement', this.expressionVisitor.visitExpression(node));
+    }
+
+    // Method calls keep their names; the superclass constructor is called as SUPER.NEW(...)
+    if (node.func.type === 'Attribute') {
+      const call = this.expressionVisitor.visitExpression(node);
+      return this.createIRNode('statement', call.startsWith('SUPER.NEW(') ? call : `CALL ${call}`);
+    }
+
     // Normal function call (add CALL keyword)
     const capitalizedFunc = this.capitalizeFirstLetter(func);
     const text = `CALL ${capitalizedFunc}(${args.join(', ')})`;
@@ -591,13 +1568,47 @@ export class StatementVisitor extends BaseParser {
   visitExpr(node: ASTNode): IR {
     // Handle function calls specially
     if (node.value && node.value.type === 'Call') {
-      return this.visitCall(node.value);
+      return this.createListOperation(node.value) ?? this.visitCall(node.value);
+    }
+
+    // Docstrings and other bare string literals become comments
+    if (node.value && node.value.type === 'Constant' && typeof node.value.value === 'string') {
+      return this.createStringComment(node.value.value);
     }
 
     const expr = this.expressionVisitor.visitExpression(node.value);
     return this.createIRNode('statement', expr);
   }
 
+  /**
+   * Convert a (possibly multi-line) string literal into comment lines
+   */
+  private createStringComment(value: string): IR {
+    const lines = value.split('\n');
+
+    // Remove common indentation of continuation lines (like inspect.cleandoc)
+    const indents = lines
+      .slice(1)
+      .filter((line) => line.trim())
+      .map((line) => line.length - line.trimStart().length);
+    const margin = indents.length > 0 ? Math.min(...indents) : 0;
+    const cleaned = [
+      lines[0].trim(),
+      ...lines.slice(1).map((line) => line.substring(margin).trimEnd()),
+    ];
+
+    while (cleaned.length > 0 && !cleaned[0]) cleaned.shift();
+    while (cleaned.length > 0 && !cleaned[cleaned.length - 1]) cleaned.pop();
+
+    const comments = cleaned.map((line) =>
+      this.createIRNode('comment', line ? `// ${line}` : '//')
+    );
+    if (comments.length === 1) {
+      return comments[0];
+    }
+    return this.createIRNode('statement', '', comments);
+  }
+
   /**
    * Process comments
    */
@@ -629,7 +1640,21 @@ export class StatementVisitor extends BaseParser {
   /**
    * Process IMPORT statements
    */
-  visitImport(_node: ASTNode): IR {
+  visitImport(node: ASTNode): IR {
+    // Remember imported names so that library calls can be mapped
+    for (const alias of node.names) {
+      if (node.type === 'ImportFrom') {
+        if (alias.name !== '*') {
+          this.context.imports[alias.asname ?? alias.name] = `${node.module}.${alias.name}`;
+        }
+      } else if (alias.asname) {
+        this.context.imports[alias.asname] = alias.name;
+      } else {
+        const module = alias.name.split('.')[0];
+        this.context.imports[module] = module;
+      }
+    }
+
     // Output as comment since import is not typically used in IGCSE
     return this.createIRNode('comment', `// import statement`);
   }
@@ -652,8 +1677,262 @@ export class StatementVisitor extends BaseParser {
   /**
    * Process WITH statements
    */
-  visitWith(_node: ASTNode): IR {
-    return this.createIRNode('comment', `// with statement`);
+  visitWith(node: ASTNode): IR {
+    const children: IR[] = [];
+    const fileNames: string[] = [];
+    const handles: string[] = [];
+
+    for (const item of node.items) {
+      if (!this.isOpenCall(item.context_expr)) {
+        this.addWarning(
+          `Context manager on line ${node.lineno} is not supported; only the block body is converted`,
+          'unsupported_feature',
+          node.lineno,
+          node.col_offset
+        );
+        continue;
+      }
+      const handle = item.optional_vars?.type === 'Name' ? item.optional_vars.id : null;
+      children.push(this.createOpenFile(item.context_expr, handle));
+      fileNames.push(this.getFileName(item.context_expr));
+      if (handle) {
+        handles.push(handle);
+      }
+    }
+
+    const body = node.body.map((child: ASTNode) =>
+      this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+    );
+
+    // Files are closed when the with block ends, including by a RETURN inside it
+    const createCloseFiles = () =>
+      [...fileNames]
+        .reverse()
+        .map((fileName) => this.createIRNode('statement', `CLOSEFILE ${fileName}`));
+    children.push(...this.closeFilesBeforeReturns(body, createCloseFiles));
+    if (node.body[node.body.length - 1]?.type !== 'Return') {
+      children.push(...createCloseFiles());
+    }
+    handles.forEach((handle) => delete this.context.fileHandles[handle]);
+
+    return this.createIRNode('statement', '', children);
+  }
+
+  /**
+   * Insert the CLOSEFILE statements before every RETURN in a with block
+   */
+  private closeFilesBeforeReturns(nodes: IR[], createCloseFiles: () => IR[]): IR[] {
+    return nodes.flatMap((ir) => {
+      if (ir.kind === 'return') {
+        return [...createCloseFiles(), ir];
+      }
+      if (ir.kind !== 'function' && ir.kind !== 'procedure' && ir.kind !== 'class') {
+        ir.children = this.closeFilesBeforeReturns(ir.children, createCloseFiles);
+      }
+      return [ir];
+    });
+  }
+
+  /**
+   * Check for a call to the built-in open()
+   */
+  private isOpenCall(node: ASTNode): boolean {
+    return !!node && node.type === 'Call' && node.func.type === 'Name' && node.func.id === 'open';
+  }
+
+  private getFileName(openCall: ASTNode): string {
+    return openCall.args.length > 0
+      ? this.expressionVisitor.visitExpression(openCall.args[0])
+      : '""';
+  }
+
+  /**
+   * Create OPENFILE for an open() call and remember the variable holding the file
+   */
+  private createOpenFile(openCall: ASTNode, handle: string | null): IR {
+    const fileName = this.getFileName(openCall);
+    const modeNode =
+      openCall.args[1] ||
+      openCall.keywords.find((keyword: ASTNode) => keyword.arg === 'mode')?.value;
+    const mode =
+      modeNode && modeNode.type === 'Constant' && typeof modeNode.value === 'string'
+        ? modeNode.value.replace('t', '')
+        : modeNode
+          ? ''
+          : 'r';
+
+    let fileMode = FILE_MODES[mode];
+    if (!fileMode) {
+      fileMode = FILE_MODES[mode.charAt(0)] || 'READ';
+      this.addWarning(
+        `File mode on line ${openCall.lineno} has no IGCSE equivalent; opened FOR ${fileMode}`,
+        'unsupported_feature',
+        openCall.lineno,
+        openCall.col_offset
+      );
+    }
+
+    if (handle) {
+      this.context.fileHandles[handle] = fileName;
+    }
+    return this.createIRNode('statement', `OPENFILE ${fileName} FOR ${fileMode}`);
+  }
+
+  /**
+   * Get the readline() or read() call on an open file that a value reads, ignoring
+   * strip()/rstrip() around it
+   */
+  private getFileRead(value: ASTNode): ASTNode | null {
+    let call = value;
+    while (
+      call.type === 'Call' &&
+      call.func.type === 'Attribute' &&
+      ['strip', 'rstrip'].includes(call.func.attr) &&
+      call.func.value.type === 'Call'
+    ) {
+      call = call.func.value;
+    }
+    return this.isFileRead(call) ? call : null;
+  }
+
+  private isFileRead(node: ASTNode): boolean {
+    return (
+      node.type === 'Call' &&
+      node.func.type === 'Attribute' &&
+      ['readline', 'read'].includes(node.func.attr) &&
+      !!this.getOpenFileName(node.func.value)
+    );
+  }
+
+  /**
+   * Get the file name for a variable holding an open file
+   */
+  private getOpenFileName(node: ASTNode): string | undefined {
+    return node && node.type === 'Name' ? this.context.fileHandles[node.id] : undefined;
+  }
+
+  /**
+   * Create READFILE for `target = f.readline()`, ignoring strip()/rstrip() around the call
+   */
+  private createReadFile(value: ASTNode, target: string): IR | null {
+    const call = this.getFileRead(value);
+    if (!call) {
+      return null;
+    }
+    const fileName = this.getOpenFileName(call.func.value);
+
+    if (call.func.attr === 'read') {
+      this.addWarning(
+        `read() on line ${value.lineno} is converted to READFILE, which reads a single line`,
+        'unsupported_feature',
+        value.lineno,
+        value.col_offset
+      );
+    }
+
+    this.registerVariable(target, 'STRING', value.lineno);
+    return this.createIRNode('statement', `READFILE ${fileName}, ${target}`);
+  }
+
+  /**
+   * Create WRITEFILE / CLOSEFILE for f.write(x), print(x, file=f) and f.close()
+   */
+  private createFileOperation(call: ASTNode): IR | null {
+    if (call.func.type === 'Name' && call.func.id === 'print') {
+      const fileKeyword = call.keywords.find((keyword: ASTNode) => keyword.arg === 'file');
+      const fileName = fileKeyword && this.getOpenFileName(fileKeyword.value);
+      if (!fileName) {
+        return null;
+      }
+      const values = call.args.map((arg: ASTNode) => this.expressionVisitor.visitExpression(arg));
+      return this.createIRNode('statement', `WRITEFILE ${fileName}, ${values.join(' & " " & ')}`);
+    }
+
+    if (call.func.type !== 'Attribute') {
+      return null;
+    }
+    const fileName = this.getOpenFileName(call.func.value);
+    if (!fileName) {
+      return null;
+    }
+
+    switch (call.func.attr) {
+      case 'write':
+        return this.createIRNode(
+          'statement',
+          `WRITEFILE ${fileName}, ${this.expressionVisitor.visitExpression(this.withoutTrailingNewline(call.args[0]))}`
+        );
+      case 'close':
+        delete this.context.fileHandles[call.func.value.id];
+        return this.createIRNode('statement', `CLOSEFILE ${fileName}`);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * WRITEFILE writes a whole line, so a trailing "\n" in the written value is dropped
+   */
+  private withoutTrailingNewline(node: ASTNode): ASTNode {
+    if (node.type === 'Constant' && typeof node.value === 'string' && node.value.endsWith('\n')) {
+      return { ...node, value: node.value.slice(0, -1) };
+    }
+    if (
+      node.type === 'BinOp' &&
+      node.op.type === 'Add' &&
+      node.right.type === 'Constant' &&
+      node.right.value === '\n'
+    ) {
+      return node.left;
+    }
+    if (node.type === 'JoinedStr' && node.values.length > 0) {
+      const last = node.values[node.values.length - 1];
+      if (last.type === 'Constant' && typeof last.value === 'string' && last.value.endsWith('\n')) {
+        const values = [...node.values.slice(0, -1)];
+        if (last.value.length > 1) {
+          values.push({ ...last, value: last.value.slice(0, -1) });
+        }
+        return { ...node, values };
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Get the file name when iterating over the lines of an open file (`f` or `f.readlines()`)
+   */
+  private getFileNameForLines(iter: ASTNode): string | undefined {
+    if (
+      iter.type === 'Call' &&
+      iter.func.type === 'Attribute' &&
+      iter.func.attr === 'readlines' &&
+      iter.args.length === 0
+    ) {
+      return this.getOpenFileName(iter.func.value);
+    }
+    return this.getOpenFileName(iter);
+  }
+
+  /**
+   * Convert `for line in f` into a READFILE loop that runs until EOF
+   */
+  private handleFileFor(node: ASTNode, target: string, fileName: string): IR {
+    this.registerVariable(target, 'STRING', node.lineno);
+
+    this.enterScope('while', 'block');
+    this.increaseIndent();
+    const bodyChildren = [
+      this.createIRNode('statement', `READFILE ${fileName}, ${target}`),
+      ...node.body.map((child: ASTNode) =>
+        this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+      ),
+    ];
+    this.decreaseIndent();
+    this.exitScope();
+
+    bodyChildren.push(this.createIRNode('endwhile', 'ENDWHILE'));
+
+    return this.createIRNode('while', `WHILE NOT EOF(${fileName}) DO`, bodyChildren);
   }
 
   /**
@@ -666,20 +1945,287 @@ export class StatementVisitor extends BaseParser {
   /**
    * Process GLOBAL statements
    */
-  visitGlobal(_node: ASTNode): IR {
+  visitGlobal(node: ASTNode): IR {
+    // Assignments to these names do not create function locals
+    let scope = this.context.currentScope;
+    while (scope.parent && scope.type !== 'function') {
+      scope = scope.parent;
+    }
+    scope.globals = [...(scope.globals || []), ...node.names];
+
     return this.createIRNode('comment', `// global statement`);
   }
 
   /**
    * Process DELETE statements
    */
-  visitDelete(_node: ASTNode): IR {
+  visitDelete(node: ASTNode): IR {
+    // del items[i] on a static array shifts the later elements down
+    const deletions = node.targets.map((target: ASTNode) => {
+      const count =
+        target.type === 'Subscript' &&
+        target.value.type === 'Name' &&
+        target.slice.type !== 'Slice' &&
+        this.context.arrayInfo[target.value.id]?.count;
+      if (!count) {
+        return null;
+      }
+      const position = this.expressionVisitor.formatArrayIndex(target.slice, target.value);
+      return [
+        ...(position === count
+          ? []
+          : [this.createShiftDown(target.value.id, position, count, node.lineno)]),
+        this.createIRNode('assign', `${count} ← ${count} - 1`),
+      ];
+    });
+    if (deletions.length > 0 && deletions.every((deletion: IR[] | null) => deletion)) {
+      return this.createIRNode('block', '', deletions.flat());
+    }
     return this.createIRNode('comment', `// delete statement`);
   }
 
   // Helper methods
   private handleRangeFor(node: ASTNode, target: string): IR {
-    const args = node.iter.args;
+    this.registerVariable(target, 'INTEGER', node.lineno);
+    const forText = this.createRangeForText(node.iter, target);
+
+    this.enterScope('for', 'block');
+    this.increaseIndent();
+    const bodyChildren = node.body.map((child: ASTNode) =>
+      this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
+    );
+    this.decreaseIndent();
+    this.exitScope();
+
+    const nextIR = this.createIRNode('statement', `NEXT ${target}`);
+    bodyChildren.push(nextIR);
+
+    return this.createIRNode('for', forText, bodyChildren);
+  }
+
+  /**
+   * Rewrite break and continue when the structuredLoops option is set
+   */
+  private createStructuredLoop(node: ASTNode): IR | null {
+    if (!this.options.structuredLoops || !this.visitNode) {
+      return null;
+    }
+    const rewrite = new LoopRewriter(this.context.identifiers).rewrite(node);
+    if (!rewrite) {
+      return null;
+    }
+
+    rewrite.notes.forEach((note) => this.addWarning(note.message, 'structured_rewrite', note.line));
+    const children = rewrite.statements.map((statement) => this.visitNode!(statement));
+    return children.length === 1 ? children[0] : this.createIRNode('statement', '', children);
+  }
+
+  /**
+   * Rewrite `for item in items` as an index-based FOR loop that copies each element,
+   * `for i, item in enumerate(items)` as a FOR over the index and
+   * `for a, b in zip(xs, ys)` as one FOR copying from each list
+   */
+  private createForEach(node: ASTNode): IR | null {
+    const iter = node.iter;
+    const target = node.target;
+    const isNameTuple = (length: number) =>
+      target.type === 'Tuple' &&
+      target.elts.length === length &&
+      target.elts.every((elt: ASTNode) => elt.type === 'Name');
+    const isCall = (name: string) =>
+      iter.type === 'Call' && iter.func.type === 'Name' && iter.func.id === name;
+
+    let sources: { target: string; iterable: ASTNode; type?: string }[];
+    let counter: string | null = null;
+    // First value of the counter; generated counters start at 1
+    let first = 1;
+
+    if (isCall('enumerate') && iter.args.length >= 1 && isNameTuple(2)) {
+      const startNode =
+        iter.args[1] || iter.keywords.find((keyword: ASTNode) => keyword.arg === 'start')?.value;
+      if (startNode && !this.expressionVisitor.isNumericConstant(startNode)) {
+        return null;
+      }
+      counter = target.elts[0].id;
+      first = startNode ? this.expressionVisitor.getNumericValue(startNode) : 0;
+      sources = [
+        { target: target.elts[1].id, iterable: iter.args[0], type: target.elts[1].inferredType },
+      ];
+    } else if (isCall('zip') && iter.args.length >= 2 && isNameTuple(iter.args.length)) {
+      sources = iter.args.map((arg: ASTNode, index: number) => ({
+        target: target.elts[index].id,
+        iterable: arg,
+        type: target.elts[index].inferredType,
+      }));
+    } else if (
+      target.type === 'Name' &&
+      iter.type !== 'Name' &&
+      iter.type !== 'Constant' &&
+      this.expressionVisitor.isStringValue(iter) &&
+      this.visitNode
+    ) {
+      // A string computed by a call such as input() is stored once before the loop
+      const temporary = this.getTemporary('STRING', node.lineno, node);
+      const name: ASTNode = { type: 'Name', id: temporary.name, inferredType: 'STRING' };
+      return this.createIRNode('statement', '', [
+        ...(temporary.declaration ? [temporary.declaration] : []),
+        this.visitNode({
+          ...node,
+          type: 'Assign',
+          targets: [{ ...name, ctx: 'Store' }],
+          value: iter,
+        }),
+        this.visitNode({ ...node, iter: name }),
+      ]);
+    } else if (
+      target.type === 'Name' &&
+      ((iter.type === 'Name' && this.isIndexable(iter.id)) ||
+        this.expressionVisitor.isStringValue(iter))
+    ) {
+      sources = [{ target: target.id, iterable: iter, type: target.inferredType }];
+    } else {
+      return null;
+    }
+
+    if (!counter) {
+      // Counters of enclosing loops are in use; counters of earlier loops can be reused
+      const usedNames = new Set([...this.context.identifiers, ...this.activeCounters]);
+      counter = this.getUnusedName(['i', 'j', 'k', 'm', 'n'], usedNames);
+    }
+    this.registerVariable(counter, 'INTEGER', node.lineno);
+
+    // zip() stops at the end of the shortest list; static arrays end at their counter
+    const sizes = sources.map(({ iterable }) =>
+      iterable.type === 'Name' &&
+      this.context.arrayInfo[iterable.id] &&
+      !this.context.arrayInfo[iterable.id].count
+        ? this.context.arrayInfo[iterable.id].size
+        : null
+    );
+    let length =
+      (sources[0].iterable.type === 'Name' &&
+        this.context.arrayInfo[sources[0].iterable.id]?.count) ||
+      `LENGTH(${this.expressionVisitor.visitExpression(sources[0].iterable)})`;
+    if (sizes.every((size): size is number => size !== null)) {
+      length = Math.min(...sizes).toString();
+      if (new Set(sizes).size > 1) {
+        this.addWarning(
+          `zip() on line ${node.lineno} combines lists of different lengths; the loop stops after ${length} elements`,
+          'unsupported_feature',
+          node.lineno,
+          node.col_offset
+        );
+      }
+    } else if (sizes[0] !== null) {
+      length = sizes[0].toString();
+    }
+
+    const last = /^\d+$/.test(length)
+      ? (Number(length) + first - 1).toString()
+      : this.offsetText(length, first - 1);
+    const elementIndex = this.offsetText(counter, 1 - first);
+    const elements = sources.map(({ target: name, iterable, type }) => {
+      const value = this.expressionVisitor.visitExpression(iterable);
+      const isString = this.expressionVisitor.isStringValue(iterable);
+      const elementType =
+        type ||
+        (iterable.type === 'Name' && this.context.arrayInfo[iterable.id]?.elementType) ||
+        (isString ? 'CHAR' : DEFAULT_DATA_TYPE);
+      this.registerVariable(name, elementType as IGCSEDataType, node.lineno);
+      return {
+        name,
+        access: isString
+          ? this.expressionVisitor.formatSubstring(value, elementIndex, '1')
+          : `${value}[${elementIndex}]`,
+      };
+    });
+
+    this.enterScope('for', 'block');
+    this.increaseIndent();
+    this.activeCounters.push(counter);
+
+    // A target that is only printed is output directly from the array
+    const [single] = elements;
+    const printOnly = elements.length === 1 && this.isOnlyPrinted(node.body, single.name);
+    const children: IR[] = printOnly
+      ? []
+      : elements.map(({ name, access }) => this.createIRNode('assign', `${name} ← ${access}`));
+    node.body.forEach((child: ASTNode) => {
+      if (printOnly && this.isPrintOf(child, single.name)) {
+        children.push(this.createIRNode('output', `OUTPUT ${single.access}`));
+      } else {
+        children.push(
+          this.visitNode
+            ? this.visitNode(child)
+            : this.createIRNode('comment', '// Unprocessed node')
+        );
+      }
+    });
+
+    this.activeCounters.pop();
+    this.decreaseIndent();
+    this.exitScope();
+
+    children.push(this.createIRNode('statement', `NEXT ${counter}`));
+    return this.createIRNode('for', `FOR ${counter} ← ${first} TO ${last}`, children);
+  }
+
+  /**
+   * Check that a variable can be looped over by index; dictionaries and enumerations
+   * cannot
+   */
+  private isIndexable(name: string): boolean {
+    return (
+      !this.context.dictionaries.has(name) && !this.context.classDefinitions?.[name]?.enumMembers
+    );
+  }
+
+  /**
+   * Add a constant to a pseudocode expression: (n, -1) → n - 1
+   */
+  private offsetText(text: string, offset: number): string {
+    if (offset === 0) return text;
+    return offset > 0 ? `${text} + ${offset}` : `${text} - ${-offset}`;
+  }
+
+  private isPrintOf(node: ASTNode, name: string): boolean {
+    return (
+      node.type === 'Expr' &&
+      node.value.type === 'Call' &&
+      node.value.func.type === 'Name' &&
+      node.value.func.id === 'print' &&
+      node.value.args.length === 1 &&
+      node.value.keywords.length === 0 &&
+      node.value.args[0].type === 'Name' &&
+      node.value.args[0].id === name
+    );
+  }
+
+  /**
+   * Check whether a name is used only as `print(name)` statements directly in a loop body
+   */
+  private isOnlyPrinted(body: ASTNode[], name: string): boolean {
+    const printed = body.filter((statement) => this.isPrintOf(statement, name));
+    const others = body.filter((statement) => !this.isPrintOf(statement, name));
+    return printed.length > 0 && !this.collectIdentifiers(others).has(name);
+  }
+
+  /**
+   * First candidate name not in use, else a numbered `index`
+   */
+  private getUnusedName(candidates: string[], usedNames: Set<string>): string {
+    const name = candidates.find((candidate) => !usedNames.has(candidate));
+    if (name) return name;
+    let suffix = 1;
+    while (usedNames.has(`index${suffix > 1 ? suffix : ''}`)) suffix++;
+    return `index${suffix > 1 ? suffix : ''}`;
+  }
+
+  /**
+   * Build the FOR header for iteration over range()
+   */
+  private createRangeForText(rangeCall: ASTNode, target: string): string {
+    const args = rangeCall.args;
     let startValue = '0';
     let endValue = '0';
     let stepValue = '1';
@@ -737,23 +2283,9 @@ export class StatementVisitor extends BaseParser {
       }
     }
 
-    const forText =
-      stepValue === '1'
-        ? `FOR ${target} ← ${startValue} TO ${endValue}`
-        : `FOR ${target} ← ${startValue} TO ${endValue} STEP ${stepValue}`;
-
-    this.enterScope('for', 'block');
-    this.increaseIndent();
-    const bodyChildren = node.body.map((child: ASTNode) =>
-      this.visitNode ? this.visitNode(child) : this.createIRNode('comment', '// Unprocessed node')
-    );
-    this.decreaseIndent();
-    this.exitScope();
-
-    const nextIR = this.createIRNode('statement', `NEXT ${target}`);
-    bodyChildren.push(nextIR);
-
-    return this.createIRNode('for', forText, bodyChildren);
+    return stepValue === '1'
+      ? `FOR ${target} ← ${startValue} TO ${endValue}`
+      : `FOR ${target} ← ${startValue} TO ${endValue} STEP ${stepValue}`;
   }
 
   private handleArrayInitialization(node: ASTNode): IR {
@@ -761,59 +2293,87 @@ export class StatementVisitor extends BaseParser {
     const elements = node.value.elts;
     const size = elements.length;
 
-    // Reconstruct string-split elements to detect object calls
-    const reconstructedElements = this.reconstructObjectCalls(elements);
-
-    // Determine if it's an array of objects
+    // Every element constructs an object of the same class
+    const className =
+      elements[0]?.type === 'Call' && elements[0].func.type === 'Name'
+        ? elements[0].func.id
+        : undefined;
+    const classDefinition = className ? this.context.classDefinitions?.[className] : undefined;
     const isObjectArray =
-      reconstructedElements.length > 0 && this.isObjectCall(reconstructedElements[0]);
+      className &&
+      classDefinition &&
+      elements.every(
+        (element: ASTNode) =>
+          element.type === 'Call' && element.func.type === 'Name' && element.func.id === className
+      );
 
     if (isObjectArray) {
-      // For object arrays
-      const firstCall = reconstructedElements[0];
-      const className = this.extractClassName(firstCall);
-      const recordTypeName = `${className}Record`;
-
-      const children: IR[] = [];
-
-      // Array declaration (using actual element count)
-      const actualSize = reconstructedElements.length;
-      const declText = `DECLARE ${target} : ARRAY[1:${actualSize}] OF ${recordTypeName}`;
-      children.push(this.createIRNode('statement', declText));
+      // Records are filled in field by field, objects of other classes created with NEW
+      const elementType = classDefinition.isRecord ? this.getRecordTypeName(className) : className;
+      const children: IR[] = [
+        this.createIRNode('statement', `DECLARE ${target} : ARRAY[1:${size}] OF ${elementType}`),
+      ];
 
       // Record array size information in context
       if (this.context && this.context.arrayInfo) {
         this.context.arrayInfo[target] = {
-          size: actualSize,
-          elementType: recordTypeName,
+          size: size,
+          elementType: elementType,
           currentIndex: 0,
         };
       }
 
-      // Process each element
-      reconstructedElements.forEach((elementStr: string, index: number) => {
-        const args = this.extractArguments(elementStr);
-        // Need to get actual field names from class definition, but
-        // Currently simplified to handle Point class as x, y
-        if (className === 'Point' && args.length >= 2) {
-          children.push(this.createIRNode('assign', `${target}[${index + 1}].x ← ${args[0]}`));
-          children.push(this.createIRNode('assign', `${target}[${index + 1}].y ← ${args[1]}`));
+      elements.forEach((element: ASTNode, index: number) => {
+        const elementTarget = `${target}[${index + 1}]`;
+        if (classDefinition.isRecord) {
+          children.push(
+            ...this.createFieldAssignments(
+              elementTarget,
+              className,
+              element.args,
+              element.keywords ?? []
+            )
+          );
         } else {
-          // Generic handling for other classes
-          args.forEach((arg: string, argIndex: number) => {
-            const fieldName = `field${argIndex + 1}`; // Temporary field name
-            children.push(
-              this.createIRNode('assign', `${target}[${index + 1}].${fieldName} ← ${arg}`)
-            );
-          });
+          const value = this.expressionVisitor.visitExpression(element);
+          children.push(this.createIRNode('assign', `${elementTarget} ← ${value}`));
         }
       });
 
       return this.createIRNode('statement', '', children);
+    } else if (
+      elements.length > 0 &&
+      elements.every(
+        (element: ASTNode) =>
+          element.type === 'List' &&
+          element.elts.length > 0 &&
+          element.elts.length === elements[0].elts.length
+      )
+    ) {
+      // Nested lists of equal length form a 2D array
+      const columns = elements[0].elts.length;
+      const elementType = this.expressionVisitor.inferTypeFromValue(elements[0].elts[0]);
+      const declText = `DECLARE ${target} : ARRAY[1:${size}, 1:${columns}] OF ${elementType}`;
+      this.context.arrayBounds[target] = [String(size), String(columns)];
+      const assignments = elements.flatMap((row: ASTNode, rowIndex: number) =>
+        row.elts.map((element: ASTNode, columnIndex: number) =>
+          this.createIRNode(
+            'assign',
+            `${target}[${rowIndex + 1}, ${columnIndex + 1}] ← ${this.expressionVisitor.visitExpression(element)}`
+          )
+        )
+      );
+
+      return this.createIRNode('statement', '', [
+        this.createIRNode('array', declText),
+        ...assignments,
+      ]);
     } else {
       // For normal arrays
       const elementType =
-        elements.length > 0 ? this.expressionVisitor.inferTypeFromValue(elements[0]) : 'STRING';
+        elements.length > 0
+          ? this.expressionVisitor.inferTypeFromValue(elements[0])
+          : DEFAULT_DATA_TYPE;
 
       // Array declaration
       const declText = `DECLARE ${target} : ARRAY[1:${size}] OF ${elementType}`;
@@ -840,65 +2400,588 @@ export class StatementVisitor extends BaseParser {
     }
   }
 
-  private reconstructObjectCalls(elements: ASTNode[]): string[] {
-    const result: string[] = [];
-    let i = 0;
+  /**
+   * Declare a list changed by list operations as a fixed-size array with a length counter
+   * (static-array mode). The capacity comes from a `# igcse: size=50` hint, an
+   * `Annotated[list[int], 50]` annotation or the configured default
+   */
+  private createStaticArray(
+    node: ASTNode,
+    target: ASTNode,
+    value: ASTNode,
+    annotation?: ASTNode
+  ): IR | null {
+    const hint = /igcse:\s*size\s*=\s*(\d+)/.exec(node.inlineComment ?? '');
+    if (
+      !this.options.staticArrays ||
+      target.type !== 'Name' ||
+      value?.type !== 'List' ||
+      value.elts.some((element: ASTNode) => element.type === 'List') ||
+      !(hint || Object.prototype.hasOwnProperty.call(this.context.dynamicLists, target.id))
+    ) {
+      return null;
+    }
+
+    const name = target.id;
+    let listAnnotation = annotation;
+    let capacity = this.options.arrayCapacity ?? 100;
+    if (
+      annotation?.type === 'Subscript' &&
+      annotation.value.type === 'Name' &&
+      annotation.value.id === 'Annotated' &&
+      annotation.slice.type === 'Tuple'
+    ) {
+      const [annotated, ...metadata] = annotation.slice.elts;
+      listAnnotation = annotated;
+      const size = metadata.find((item: ASTNode) => this.expressionVisitor.isNumericConstant(item));
+      if (size) {
+        capacity = this.expressionVisitor.getNumericValue(size);
+      }
+    }
+    if (hint) {
+      capacity = Number(hint[1]);
+    }
+    capacity = Math.max(capacity, value.elts.length);
 
-    while (i < elements.length) {
-      const element = elements[i];
-      if (element.type === 'Name' && element.id) {
-        const elementStr = element.id;
+    const elementType =
+      (listAnnotation && this.isListTypeAnnotation(listAnnotation)
+        ? this.extractListElementType(listAnnotation)
+        : null) ??
+      (value.elts.length > 0 ? this.expressionVisitor.inferTypeFromValue(value.elts[0]) : null) ??
+      this.context.dynamicLists[name] ??
+      DEFAULT_DATA_TYPE;
 
-        // Detect class name pattern (starts with uppercase, ends with parentheses)
-        if (/^[A-Z]\w*\(/.test(elementStr)) {
-          // Combine with next element to reconstruct object call
-          let objectCall = elementStr;
-          i++;
+    // A list emptied again by name = [] keeps its declaration and counter
+    const children: IR[] = [];
+    let count = this.context.arrayInfo[name]?.count;
+    if (!count) {
+      count = this.getUnusedName([`${name}Count`, `${name}Length`], this.context.identifiers);
+      this.context.identifiers.add(count);
+      children.push(
+        this.createIRNode('array', `DECLARE ${name} : ARRAY[1:${capacity}] OF ${elementType}`),
+        this.createIRNode('statement', `DECLARE ${count} : INTEGER`)
+      );
+      this.context.arrayInfo[name] = { size: capacity, elementType, currentIndex: 0, count };
+    }
+    this.registerVariable(count, 'INTEGER', node.lineno);
 
-          // Join elements until closing parenthesis is found
-          while (i < elements.length && !objectCall.includes(')')) {
-            const nextElement = elements[i];
-            if (nextElement.type === 'Name' && nextElement.id) {
-              objectCall += ', ' + nextElement.id;
-            }
-            i++;
-          }
+    value.elts.forEach((element: ASTNode, index: number) => {
+      children.push(...this.createElementAssignments(`${name}[${index + 1}]`, element));
+    });
+    children.push(this.createIRNode('assign', `${count} ← ${value.elts.length}`));
+    return this.createIRNode('statement', '', children);
+  }
 
-          result.push(objectCall);
-        } else {
-          result.push(elementStr);
-          i++;
+  /**
+   * Expand append, pop, insert and remove on a static array into assignments to its
+   * elements and counter, with FOR loops shifting the elements after the position
+   * changed; `target` is assigned the element taken off by pop
+   */
+  private createListOperation(call: ASTNode, target?: string): IR | null {
+    if (
+      call?.type !== 'Call' ||
+      call.func.type !== 'Attribute' ||
+      call.func.value.type !== 'Name' ||
+      call.keywords.length > 0
+    ) {
+      return null;
+    }
+    const name = call.func.value.id;
+    const arrayInfo = this.context.arrayInfo[name];
+    const count = arrayInfo?.count;
+    if (!count) {
+      return null;
+    }
+
+    const args: ASTNode[] = call.args;
+    const assign = (text: string) => this.createIRNode('assign', text);
+    const visit = (arg: ASTNode) => this.expressionVisitor.visitExpression(arg);
+    const getPosition = (index: ASTNode) =>
+      this.expressionVisitor.formatArrayIndex(index, call.func.value);
+
+    switch (`${call.func.attr}/${args.length}`) {
+      case 'append/1':
+        if (target) return null;
+        return this.createIRNode('block', '', [
+          assign(`${count} ← ${count} + 1`),
+          ...this.createElementAssignments(`${name}[${count}]`, args[0]),
+        ]);
+
+      case 'insert/2': {
+        if (target) return null;
+        const position = getPosition(args[0]);
+        const counter = this.getShiftCounter(call.lineno);
+        return this.createIRNode('block', '', [
+          this.createIRNode('for', `FOR ${counter} ← ${count} TO ${position} STEP -1`, [
+            assign(`${name}[${counter} + 1] ← ${name}[${counter}]`),
+            this.createIRNode('statement', `NEXT ${counter}`),
+          ]),
+          ...this.createElementAssignments(`${name}[${position}]`, args[1]),
+          assign(`${count} ← ${count} + 1`),
+        ]);
+      }
+
+      case 'pop/0':
+      case 'pop/1': {
+        const position = args.length === 0 ? count : getPosition(args[0]);
+        const children: IR[] = [];
+        if (target) {
+          this.registerVariable(target, arrayInfo.elementType as IGCSEDataType, call.lineno);
+          children.push(assign(`${target} ← ${name}[${position}]`));
+        }
+        if (position !== count) {
+          children.push(this.createShiftDown(name, position, count, call.lineno));
         }
+        children.push(assign(`${count} ← ${count} - 1`));
+        return this.createIRNode('block', '', children);
+      }
+
+      case 'remove/1': {
+        if (target) return null;
+        // Find the first matching element, then close the gap it leaves
+        const position = this.getUnusedName(['position', 'pos'], this.context.identifiers);
+        this.context.identifiers.add(position);
+        this.registerVariable(position, 'INTEGER', call.lineno);
+        const lessOrEqual = this.expressionVisitor.convertCompareOperator({ type: 'LtE' });
+        const notEqual = this.expressionVisitor.convertCompareOperator({ type: 'NotEq' });
+        const condition =
+          `${position} ${lessOrEqual} ${count} AND ` +
+          `${name}[${position}] ${notEqual} ${visit(args[0])}`;
+        return this.createIRNode('block', '', [
+          assign(`${position} ← 1`),
+          this.createIRNode('while', `WHILE ${condition} DO`, [
+            assign(`${position} ← ${position} + 1`),
+            this.createIRNode('endwhile', 'ENDWHILE'),
+          ]),
+          this.createShiftDown(name, position, count, call.lineno),
+          assign(`${count} ← ${count} - 1`),
+        ]);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Assign a value to an array element; a record constructed in place is filled in
+   * field by field
+   */
+  private createElementAssignments(element: string, value: ASTNode): IR[] {
+    const className =
+      value.type === 'Call' && value.func.type === 'Name' ? value.func.id : undefined;
+    if (className && this.context.classDefinitions?.[className]?.isRecord) {
+      return this.createFieldAssignments(element, className, value.args, value.keywords ?? []);
+    }
+    const text = `${element} ← ${this.expressionVisitor.visitExpression(value)}`;
+    return [this.createIRNode('assign', text)];
+  }
+
+  /**
+   * Move the elements after a position of a static array down by one
+   */
+  private createShiftDown(name: string, position: string, count: string, line?: number): IR {
+    const counter = this.getShiftCounter(line);
+    return this.createIRNode('for', `FOR ${counter} ← ${position} TO ${count} - 1`, [
+      this.createIRNode('assign', `${name}[${counter}] ← ${name}[${counter} + 1]`),
+      this.createIRNode('statement', `NEXT ${counter}`),
+    ]);
+  }
+
+  private getShiftCounter(line?: number): string {
+    const usedNames = new Set([...this.context.identifiers, ...this.activeCounters]);
+    const counter = this.getUnusedName(['i', 'j', 'k', 'm', 'n'], usedNames);
+    this.registerVariable(counter, 'INTEGER', line);
+    return counter;
+  }
+
+  /**
+   * Convert arrays filled with one value, `[0] * 5` or `[[0] * 5 for _ in range(3)]`,
+   * into a declaration and nested FOR loops that set every element
+   */
+  private createFilledArray(target: string, valueNode: ASTNode): IR | null {
+    const dimensions = this.getFilledArrayDimensions(valueNode);
+    // A single [v for x in range(n)] is left to the comprehension expansion
+    if (
+      !dimensions ||
+      dimensions.sizes.length > 2 ||
+      (valueNode.type === 'ListComp' && dimensions.sizes.length === 1)
+    ) {
+      return null;
+    }
+
+    const { sizes, loopVariables, value } = dimensions;
+    // Counters must not overwrite the program's own variables
+    const usedNames = new Set([
+      ...this.context.identifiers,
+      ...this.activeCounters,
+      target,
+      ...loopVariables.filter((name): name is string => !!name),
+    ]);
+    const indexes: string[] = [];
+    const loops: string[] = [];
+    const loopNames: string[] = [];
+
+    sizes.forEach((size, dimension) => {
+      const loopVariable = loopVariables[dimension];
+      if (loopVariable && loopVariable !== '_') {
+        // The value may use the loop variable, so keep its 0-based range
+        loops.push(this.createRangeForText(dimensions.ranges[dimension]!, loopVariable));
+        indexes.push(`${loopVariable} + 1`);
+        loopNames.push(loopVariable);
       } else {
-        result.push(this.expressionVisitor.visitExpression(element));
-        i++;
+        const index = this.getUnusedName(['i', 'j', 'k', 'm', 'n'], usedNames);
+        usedNames.add(index);
+        loops.push(`FOR ${index} ← 1 TO ${this.expressionVisitor.visitExpression(size)}`);
+        indexes.push(index);
+        loopNames.push(index);
       }
+      this.registerVariable(loopNames[dimension], 'INTEGER', valueNode.lineno);
+    });
+
+    const elementType = this.expressionVisitor.inferTypeFromValue(value);
+    const bounds = sizes.map((size) => `1:${this.expressionVisitor.visitExpression(size)}`);
+    if (sizes.length === 2) {
+      this.context.arrayBounds[target] = sizes.map((size) =>
+        this.expressionVisitor.visitExpression(size)
+      );
+    }
+    if (sizes.length === 1 && this.expressionVisitor.isNumericConstant(sizes[0])) {
+      this.context.arrayInfo[target] = {
+        size: this.expressionVisitor.getNumericValue(sizes[0]),
+        elementType,
+        currentIndex: 0,
+      };
+    }
+
+    let body: IR[] = [
+      this.createIRNode(
+        'assign',
+        `${target}[${indexes.join(', ')}] ← ${this.expressionVisitor.visitExpression(value)}`
+      ),
+    ];
+    for (let dimension = sizes.length - 1; dimension >= 0; dimension--) {
+      body = [
+        this.createIRNode('for', loops[dimension], [
+          ...body,
+          this.createIRNode('statement', `NEXT ${loopNames[dimension]}`),
+        ]),
+      ];
     }
 
-    return result;
+    return this.createIRNode('statement', '', [
+      this.createIRNode(
+        'array',
+        `DECLARE ${target} : ARRAY[${bounds.join(', ')}] OF ${elementType}`
+      ),
+      ...body,
+    ]);
   }
 
-  private isObjectCall(elementStr: string): boolean {
-    // Detect ClassName(arguments) pattern
-    return /^[A-Z]\w*\(.+\)$/.test(elementStr);
+  /**
+   * Find the sizes, loop variables and fill value of `[v] * n` and
+   * `[... for x in range(n)]`, outermost dimension first
+   */
+  private getFilledArrayDimensions(node: ASTNode): {
+    sizes: ASTNode[];
+    ranges: (ASTNode | null)[];
+    loopVariables: (string | null)[];
+    value: ASTNode;
+  } | null {
+    let size: ASTNode;
+    let range: ASTNode | null = null;
+    let loopVariable: string | null = null;
+    let element: ASTNode;
+
+    if (node.type === 'BinOp' && node.op.type === 'Mult') {
+      // [v] * n or n * [v]
+      const [list, count] =
+        node.left.type === 'List' ? [node.left, node.right] : [node.right, node.left];
+      if (list.type !== 'List' || list.elts.length !== 1) {
+        return null;
+      }
+      size = count;
+      element = list.elts[0];
+    } else if (
+      node.type === 'ListComp' &&
+      node.generators.length === 1 &&
+      node.generators[0].ifs.length === 0 &&
+      node.generators[0].target.type === 'Name' &&
+      node.generators[0].iter.type === 'Call' &&
+      node.generators[0].iter.func.type === 'Name' &&
+      node.generators[0].iter.func.id === 'range' &&
+      node.generators[0].iter.args.length === 1
+    ) {
+      range = node.generators[0].iter;
+      size = range!.args[0];
+      loopVariable = node.generators[0].target.id;
+      element = node.elt;
+    } else {
+      return null;
+    }
+
+    const inner = this.getFilledArrayDimensions(element);
+    if (inner) {
+      return {
+        sizes: [size, ...inner.sizes],
+        ranges: [range, ...inner.ranges],
+        loopVariables: [loopVariable, ...inner.loopVariables],
+        value: inner.value,
+      };
+    }
+
+    // Every element must be a separate value, not a shared list
+    if (['List', 'ListComp', 'Dict', 'Set'].includes(element.type)) {
+      return null;
+    }
+    return { sizes: [size], ranges: [range], loopVariables: [loopVariable], value: element };
   }
 
-  private extractClassName(objectCall: string): string {
-    const match = objectCall.match(/^([A-Z]\w*)\(/);
-    return match ? match[1] : 'Unknown';
+  /**
+   * Expand `result = [elt for x in iter if cond]` into a counter and FOR loops
+   */
+  private handleListComprehension(node: ASTNode): IR {
+    const target = node.targets[0].id;
+    const comprehension = this.renameComprehensionTargets(node.value);
+    const generators: ASTNode[] = comprehension.generators;
+
+    // Lists of lists and tuple targets need more than one array index
+    if (
+      ['ListComp', 'SetComp', 'DictComp', 'GeneratorExp'].includes(comprehension.elt.type) ||
+      generators.some((generator) => generator.target.type !== 'Name')
+    ) {
+      return this.createUnsupportedComprehension(comprehension);
+    }
+
+    // Generated names must not overwrite the program's own variables
+    const counter = this.getUnusedName(
+      [`${target}Count`, `${target}Length`, `${target}Size`],
+      this.context.identifiers
+    );
+    this.context.identifiers.add(counter);
+    const usedNames = [
+      ...this.context.identifiers,
+      ...this.activeCounters,
+      target,
+      ...generators.map((generator) => generator.target.id),
+    ];
+    const loopVariableTypes: { [name: string]: string } = {};
+
+    const sizes = generators.map((generator) => {
+      const iter = generator.iter;
+      if (iter.type === 'Call' && iter.func.type === 'Name' && iter.func.id === 'range') {
+        loopVariableTypes[generator.target.id] = 'INTEGER';
+        return this.getRangeLength(iter);
+      }
+      if (iter.type === 'Name' && this.context.arrayInfo[iter.id]) {
+        loopVariableTypes[generator.target.id] = this.context.arrayInfo[iter.id].elementType;
+        return this.context.arrayInfo[iter.id].size.toString();
+      }
+      return `LENGTH(${this.expressionVisitor.visitExpression(iter)})`;
+    });
+    const size = sizes.every((value) => /^\d+$/.test(value))
+      ? sizes.reduce((product, value) => product * Number(value), 1).toString()
+      : sizes.map((value) => (/^[\w.()]+$/.test(value) ? value : `(${value})`)).join(' * ');
+
+    const elt = comprehension.elt;
+    const elementType =
+      elt.type === 'Name' && loopVariableTypes[elt.id]
+        ? loopVariableTypes[elt.id]
+        : this.expressionVisitor.inferTypeFromValue(elt);
+
+    this.registerVariable(counter, 'INTEGER', node.lineno);
+    generators.forEach((generator) => {
+      const type = loopVariableTypes[generator.target.id] || DEFAULT_DATA_TYPE;
+      this.registerVariable(generator.target.id, type as IGCSEDataType, node.lineno);
+    });
+
+    if (/^\d+$/.test(size)) {
+      this.context.arrayInfo[target] = {
+        size: Number(size),
+        elementType,
+        currentIndex: 0,
+      };
+    }
+
+    const declIR = this.createIRNode(
+      'array',
+      `DECLARE ${target} : ARRAY[1:${size}] OF ${elementType}`
+    );
+    const counterDeclIR = this.createIRNode('statement', `DECLARE ${counter} : INTEGER`);
+    const counterInitIR = this.createIRNode('assign', `${counter} ← 0`);
+    const loopIR = this.createComprehensionLoop(generators, 0, usedNames, () => [
+      this.createIRNode('assign', `${counter} ← ${counter} + 1`),
+      this.createIRNode(
+        'assign',
+        `${target}[${counter}] ← ${this.expressionVisitor.visitExpression(elt)}`
+      ),
+    ]);
+
+    return this.createIRNode('statement', '', [declIR, counterDeclIR, counterInitIR, loopIR]);
   }
 
-  private extractArguments(objectCall: string): string[] {
-    const match = objectCall.match(/\((.+)\)$/);
-    if (match) {
-      return match[1].split(',').map((arg) => arg.trim());
+  /**
+   * Create the FOR loop for one comprehension clause, nesting the remaining clauses inside
+   */
+  private createComprehensionLoop(
+    generators: ASTNode[],
+    position: number,
+    usedNames: string[],
+    createBody: () => IR[]
+  ): IR {
+    const generator = generators[position];
+    const target = generator.target.id;
+    const iter = generator.iter;
+
+    this.enterScope('for', 'block');
+    this.increaseIndent();
+
+    let forText: string;
+    let loopVariable = target;
+    const children: IR[] = [];
+
+    if (iter.type === 'Call' && iter.func.type === 'Name' && iter.func.id === 'range') {
+      forText = this.createRangeForText(iter, target);
+    } else {
+      // Other iterables are walked by index and the element copied into the target
+      loopVariable = this.getUnusedName(['i', 'j', 'k', 'm', 'n'], new Set(usedNames));
+      usedNames.push(loopVariable);
+      this.registerVariable(loopVariable, 'INTEGER', iter.lineno);
+      const iterable = this.expressionVisitor.visitExpression(iter);
+      const length =
+        iter.type === 'Name' && this.context.arrayInfo[iter.id]
+          ? this.context.arrayInfo[iter.id].size.toString()
+          : `LENGTH(${iterable})`;
+      forText = `FOR ${loopVariable} ← 1 TO ${length}`;
+      children.push(this.createIRNode('assign', `${target} ← ${iterable}[${loopVariable}]`));
+    }
+
+    let body: IR[];
+    if (generator.ifs.length > 0) {
+      const condition = generator.ifs
+        .map((test: ASTNode) => this.expressionVisitor.visitExpression(test))
+        .join(' AND ');
+      this.enterScope('if', 'block');
+      this.increaseIndent();
+      body = [
+        this.createIRNode(
+          'if',
+          `IF ${condition} THEN`,
+          this.createComprehensionBody(generators, position, usedNames, createBody)
+        ),
+      ];
+      this.decreaseIndent();
+      this.exitScope();
+    } else {
+      body = this.createComprehensionBody(generators, position, usedNames, createBody);
+    }
+
+    this.decreaseIndent();
+    this.exitScope();
+
+    children.push(...body, this.createIRNode('statement', `NEXT ${loopVariable}`));
+    return this.createIRNode('for', forText, children);
+  }
+
+  /**
+   * The variables of a comprehension are local to it in Python 3, so one that shadows
+   * a variable of the program is renamed (x → x2) rather than overwriting it
+   */
+  private renameComprehensionTargets(comprehension: ASTNode): ASTNode {
+    let renamed = comprehension;
+    comprehension.generators.forEach((generator: ASTNode, position: number) => {
+      const name = generator.target.type === 'Name' ? generator.target.id : undefined;
+      if (!name || !this.findVariable(name)) {
+        return;
+      }
+      const suffixes = [2, 3, 4, 5].map((suffix) => `${name}${suffix}`);
+      const newName = this.getUnusedName(suffixes, this.context.identifiers);
+      this.context.identifiers.add(newName);
+      const rename = (expression: ASTNode) =>
+        this.replaceExpression(
+          expression,
+          { type: 'Name', id: name, ctx: 'Load' },
+          { type: 'Name', id: newName, ctx: 'Load' }
+        );
+      renamed = {
+        ...renamed,
+        elt: rename(renamed.elt),
+        generators: renamed.generators.map((other: ASTNode, index: number) => ({
+          ...other,
+          target: index === position ? { ...other.target, id: newName } : other.target,
+          iter: index > position ? rename(other.iter) : other.iter,
+          ifs: index >= position ? other.ifs.map(rename) : other.ifs,
+        })),
+      };
+    });
+    return renamed;
+  }
+
+  private createComprehensionBody(
+    generators: ASTNode[],
+    position: number,
+    usedNames: string[],
+    createBody: () => IR[]
+  ): IR[] {
+    return position + 1 < generators.length
+      ? [this.createComprehensionLoop(generators, position + 1, usedNames, createBody)]
+      : createBody();
+  }
+
+  /**
+   * Number of values produced by a range() call, as pseudocode text
+   */
+  private getRangeLength(rangeCall: ASTNode): string {
+    const args: ASTNode[] = rangeCall.args;
+    if (args.length === 1) {
+      return this.expressionVisitor.visitExpression(args[0]);
+    }
+
+    if (args.every((arg) => this.expressionVisitor.isNumericConstant(arg))) {
+      const [start, end, step = 1] = args.map((arg) => this.expressionVisitor.getNumericValue(arg));
+      return Math.max(0, Math.ceil((end - start) / step)).toString();
+    }
+
+    const start = this.expressionVisitor.visitExpression(args[0]);
+    const end = this.expressionVisitor.visitExpression(args[1]);
+    return `${end} - ${start}`;
+  }
+
+  /**
+   * Report a comprehension that has no IGCSE equivalent
+   */
+  private createUnsupportedComprehension(node: ASTNode): IR {
+    const description = this.describeComprehension(node);
+    this.addWarning(
+      `${description} on line ${node.lineno} cannot be converted to IGCSE pseudocode`,
+      'unsupported_feature',
+      node.lineno,
+      node.col_offset
+    );
+    return this.createIRNode(
+      'comment',
+      `// Unsupported ${description.toLowerCase()} (line ${node.lineno})`
+    );
+  }
+
+  private describeComprehension(node: ASTNode): string {
+    switch (node.type) {
+      case 'SetComp':
+        return 'Set comprehension';
+      case 'DictComp':
+        return 'Dictionary comprehension';
+      case 'GeneratorExp':
+        return 'Generator expression';
+      default:
+        return 'List comprehension';
     }
-    return [];
   }
 
   private isClassInstantiation(node: ASTNode): boolean {
     // Simple judgment: treat as class if function name starts with uppercase
     if (node.func.type === 'Name') {
+      // Day(2) finds a member of an enumeration rather than creating an object
+      if (this.context.classDefinitions?.[node.func.id]?.enumMembers) {
+        return false;
+      }
       const isClass = /^[A-Z]/.test(node.func.id);
       console.log(`DEBUG: Checking if ${node.func.id} is class: ${isClass}`);
       return isClass;
@@ -912,14 +2995,40 @@ export class StatementVisitor extends BaseParser {
     const target = this.expressionVisitor.visitExpression(node.targets[0]);
     const args = node.value.args.map((arg: ASTNode) => this.expressionVisitor.visitExpression(arg));
 
+    // Objects of classes with methods are created with NEW
+    if (this.context.classDefinitions?.[className]?.isRecord === false) {
+      if (node.targets[0].type === 'Name') {
+        this.registerVariable(target, className as IGCSEDataType, node.lineno);
+      }
+      const value = this.expressionVisitor.visitExpression(node.value);
+      return this.createIRNode('assign', `${target} ← ${value}`);
+    }
+
     // When treating as record type, generate variable declaration and field assignments
-    const recordTypeName = `${className}Record`;
+    const recordTypeName = this.getRecordTypeName(className);
     const children: IR[] = [];
 
-    // Variable declaration
-    const declareText = `DECLARE ${target} : ${recordTypeName}`;
-    console.log('DEBUG: Adding declaration:', declareText);
-    children.push(this.createIRNode('statement', declareText));
+    // Variable declaration; an element or field being assigned is already declared
+    if (node.targets[0].type === 'Name') {
+      const declareText = `DECLARE ${target} : ${recordTypeName}`;
+      console.log('DEBUG: Adding declaration:', declareText);
+      children.push(this.createIRNode('statement', declareText));
+    }
+
+    if (this.context.classDefinitions?.[className]?.fields) {
+      if (node.targets[0].type === 'Name') {
+        this.registerVariable(target, recordTypeName as IGCSEDataType, node.lineno);
+      }
+      children.push(
+        ...this.createFieldAssignments(
+          target,
+          className,
+          node.value.args,
+          node.value.keywords ?? []
+        )
+      );
+      return this.createIRNode('block', '', children);
+    }
 
     // Get attribute names from class definition
     const classAttributes = this.getClassAttributes(className);
@@ -937,25 +3046,68 @@ export class StatementVisitor extends BaseParser {
     return this.createIRNode('block', '', children);
   }
 
-  private convertOperator(op: ASTNode): string {
-    switch (op.type) {
-      case 'Add':
-        return '+';
-      case 'Sub':
-        return '-';
-      case 'Mult':
-        return '*';
-      case 'Div':
-        return '/';
-      case 'FloorDiv':
-        return 'DIV';
-      case 'Mod':
-        return 'MOD';
-      case 'Pow':
-        return '^';
-      default:
-        return '+';
+  /**
+   * Assign each field of a record constructed with the given arguments: parameters take
+   * positional arguments, then keywords, then their defaults
+   */
+  private createFieldAssignments(
+    target: string,
+    className: string,
+    args: ASTNode[],
+    keywords: ASTNode[]
+  ): IR[] {
+    const { parameters = [], fields = [] } = this.context.classDefinitions?.[className] ?? {};
+    const bound = new Map<string, ASTNode>();
+    parameters.forEach((parameter: { name: string; value: ASTNode | null }, index: number) => {
+      const value =
+        args[index] ??
+        keywords.find((keyword: ASTNode) => keyword.arg === parameter.name)?.value ??
+        parameter.value;
+      if (value) {
+        bound.set(parameter.name, value);
+      }
+    });
+
+    const assignments: IR[] = [];
+    for (const field of fields as Array<{ name: string; value: ASTNode }>) {
+      const valueNode = this.bindParameters(field.value, parameters, bound);
+      if (valueNode) {
+        const value = this.expressionVisitor.visitExpression(valueNode);
+        assignments.push(this.createIRNode('assign', `${target}.${field.name} ← ${value}`));
+      }
     }
+    return assignments;
+  }
+
+  /**
+   * Replace the parameters used in a field value with the arguments bound to them;
+   * null when a parameter has no argument
+   */
+  private bindParameters(
+    value: ASTNode,
+    parameters: Array<{ name: string }>,
+    bound: Map<string, ASTNode>
+  ): ASTNode | null {
+    const names = new Set(parameters.map((parameter) => parameter.name));
+    let unbound = false;
+    const substitute = (child: unknown): unknown => {
+      if (Array.isArray(child)) {
+        return child.map(substitute);
+      }
+      if (!child || typeof child !== 'object') {
+        return child;
+      }
+      const node = child as ASTNode;
+      if (node.type === 'Name' && names.has(node.id)) {
+        unbound ||= !bound.has(node.id);
+        return bound.get(node.id) ?? node;
+      }
+      return Object.fromEntries(
+        Object.entries(node).map(([key, property]) => [key, substitute(property)])
+      );
+    };
+    const result = substitute(value) as ASTNode;
+    return unbound ? null : result;
   }
 
   /**
@@ -965,30 +3117,22 @@ export class StatementVisitor extends BaseParser {
     const arrayName = this.expressionVisitor.visitExpression(targetNode.value);
     const value = this.expressionVisitor.visitExpression(valueNode);
 
-    // Process index directly to avoid comments
-    let adjustedIndex: string;
-    let sliceNode = targetNode.slice;
-
-    // Get contents if wrapped in Index node
-    if (sliceNode.type === 'Index') {
-      sliceNode = sliceNode.value;
+    // Field of a TypedDict record (student["name"] = value)
+    const field = this.expressionVisitor.getRecordField(targetNode);
+    if (field) {
+      return this.createIRNode('assign', `${arrayName}.${field} ← ${value}`);
     }
 
-    if (sliceNode.type === 'Constant' && typeof sliceNode.value === 'number') {
-      // For numeric literals, add 1
-      adjustedIndex = String(sliceNode.value + 1);
-    } else if (sliceNode.type === 'Num') {
-      // Old Python AST numeric node
-      adjustedIndex = String(sliceNode.n + 1);
-    } else if (sliceNode.type === 'Name') {
-      // For variables, add +1
-      adjustedIndex = `${sliceNode.id} + 1`;
-    } else {
-      // For other cases, process as expression
-      const index = this.expressionVisitor.visitExpression(targetNode.slice);
-      adjustedIndex = this.convertIndexToOneBased(index);
+    // Element of a 2D array (grid[r][c] = value)
+    if (targetNode.value.type === 'Subscript') {
+      const element = this.expressionVisitor.visitExpression(targetNode);
+      return this.createIRNode('element_assign', `${element} ← ${value}`);
     }
 
+    const adjustedIndex = this.expressionVisitor.formatArrayIndex(
+      targetNode.slice,
+      targetNode.value
+    );
     const text = `${arrayName}[${adjustedIndex}] ← ${value}`;
     return this.createIRNode('element_assign', text);
   }
@@ -997,26 +3141,19 @@ export class StatementVisitor extends BaseParser {
    * Process attribute assignment (obj.field = value)
    */
   private handleAttributeAssign(targetNode: ASTNode, valueNode: ASTNode): IR {
-    const objectName = this.expressionVisitor.visitExpression(targetNode.value);
-    const attributeName = targetNode.attr;
+    // self.x = value inside a method assigns the member x
+    const member = this.expressionVisitor.visitMemberAccess(targetNode);
+    if (!member) {
+      this.expressionVisitor.checkRecordField(targetNode);
+    }
+    const target =
+      member ?? `${this.expressionVisitor.visitExpression(targetNode.value)}.${targetNode.attr}`;
     const value = this.expressionVisitor.visitExpression(valueNode);
 
-    const text = `${objectName}.${attributeName} ← ${value}`;
+    const text = `${target} ← ${value}`;
     return this.createIRNode('attribute_assign', text);
   }
 
-  /**
-   * Convert index from 0-based to 1-based
-   */
-  private convertIndexToOneBased(index: string): string {
-    // For numeric literals, add 1
-    if (/^\d+$/.test(index)) {
-      return String(parseInt(index) + 1);
-    }
-    // For variables, add +1
-    return `${index} + 1`;
-  }
-
   /**
    * Determine if type annotation is list type
    */
@@ -1048,49 +3185,19 @@ export class StatementVisitor extends BaseParser {
    * Extract element type from list type annotation
    */
   private extractListElementType(annotation: ASTNode): string {
-    if (annotation.type === 'Subscript' && annotation.slice) {
-      const elementType = annotation.slice;
-      if (elementType.type === 'Name') {
-        return this.convertPythonTypeToIGCSE(elementType.id);
-      }
-    }
-    return 'STRING'; // Default
+    const elementType = annotation.type === 'Subscript' ? annotation.slice : undefined;
+    return this.expressionVisitor.inferTypeFromAnnotation(elementType);
   }
 
   /**
    * Convert type annotation to IGCSE type
    */
   private convertAnnotationToIGCSEType(annotation: ASTNode): string {
-    if (!annotation) return 'STRING';
-
-    if (annotation.type === 'Name') {
-      return this.convertPythonTypeToIGCSE(annotation.id);
-    }
-
-    if (this.isListTypeAnnotation(annotation)) {
+    if (annotation && this.isListTypeAnnotation(annotation)) {
       const elementType = this.extractListElementType(annotation);
       return `ARRAY[1:100] OF ${elementType}`;
     }
-
-    return 'STRING';
-  }
-
-  /**
-   * Convert Python type name to IGCSE type
-   */
-  private convertPythonTypeToIGCSE(typeName: string): string {
-    switch (typeName) {
-      case 'int':
-        return 'INTEGER';
-      case 'str':
-        return 'STRING';
-      case 'bool':
-        return 'BOOLEAN';
-      case 'float':
-        return 'REAL';
-      default:
-        return 'STRING';
-    }
+    return this.expressionVisitor.inferTypeFromAnnotation(annotation);
   }
 
   /**
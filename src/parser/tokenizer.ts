@@ -0,0 +1,547 @@
+// Python tokenizer
+/**
+ * Token types produced by the tokenizer
+ */
+export type TokenType =
+  | 'NAME' // Identifier or keyword
+  | 'NUMBER' // Numeric literal
+  | 'STRING' // String or bytes literal (including f-strings)
+  | 'OP' // Operator or delimiter
+  | 'COMMENT' // Comment (text after #)
+  | 'NEWLINE' // End of a logical line
+  | 'INDENT' // Indentation increase
+  | 'DEDENT' // Indentation decrease
+  | 'ENDMARKER'; // End of input
+
+/**
+ * Single token with its source range
+ * Lines are 1-based and columns are 0-based, matching Python's ast module
+ */
+export interface Token {
+  type: TokenType;
+  /** Source text of the token (decoded value for strings is in `string`) */
+  value: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  /** Lower-cased string prefix (r, b, f, rb, ...) */
+  prefix?: string;
+  /** Decoded string contents (escape sequences resolved unless raw) */
+  string?: string;
+  /** Whether a COMMENT token occupies a line of its own */
+  ownLine?: boolean;
+}
+
+/**
+ * Syntax error raised by the tokenizer and the AST parser
+ */
+export class PythonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(message);
+    this.name = 'PythonSyntaxError';
+  }
+}
+
+const OPERATORS = [
+  '**=',
+  '//=',
+  '>>=',
+  '<<=',
+  '...',
+  '->',
+  ':=',
+  '**',
+  '//',
+  '<<',
+  '>>',
+  '<=',
+  '>=',
+  '==',
+  '!=',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '&=',
+  '|=',
+  '^=',
+  '@=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '@',
+  '&',
+  '|',
+  '^',
+  '~',
+  '<',
+  '>',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  ':',
+  '.',
+  ';',
+  '=',
+];
+
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Tokenizer for Python source code
+ * Produces INDENT/DEDENT tokens and suppresses NEWLINE inside brackets
+ */
+export class Tokenizer {
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+  private tokens: Token[] = [];
+  private indentStack: number[] = [0];
+  private brackets: Token[] = [];
+  private pendingComments: Token[] = [];
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * Tokenize the whole source
+   */
+  tokenize(): Token[] {
+    while (this.pos < this.source.length) {
+      this.readLine();
+    }
+
+    if (this.brackets.length > 0) {
+      const open = this.brackets[this.brackets.length - 1];
+      throw new PythonSyntaxError(`'${open.value}' was never closed`, open.line, open.column);
+    }
+
+    const last = this.tokens[this.tokens.length - 1];
+    if (last && last.type !== 'NEWLINE') {
+      this.push('NEWLINE', '', this.line, this.column());
+    }
+
+    this.handleIndentation(0, this.line);
+    this.push('ENDMARKER', '', this.line, 0);
+    return this.tokens;
+  }
+
+  /**
+   * Read one physical line (a logical line may continue inside brackets)
+   */
+  private readLine(): void {
+    const indent = this.measureIndent();
+    const ch = this.source[this.pos];
+
+    // Blank line
+    if (ch === undefined || ch === '\n' || ch === '\r') {
+      this.nextLine();
+      return;
+    }
+
+    // Comment-only line: does not affect indentation
+    if (ch === '#') {
+      const comment = this.readComment();
+      comment.ownLine = true;
+      this.pendingComments.push(comment);
+      if (this.source[this.pos] === '\n') this.nextLine();
+      return;
+    }
+
+    this.handleIndentation(indent, this.line);
+    this.readTokensUntilNewline();
+  }
+
+  /**
+   * Count leading whitespace of the current line (tabs advance to the next multiple of 8)
+   */
+  private measureIndent(): number {
+    let width = 0;
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === ' ') {
+        width++;
+      } else if (ch === '\t') {
+        width = (Math.floor(width / 8) + 1) * 8;
+      } else if (ch === '\f') {
+        width = 0;
+      } else {
+        break;
+      }
+      this.pos++;
+    }
+    return width;
+  }
+
+  /**
+   * Emit INDENT/DEDENT tokens and flush comments collected since the last logical line
+   */
+  private handleIndentation(indent: number, line: number): void {
+    const current = this.indentStack[this.indentStack.length - 1];
+
+    if (indent > current) {
+      if (this.tokens.length === 0 || this.lastToken().type !== 'NEWLINE') {
+        throw new PythonSyntaxError('unexpected indent', line, indent);
+      }
+      this.indentStack.push(indent);
+      this.push('INDENT', '', line, 0, line, indent);
+      this.flushComments(this.pendingComments.length);
+      return;
+    }
+
+    if (indent < current) {
+      // Comments indented deeper than the new level still belong to the inner block
+      let inner = 0;
+      while (inner < this.pendingComments.length && this.pendingComments[inner].column > indent) {
+        inner++;
+      }
+      this.flushComments(inner);
+
+      while (this.indentStack[this.indentStack.length - 1] > indent) {
+        this.indentStack.pop();
+        this.push('DEDENT', '', line, indent, line, indent);
+      }
+      if (this.indentStack[this.indentStack.length - 1] !== indent) {
+        throw new PythonSyntaxError(
+          'unindent does not match any outer indentation level',
+          line,
+          indent
+        );
+      }
+    }
+
+    this.flushComments(this.pendingComments.length);
+  }
+
+  private flushComments(count: number): void {
+    this.tokens.push(...this.pendingComments.splice(0, count));
+  }
+
+  /**
+   * Read tokens until the end of the logical line
+   */
+  private readTokensUntilNewline(): void {
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+
+      if (ch === '\n') {
+        if (this.brackets.length === 0) {
+          this.push('NEWLINE', '\n', this.line, this.column(), this.line, this.column() + 1);
+          this.pos++;
+          this.nextLine(false);
+          return;
+        }
+        // Implicit line joining inside brackets
+        this.pos++;
+        this.nextLine(false);
+        continue;
+      }
+
+      if (ch === ' ' || ch === '\t' || ch === '\f' || ch === '\r') {
+        this.pos++;
+        continue;
+      }
+
+      if (ch === '#') {
+        const comment = this.readComment();
+        // Comments inside brackets cannot be attached to a statement
+        if (this.brackets.length === 0) {
+          this.tokens.push(comment);
+        }
+        continue;
+      }
+
+      if (ch === '\\') {
+        this.readLineContinuation();
+        continue;
+      }
+
+      if (this.isStringStart()) {
+        this.readString();
+        continue;
+      }
+
+      if (this.isDigit(ch) || (ch === '.' && this.isDigit(this.source[this.pos + 1] ?? ''))) {
+        this.readNumber();
+        continue;
+      }
+
+      if (/[\p{L}_]/u.test(ch)) {
+        this.readName();
+        continue;
+      }
+
+      this.readOperator();
+    }
+  }
+
+  /**
+   * Explicit line joining: a backslash must be the last character on the line
+   */
+  private readLineContinuation(): void {
+    const next = this.source[this.pos + 1];
+    if (next === undefined) {
+      throw new PythonSyntaxError('unexpected EOF while parsing', this.line, this.column());
+    }
+    if (next !== '\n') {
+      throw new PythonSyntaxError(
+        'unexpected character after line continuation character',
+        this.line,
+        this.column()
+      );
+    }
+    this.pos += 2;
+    this.nextLine(false);
+  }
+
+  /**
+   * Read a comment up to (not including) the end of line
+   */
+  private readComment(): Token {
+    const start = this.pos;
+    const column = this.column();
+    while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+      this.pos++;
+    }
+    const text = this.source.substring(start, this.pos);
+    return {
+      type: 'COMMENT',
+      value: text.substring(1).trim(),
+      line: this.line,
+      column,
+      endLine: this.line,
+      endColumn: this.column(),
+    };
+  }
+
+  private readName(): void {
+    const match = /^[\p{L}\p{N}_]+/u.exec(this.source.substring(this.pos, this.pos + 256));
+    const text = match ? match[0] : this.source[this.pos];
+    const column = this.column();
+    this.pos += text.length;
+    this.push('NAME', text, this.line, column);
+  }
+
+  private readNumber(): void {
+    const rest = this.source.substring(this.pos, this.pos + 256);
+    const patterns = [
+      /^0[xX](?:_?[0-9a-fA-F])+/,
+      /^0[oO](?:_?[0-7])+/,
+      /^0[bB](?:_?[01])+/,
+      /^(?:\d(?:_?\d)*)?\.?(?:\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?[jJ]?/,
+    ];
+
+    let text = '';
+    for (const pattern of patterns) {
+      const match = pattern.exec(rest);
+      if (match && match[0].length > 0) {
+        text = match[0];
+        break;
+      }
+    }
+
+    const column = this.column();
+    this.pos += text.length;
+
+    if (/^[\p{L}_]/u.test(this.source[this.pos] ?? '')) {
+      throw new PythonSyntaxError('invalid decimal literal', this.line, column);
+    }
+
+    this.push('NUMBER', text, this.line, column);
+  }
+
+  private readOperator(): void {
+    const column = this.column();
+    const op = OPERATORS.find((candidate) => this.source.startsWith(candidate, this.pos));
+
+    if (!op) {
+      throw new PythonSyntaxError(
+        `invalid character '${this.source[this.pos]}'`,
+        this.line,
+        column
+      );
+    }
+
+    this.pos += op.length;
+    const token = this.push('OP', op, this.line, column);
+
+    if (op === '(' || op === '[' || op === '{') {
+      this.brackets.push(token);
+    } else if (CLOSING_BRACKETS[op]) {
+      const open = this.brackets.pop();
+      if (!open) {
+        throw new PythonSyntaxError(`unmatched '${op}'`, this.line, column);
+      }
+      if (open.value !== CLOSING_BRACKETS[op]) {
+        throw new PythonSyntaxError(
+          `closing parenthesis '${op}' does not match opening parenthesis '${open.value}'`,
+          this.line,
+          column
+        );
+      }
+    }
+  }
+
+  /**
+   * Check for a string literal start, including an optional prefix
+   */
+  private isStringStart(): boolean {
+    const match = /^([rRbBuUfF]{0,2})['"]/.exec(this.source.substring(this.pos, this.pos + 3));
+    if (!match) return false;
+    const prefix = match[1].toLowerCase();
+    return ['', 'r', 'u', 'b', 'f', 'br', 'rb', 'fr', 'rf'].includes(prefix);
+  }
+
+  private readString(): void {
+    const startLine = this.line;
+    const startColumn = this.column();
+    const start = this.pos;
+
+    let prefix = '';
+    while (this.source[this.pos] !== '"' && this.source[this.pos] !== "'") {
+      prefix += this.source[this.pos];
+      this.pos++;
+    }
+    prefix = prefix.toLowerCase();
+
+    const quote = this.source[this.pos];
+    const triple = this.source.startsWith(quote.repeat(3), this.pos);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+
+    const contentStart = this.pos;
+    while (!this.source.startsWith(delimiter, this.pos)) {
+      if (this.pos >= this.source.length) {
+        throw new PythonSyntaxError(
+          triple
+            ? 'unterminated triple-quoted string literal'
+            : `unterminated string literal (detected at line ${this.line})`,
+          startLine,
+          startColumn
+        );
+      }
+
+      const ch = this.source[this.pos];
+      if (ch === '\\') {
+        if (this.source[this.pos + 1] === '\n') {
+          this.pos += 2;
+          this.nextLine(false);
+        } else {
+          this.pos += 2;
+        }
+        continue;
+      }
+      if (ch === '\n') {
+        if (!triple) {
+          throw new PythonSyntaxError(
+            `unterminated string literal (detected at line ${this.line})`,
+            startLine,
+            startColumn
+          );
+        }
+        this.pos++;
+        this.nextLine(false);
+        continue;
+      }
+      this.pos++;
+    }
+
+    const content = this.source.substring(contentStart, this.pos);
+    this.pos += delimiter.length;
+
+    const raw = prefix.includes('r');
+    this.tokens.push({
+      type: 'STRING',
+      value: this.source.substring(start, this.pos),
+      line: startLine,
+      column: startColumn,
+      endLine: this.line,
+      endColumn: this.column(),
+      prefix,
+      // f-string contents are decoded by the parser after splitting out replacement fields
+      string: raw || prefix.includes('f') ? content : decodeEscapes(content),
+    });
+  }
+
+  private isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+  }
+
+  private column(): number {
+    return this.pos - this.lineStart;
+  }
+
+  private lastToken(): Token {
+    return this.tokens[this.tokens.length - 1];
+  }
+
+  /**
+   * Advance line bookkeeping (the newline character may already be consumed)
+   */
+  private nextLine(consume: boolean = true): void {
+    if (consume) this.pos++;
+    this.line++;
+    this.lineStart = this.pos;
+  }
+
+  private push(
+    type: TokenType,
+    value: string,
+    line: number,
+    column: number,
+    endLine?: number,
+    endColumn?: number
+  ): Token {
+    const token: Token = {
+      type,
+      value,
+      line,
+      column,
+      endLine: endLine ?? line,
+      endColumn: endColumn ?? column + value.length,
+    };
+    this.tokens.push(token);
+    return token;
+  }
+}
+
+/**
+ * Resolve backslash escape sequences in a non-raw string literal
+ */
+export function decodeEscapes(text: string): string {
+  const simple: Record<string, string> = {
+    '\\': '\\',
+    "'": "'",
+    '"': '"',
+    a: '\x07',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+    v: '\v',
+    '\n': '',
+  };
+
+  return text.replace(
+    /\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[0-7]{1,3}|N\{[^}]*\}|[\s\S])/g,
+    (match, seq: string) => {
+      if (seq in simple) return simple[seq];
+      if (/^[xuU]/.test(seq)) return String.fromCodePoint(parseInt(seq.substring(1), 16));
+      if (/^[0-7]/.test(seq)) return String.fromCharCode(parseInt(seq, 8));
+      // Unknown escapes (and \N{...}) are kept as written
+      return match;
+    }
+  );
+}
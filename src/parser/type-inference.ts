@@ -0,0 +1,868 @@
+// Type inference shared by the visitors
+import { DEFAULT_DATA_TYPE, IGCSEDataType, PYTHON_TO_IGCSE_TYPES } from '../types/igcse';
+import { CallMapping } from '../types/parser';
+import { CallRegistry } from './call-registry';
+
+/**
+ * Basic interface for Python AST nodes
+ */
+interface ASTNode {
+  type: string;
+  lineno?: number;
+  col_offset?: number;
+  [key: string]: any;
+}
+
+/**
+ * Conflicting types found during inference
+ */
+export interface TypeConflict {
+  message: string;
+  line?: number | undefined;
+  column?: number | undefined;
+}
+
+/**
+ * Types of the variables of the main program or one function
+ */
+export interface ScopeTypes {
+  /** Variable types, widened over all assignments */
+  variables: Map<string, IGCSEDataType>;
+  /** Element types of arrays */
+  elements: Map<string, IGCSEDataType>;
+}
+
+/**
+ * Inferred signature of a function
+ */
+interface FunctionTypes {
+  name: string;
+  params: string[];
+  paramTypes: (IGCSEDataType | null)[];
+  annotatedParams: boolean[];
+  returnType: IGCSEDataType | null;
+  annotatedReturn: boolean;
+  scope: ScopeTypes;
+  /** Class the function is a method of */
+  className?: string | undefined;
+}
+
+/**
+ * Argument types of one call of a function
+ */
+interface CallArguments {
+  types: (IGCSEDataType | null)[];
+  node: ASTNode;
+}
+
+/**
+ * Built-in functions with a fixed result type
+ */
+const BUILTIN_RESULT_TYPES: { [name: string]: IGCSEDataType } = {
+  int: 'INTEGER',
+  float: 'REAL',
+  str: 'STRING',
+  bool: 'BOOLEAN',
+  len: 'INTEGER',
+  input: 'STRING',
+  ord: 'INTEGER',
+  chr: 'CHAR',
+};
+
+/**
+ * Methods with a fixed result type (string methods and module functions)
+ */
+const METHOD_RESULT_TYPES: { [name: string]: IGCSEDataType } = {
+  upper: 'STRING',
+  lower: 'STRING',
+  strip: 'STRING',
+  lstrip: 'STRING',
+  rstrip: 'STRING',
+  replace: 'STRING',
+  title: 'STRING',
+  capitalize: 'STRING',
+  join: 'STRING',
+  format: 'STRING',
+  readline: 'STRING',
+  read: 'STRING',
+  find: 'INTEGER',
+  index: 'INTEGER',
+  count: 'INTEGER',
+  isdigit: 'BOOLEAN',
+  isalpha: 'BOOLEAN',
+  isupper: 'BOOLEAN',
+  islower: 'BOOLEAN',
+  startswith: 'BOOLEAN',
+  endswith: 'BOOLEAN',
+  randint: 'INTEGER',
+  randrange: 'INTEGER',
+  random: 'REAL',
+  uniform: 'REAL',
+  sqrt: 'REAL',
+  floor: 'INTEGER',
+  ceil: 'INTEGER',
+};
+
+/**
+ * Flow-sensitive type inference
+ *
+ * Types are propagated through assignments in statement order, through arithmetic
+ * (int / int → REAL, // → INTEGER), from return statements into function results and
+ * from call-site arguments into unannotated parameters.
+ * Each inferred expression node is tagged with `inferredType` so that the visitors
+ * see the type at that point in the program.
+ */
+export class TypeInference {
+  private functions = new Map<ASTNode, FunctionTypes>();
+  private functionsByName = new Map<string, FunctionTypes>();
+  private moduleScope: ScopeTypes = TypeInference.createScope();
+  private conflicts: TypeConflict[] = [];
+  private callArguments = new Map<FunctionTypes, CallArguments[]>();
+  private methods = new Map<string, Map<string, FunctionTypes>>();
+  private fieldTypes = new Map<string, Map<string, IGCSEDataType>>();
+  private returnTypes = new Map<FunctionTypes, IGCSEDataType[]>();
+  private callRegistry = new CallRegistry([]);
+
+  /**
+   * @param callMappings User-supplied call mappings whose result types override the built-in ones
+   * @param enums Members of each Enum class, whose members have the enumerated type
+   * @param records Record type of each class converted to a record, the type of its constructor calls
+   */
+  constructor(
+    callMappings: CallMapping[] = [],
+    private enums = new Map<string, string[]>(),
+    private records = new Map<string, string>()
+  ) {
+    this.callRegistry.registerAll(callMappings.filter((mapping) => mapping.resultType));
+  }
+
+  /**
+   * Analyze a module and return the type conflicts found
+   */
+  analyze(module: ASTNode): TypeConflict[] {
+    this.registerFunctions(module.body, true);
+
+    // Parameter and return types feed each other, so repeat until they settle
+    for (let pass = 0; pass < 5; pass++) {
+      this.conflicts = [];
+      this.callArguments.clear();
+      this.returnTypes.clear();
+      this.moduleScope = TypeInference.createScope();
+
+      this.walk(module.body, this.moduleScope, new Map(), null);
+
+      if (!this.updateSignatures()) {
+        break;
+      }
+    }
+
+    return this.conflicts;
+  }
+
+  /**
+   * Variable types of the main program
+   */
+  getModuleTypes(): ScopeTypes {
+    return this.moduleScope;
+  }
+
+  /**
+   * Variable types of a function
+   */
+  getFunctionTypes(node: ASTNode): ScopeTypes | undefined {
+    return this.functions.get(node)?.scope;
+  }
+
+  getReturnType(node: ASTNode): IGCSEDataType | null {
+    return this.functions.get(node)?.returnType ?? null;
+  }
+
+  getParameterType(node: ASTNode, name: string): IGCSEDataType | null {
+    const func = this.functions.get(node);
+    if (!func) return null;
+    return func.paramTypes[func.params.indexOf(name)] ?? null;
+  }
+
+  /**
+   * Type of a value being converted: the type inferred for it in its place in the
+   * program, else what the expression shows by itself, else the default type
+   */
+  getValueType(node: ASTNode): IGCSEDataType {
+    if (!node) return DEFAULT_DATA_TYPE;
+    return node.inferredType ?? this.infer(node) ?? DEFAULT_DATA_TYPE;
+  }
+
+  /**
+   * Type named by an annotation, else the default type
+   */
+  getAnnotationType(annotation: ASTNode): IGCSEDataType {
+    if (!annotation) return DEFAULT_DATA_TYPE;
+    return this.convertAnnotation(annotation) ?? DEFAULT_DATA_TYPE;
+  }
+
+  /**
+   * Convert a type annotation such as `int` or `list[str]`
+   */
+  convertAnnotation(annotation: ASTNode): IGCSEDataType | null {
+    if (!annotation) return null;
+    if (annotation.type === 'Name') {
+      return PYTHON_TO_IGCSE_TYPES[annotation.id] ?? null;
+    }
+    if (annotation.type === 'Subscript' && annotation.value.type === 'Name') {
+      if (['list', 'List'].includes(annotation.value.id)) return 'ARRAY';
+      if (['Final', 'Optional'].includes(annotation.value.id)) {
+        return this.convertAnnotation(annotation.slice);
+      }
+    }
+    if (annotation.type === 'Constant' && typeof annotation.value === 'string') {
+      return PYTHON_TO_IGCSE_TYPES[annotation.value] ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Infer the type of an expression
+   * Without an environment, names are unknown and only the expression itself is used
+   */
+  infer(
+    node: ASTNode,
+    env: Map<string, IGCSEDataType> = new Map(),
+    elements: Map<string, IGCSEDataType> = new Map()
+  ): IGCSEDataType | null {
+    if (!node) return null;
+    const type = this.inferUntagged(node, env, elements);
+    if (type) {
+      node.inferredType = type;
+    }
+    return type;
+  }
+
+  private inferUntagged(
+    node: ASTNode,
+    env: Map<string, IGCSEDataType>,
+    elements: Map<string, IGCSEDataType>
+  ): IGCSEDataType | null {
+    switch (node.type) {
+      case 'Constant':
+        if (typeof node.value === 'boolean') return 'BOOLEAN';
+        if (typeof node.value === 'number') {
+          return Number.isInteger(node.value) && !node.isFloat ? 'INTEGER' : 'REAL';
+        }
+        if (typeof node.value === 'string') return 'STRING';
+        return null;
+      case 'Name':
+        return env.get(node.id) ?? null;
+      case 'JoinedStr':
+        node.values.forEach((value: ASTNode) => this.infer(value, env, elements));
+        return 'STRING';
+      case 'FormattedValue':
+        this.infer(node.value, env, elements);
+        return null;
+      case 'List':
+      case 'Tuple':
+        node.elts.forEach((elt: ASTNode) => this.infer(elt, env, elements));
+        return 'ARRAY';
+      case 'ListComp':
+        return 'ARRAY';
+      case 'UnaryOp': {
+        const operand = this.infer(node.operand, env, elements);
+        return node.op.type === 'Not' ? 'BOOLEAN' : operand;
+      }
+      case 'BinOp':
+        return this.inferBinOp(node, env, elements);
+      case 'Compare':
+        this.infer(node.left, env, elements);
+        node.comparators.forEach((comparator: ASTNode) => this.infer(comparator, env, elements));
+        return 'BOOLEAN';
+      case 'BoolOp': {
+        const types = node.values.map((value: ASTNode) => this.infer(value, env, elements));
+        return types.every((type: IGCSEDataType | null) => !type || type === 'BOOLEAN')
+          ? 'BOOLEAN'
+          : TypeInference.widen(types);
+      }
+      case 'IfExp':
+        this.infer(node.test, env, elements);
+        return TypeInference.widen([
+          this.infer(node.body, env, elements),
+          this.infer(node.orelse, env, elements),
+        ]);
+      case 'Subscript': {
+        const valueType = this.infer(node.value, env, elements);
+        this.infer(node.slice, env, elements);
+        if (valueType === 'STRING') return 'STRING';
+        if (node.value.type === 'Name' && node.slice.type !== 'Slice') {
+          return elements.get(node.value.id) ?? null;
+        }
+        return null;
+      }
+      case 'Call':
+        return this.inferCall(node, env, elements);
+      case 'Attribute': {
+        // Day.MON has the enumerated type Day
+        const objectType = this.infer(node.value, env, elements);
+        if (node.value.type === 'Name' && this.enums.get(node.value.id)?.includes(node.attr)) {
+          return node.value.id as IGCSEDataType;
+        }
+        // pt.x has the type assigned to the field x of the record or class of pt
+        return objectType ? (this.fieldTypes.get(objectType)?.get(node.attr) ?? null) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private inferBinOp(
+    node: ASTNode,
+    env: Map<string, IGCSEDataType>,
+    elements: Map<string, IGCSEDataType>
+  ): IGCSEDataType | null {
+    const left = this.infer(node.left, env, elements);
+    const right = this.infer(node.right, env, elements);
+    const isText = (type: IGCSEDataType | null) => type === 'STRING' || type === 'CHAR';
+
+    switch (node.op.type) {
+      case 'Div':
+        return 'REAL';
+      case 'FloorDiv':
+        return 'INTEGER';
+      case 'Add':
+        if (isText(left) || isText(right)) return 'STRING';
+        break;
+      case 'Mult':
+        if (isText(left) || isText(right)) return 'STRING';
+        break;
+      case 'Mod':
+        // % on a string is formatting
+        if (isText(left)) return 'STRING';
+        break;
+    }
+
+    // + may still be concatenation when neither operand is known
+    if (node.op.type === 'Add' && !left && !right) return null;
+
+    // Other unknown operands are assumed to be integers
+    return left === 'REAL' || right === 'REAL' ? 'REAL' : 'INTEGER';
+  }
+
+  private inferCall(
+    node: ASTNode,
+    env: Map<string, IGCSEDataType>,
+    elements: Map<string, IGCSEDataType>
+  ): IGCSEDataType | null {
+    const args: (IGCSEDataType | null)[] = node.args.map((arg: ASTNode) =>
+      this.infer(arg, env, elements)
+    );
+    node.keywords.forEach((keyword: ASTNode) => this.infer(keyword.value, env, elements));
+
+    const mapping = this.findMapping(node);
+    if (mapping?.resultType) {
+      if (node.func.type === 'Attribute') this.infer(node.func.value, env, elements);
+      return mapping.resultType;
+    }
+
+    if (node.func.type === 'Attribute') {
+      const objectType = this.infer(node.func.value, env, elements);
+      const method = objectType ? this.findMethod(objectType, node.func.attr) : undefined;
+      if (method) {
+        this.addCall(method, args, node);
+        return method.returnType;
+      }
+      return METHOD_RESULT_TYPES[node.func.attr] ?? null;
+    }
+    if (node.func.type !== 'Name') {
+      return null;
+    }
+
+    const name = node.func.id;
+    const func = this.functionsByName.get(name);
+    if (func) {
+      this.addCall(func, args, node);
+      return func.returnType;
+    }
+    // Greeter("Hello") passes its arguments to __init__
+    const constructor = this.methods.get(name)?.get('__init__');
+    if (constructor) {
+      this.addCall(constructor, args, node);
+    }
+    const recordType = this.records.get(name);
+    if (recordType) {
+      return recordType as IGCSEDataType;
+    }
+    if (this.methods.has(name)) {
+      return name as IGCSEDataType;
+    }
+    // Day(2) is the member of Day with the value 2
+    if (this.enums.has(name)) {
+      return name as IGCSEDataType;
+    }
+
+    switch (name) {
+      case 'round':
+        return node.args.length > 1 ? 'REAL' : 'INTEGER';
+      case 'abs':
+        return args[0] ?? null;
+      case 'max':
+      case 'min':
+        if (node.args.length === 1 && node.args[0].type === 'Name') {
+          return elements.get(node.args[0].id) ?? null;
+        }
+        return TypeInference.widen(args);
+      case 'sum':
+        return node.args[0]?.type === 'Name'
+          ? (elements.get(node.args[0].id) ?? 'INTEGER')
+          : 'INTEGER';
+      default:
+        return BUILTIN_RESULT_TYPES[name] ?? null;
+    }
+  }
+
+  private addCall(func: FunctionTypes, types: (IGCSEDataType | null)[], node: ASTNode): void {
+    this.callArguments.set(func, [...(this.callArguments.get(func) || []), { types, node }]);
+  }
+
+  /**
+   * Find a method of the class whose instances have the given type
+   */
+  private findMethod(type: IGCSEDataType, name: string): FunctionTypes | undefined {
+    const className =
+      Array.from(this.records.entries()).find(([, recordType]) => recordType === type)?.[0] ?? type;
+    return this.methods.get(className)?.get(name);
+  }
+
+  /**
+   * Find the user-supplied mapping for a call: math.sqrt(x), len(x) or s.upper()
+   */
+  private findMapping(node: ASTNode): CallMapping | null {
+    const { func } = node;
+    const arity = node.args.length;
+    if (func.type === 'Name') {
+      return this.callRegistry.find(func.id, arity);
+    }
+    if (func.type !== 'Attribute') {
+      return null;
+    }
+    const qualified =
+      func.value.type === 'Name'
+        ? this.callRegistry.find(`${func.value.id}.${func.attr}`, arity)
+        : null;
+    return qualified ?? this.callRegistry.find(func.attr, arity, true);
+  }
+
+  /**
+   * Walk statements in order, updating the environment as variables are assigned
+   */
+  private walk(
+    statements: ASTNode[],
+    scope: ScopeTypes,
+    env: Map<string, IGCSEDataType>,
+    func: FunctionTypes | null
+  ): void {
+    for (const statement of statements) {
+      this.walkStatement(statement, scope, env, func);
+    }
+  }
+
+  private walkStatement(
+    node: ASTNode,
+    scope: ScopeTypes,
+    env: Map<string, IGCSEDataType>,
+    func: FunctionTypes | null
+  ): void {
+    const infer = (expression: ASTNode) => this.infer(expression, env, scope.elements);
+
+    switch (node.type) {
+      case 'Assign': {
+        const type = infer(node.value);
+        for (const target of node.targets) {
+          this.assignTarget(target, node.value, type, scope, env, node);
+        }
+        return;
+      }
+      case 'AugAssign': {
+        infer(node.target);
+        const type = this.infer(
+          { type: 'BinOp', left: node.target, op: node.op, right: node.value },
+          env,
+          scope.elements
+        );
+        this.assignTarget(node.target, null, type, scope, env, node);
+        return;
+      }
+      case 'AnnAssign': {
+        const annotated = this.convertAnnotation(node.annotation);
+        const type = node.value ? infer(node.value) : null;
+        if (node.target.type === 'Name') {
+          const elementType = this.getAnnotatedElementType(node.annotation);
+          if (elementType) {
+            scope.elements.set(node.target.id, elementType);
+          }
+        }
+        this.assignTarget(node.target, node.value, annotated ?? type, scope, env, node);
+        return;
+      }
+      case 'For': {
+        infer(node.iter);
+        this.assignLoopTarget(node, scope, env);
+        this.walk(node.body, scope, env, func);
+        this.walk(node.orelse || [], scope, env, func);
+        return;
+      }
+      case 'While':
+      case 'If':
+        infer(node.test);
+        this.walk(node.body, scope, env, func);
+        this.walk(node.orelse || [], scope, env, func);
+        return;
+      case 'With':
+        node.items.forEach((item: ASTNode) => infer(item.context_expr));
+        this.walk(node.body, scope, env, func);
+        return;
+      case 'Try':
+        this.walk(node.body, scope, env, func);
+        (node.handlers || []).forEach((handler: ASTNode) =>
+          this.walk(handler.body, scope, env, func)
+        );
+        this.walk(node.orelse || [], scope, env, func);
+        this.walk(node.finalbody || [], scope, env, func);
+        return;
+      case 'Match':
+        infer(node.subject);
+        node.cases
+          .filter((matchCase: ASTNode) => matchCase.type !== 'Comment')
+          .forEach((matchCase: ASTNode) => this.walk(matchCase.body, scope, env, func));
+        return;
+      case 'Return':
+        if (node.value && func) {
+          const type = infer(node.value);
+          if (type) {
+            this.returnTypes.set(func, [...(this.returnTypes.get(func) || []), type]);
+            const previous = this.returnTypes.get(func)![0];
+            if (TypeInference.conflicts(previous, type)) {
+              this.addConflict(
+                `Function '${func.name}' returns ${type} on line ${node.lineno} but ${previous} elsewhere`,
+                node
+              );
+            }
+          }
+        }
+        return;
+      case 'Expr':
+        infer(node.value);
+        return;
+      case 'FunctionDef':
+        this.walkFunction(node);
+        return;
+      case 'ClassDef':
+        // Annotated fields of a dataclass have their annotated types
+        node.body
+          .filter((item: ASTNode) => item.type === 'AnnAssign' && item.target.type === 'Name')
+          .forEach((item: ASTNode) =>
+            this.setFieldType(
+              this.getInstanceType(node.name),
+              item.target.id,
+              this.convertAnnotation(item.annotation)
+            )
+          );
+        node.body
+          .filter((item: ASTNode) => item.type === 'FunctionDef')
+          .forEach((method: ASTNode) => this.walkFunction(method));
+        return;
+    }
+  }
+
+  private walkFunction(node: ASTNode): void {
+    const func = this.functions.get(node);
+    if (!func) return;
+
+    func.scope = TypeInference.createScope();
+    const env = new Map<string, IGCSEDataType>();
+    if (func.className) {
+      env.set('self', this.getInstanceType(func.className));
+    }
+    func.params.forEach((param, index) => {
+      const type = func.paramTypes[index];
+      if (type) env.set(param, type);
+    });
+    this.walk(node.body, func.scope, env, func);
+  }
+
+  /**
+   * Record the type assigned to a target, reporting conflicts with earlier assignments
+   */
+  private assignTarget(
+    target: ASTNode,
+    value: ASTNode | null,
+    type: IGCSEDataType | null,
+    scope: ScopeTypes,
+    env: Map<string, IGCSEDataType>,
+    statement: ASTNode
+  ): void {
+    if (target.type === 'Tuple' || target.type === 'List') {
+      target.elts.forEach((elt: ASTNode, index: number) => {
+        const item =
+          value && (value.type === 'Tuple' || value.type === 'List') ? value.elts[index] : null;
+        this.assignTarget(
+          elt,
+          item,
+          item ? (item.inferredType ?? null) : null,
+          scope,
+          env,
+          statement
+        );
+      });
+      return;
+    }
+
+    if (target.type === 'Subscript' && target.value.type === 'Name') {
+      this.infer(target.slice, env, scope.elements);
+      this.setElementType(target.value.id, type, scope, statement);
+      return;
+    }
+
+    if (target.type === 'Attribute') {
+      const objectType = this.infer(target.value, env, scope.elements);
+      if (objectType) {
+        this.setFieldType(objectType, target.attr, type);
+      }
+      return;
+    }
+
+    if (target.type !== 'Name' || !type) {
+      return;
+    }
+
+    const name = target.id;
+    env.set(name, type);
+    target.inferredType = type;
+
+    if (value && (value.type === 'List' || value.type === 'Tuple')) {
+      const elementTypes = value.elts.map((elt: ASTNode) => elt.inferredType ?? null);
+      const elementType = TypeInference.widen(elementTypes);
+      if (elementType) {
+        this.setElementType(name, elementType, scope, statement);
+      }
+    }
+
+    const previous = scope.variables.get(name);
+    if (previous && TypeInference.conflicts(previous, type)) {
+      this.addConflict(
+        `Variable '${name}' is assigned ${type} on line ${statement.lineno} but was ${previous} earlier`,
+        statement
+      );
+      return;
+    }
+    scope.variables.set(name, TypeInference.widen([previous ?? null, type])!);
+  }
+
+  private setElementType(
+    name: string,
+    type: IGCSEDataType | null,
+    scope: ScopeTypes,
+    statement: ASTNode
+  ): void {
+    if (!type) return;
+    const previous = scope.elements.get(name);
+    if (previous && TypeInference.conflicts(previous, type)) {
+      this.addConflict(
+        `Element of '${name}' is assigned ${type} on line ${statement.lineno} but was ${previous} earlier`,
+        statement
+      );
+      return;
+    }
+    scope.elements.set(name, TypeInference.widen([previous ?? null, type])!);
+  }
+
+  private setFieldType(objectType: IGCSEDataType, name: string, type: IGCSEDataType | null): void {
+    if (!type) return;
+    const fields = this.fieldTypes.get(objectType) || new Map<string, IGCSEDataType>();
+    fields.set(name, TypeInference.widen([fields.get(name) ?? null, type])!);
+    this.fieldTypes.set(objectType, fields);
+  }
+
+  /**
+   * Type of the instances of a class: its record type when converted to a record
+   */
+  private getInstanceType(className: string): IGCSEDataType {
+    return (this.records.get(className) ?? className) as IGCSEDataType;
+  }
+
+  /**
+   * Types of the loop variable(s) of a for statement
+   */
+  private assignLoopTarget(
+    node: ASTNode,
+    scope: ScopeTypes,
+    env: Map<string, IGCSEDataType>
+  ): void {
+    const iter = node.iter;
+    let type: IGCSEDataType | null = null;
+
+    if (iter.type === 'Call' && iter.func.type === 'Name' && iter.func.id === 'range') {
+      type = 'INTEGER';
+    } else if (iter.type === 'Name') {
+      type = scope.elements.get(iter.id) ?? (env.get(iter.id) === 'STRING' ? 'CHAR' : null);
+    } else if (iter.type === 'Constant' && typeof iter.value === 'string') {
+      type = 'CHAR';
+    }
+
+    // for i, item in enumerate(items)
+    if (
+      iter.type === 'Call' &&
+      iter.func.type === 'Name' &&
+      iter.func.id === 'enumerate' &&
+      node.target.type === 'Tuple' &&
+      node.target.elts.length === 2
+    ) {
+      const [index, item] = node.target.elts;
+      const source = iter.args[0];
+      this.assignTarget(index, null, 'INTEGER', scope, env, node);
+      this.assignTarget(
+        item,
+        null,
+        source?.type === 'Name' ? (scope.elements.get(source.id) ?? null) : null,
+        scope,
+        env,
+        node
+      );
+      return;
+    }
+
+    this.assignTarget(node.target, null, type, scope, env, node);
+  }
+
+  private getAnnotatedElementType(annotation: ASTNode): IGCSEDataType | null {
+    if (
+      annotation.type === 'Subscript' &&
+      annotation.value.type === 'Name' &&
+      ['list', 'List'].includes(annotation.value.id)
+    ) {
+      return this.convertAnnotation(annotation.slice);
+    }
+    return null;
+  }
+
+  /**
+   * Collect function definitions and their annotated types
+   */
+  private registerFunctions(statements: ASTNode[], topLevel: boolean, className?: string): void {
+    for (const node of statements) {
+      if (node.type === 'ClassDef') {
+        this.registerFunctions(
+          node.body.filter((item: ASTNode) => item.type === 'FunctionDef'),
+          false,
+          node.name
+        );
+        continue;
+      }
+      if (node.type !== 'FunctionDef') {
+        continue;
+      }
+
+      const args = (node.args.args || []).filter((arg: ASTNode) => arg.arg !== 'self');
+      const paramTypes = args.map((arg: ASTNode) => this.convertAnnotation(arg.annotation));
+      const returnType = this.convertAnnotation(node.returns);
+      const func: FunctionTypes = {
+        name: node.name,
+        params: args.map((arg: ASTNode) => arg.arg),
+        paramTypes,
+        annotatedParams: paramTypes.map((type: IGCSEDataType | null) => type !== null),
+        returnType,
+        annotatedReturn: returnType !== null,
+        scope: TypeInference.createScope(),
+        className,
+      };
+      this.functions.set(node, func);
+      if (topLevel) {
+        this.functionsByName.set(node.name, func);
+      }
+      if (className) {
+        const methods = this.methods.get(className) || new Map<string, FunctionTypes>();
+        methods.set(node.name, func);
+        this.methods.set(className, methods);
+      }
+    }
+  }
+
+  /**
+   * Update parameter types from call sites and return types from return statements
+   * Returns true when any signature changed
+   */
+  private updateSignatures(): boolean {
+    let changed = false;
+
+    for (const func of Array.from(this.functions.values())) {
+      const calls = this.callArguments.get(func) || [];
+      func.params.forEach((param, index) => {
+        if (func.annotatedParams[index]) return;
+        const argumentTypes = calls.map((call) => call.types[index] ?? null);
+        const known = argumentTypes.filter((type): type is IGCSEDataType => type !== null);
+        const conflicting = calls.find((call) => {
+          const type = call.types[index];
+          return type && TypeInference.conflicts(known[0], type);
+        });
+        if (conflicting) {
+          this.addConflict(
+            `Parameter '${param}' of '${func.name}' is called with both ${known[0]} and ${conflicting.types[index]} on line ${conflicting.node.lineno}`,
+            conflicting.node
+          );
+        }
+        const type = TypeInference.widen(argumentTypes);
+        if (type !== func.paramTypes[index]) {
+          func.paramTypes[index] = type;
+          changed = true;
+        }
+      });
+
+      if (!func.annotatedReturn) {
+        const type = TypeInference.widen(this.returnTypes.get(func) || []);
+        if (type !== func.returnType) {
+          func.returnType = type;
+          changed = true;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  private addConflict(message: string, node?: ASTNode): void {
+    this.conflicts.push({ message, line: node?.lineno, column: node?.col_offset });
+  }
+
+  private static createScope(): ScopeTypes {
+    return { variables: new Map(), elements: new Map() };
+  }
+
+  /**
+   * Combine types: INTEGER and REAL widen to REAL, CHAR and STRING to STRING,
+   * otherwise the first known type wins
+   */
+  private static widen(types: (IGCSEDataType | null)[]): IGCSEDataType | null {
+    let result: IGCSEDataType | null = null;
+    for (const type of types) {
+      if (!type) continue;
+      if (!result) {
+        result = type;
+      } else if (
+        (result === 'INTEGER' && type === 'REAL') ||
+        (result === 'CHAR' && type === 'STRING')
+      ) {
+        result = type;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check whether two types cannot be widened into one
+   */
+  private static conflicts(a: IGCSEDataType, b: IGCSEDataType): boolean {
+    const numeric = ['INTEGER', 'REAL'];
+    const text = ['STRING', 'CHAR'];
+    return (
+      a !== b &&
+      !(numeric.includes(a) && numeric.includes(b)) &&
+      !(text.includes(a) && text.includes(b))
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { IR, IRKind, createIR, IRMeta, countIRNodes } from '../types/ir';
 import { BaseParser } from './base-parser';
+import { ParserOptions } from '../types/parser';
+import { IGCSEDataType } from '../types/igcse';
 import { StatementVisitor } from './statement-visitor';
 import { DefinitionVisitor } from './definition-visitor';
+import { ASTParser } from './ast-parser';
+import { PythonSyntaxError } from './tokenizer';
+import { TypeInference } from './type-inference';
 
 /**
  * Basic interface for Python AST nodes
@@ -21,10 +26,10 @@ export class PythonASTVisitor extends BaseParser {
   private statementVisitor: StatementVisitor;
   private definitionVisitor: DefinitionVisitor;
 
-  constructor() {
-    super();
-    this.statementVisitor = new StatementVisitor();
-    this.definitionVisitor = new DefinitionVisitor();
+  constructor(options: ParserOptions = {}) {
+    super(options);
+    this.statementVisitor = new StatementVisitor(options);
+    this.definitionVisitor = new DefinitionVisitor(options);
 
     // Share context with visitors
     this.statementVisitor.setContext(this.context);
@@ -37,10 +42,9 @@ export class PythonASTVisitor extends BaseParser {
   parse(source: string): import('../types/parser').ParseResult {
     this.startParsing();
     this.resetContext();
+    this.context.sourceLines = source.split('\n');
 
     try {
-      // 実際の実装では、PythonのASTパーサーを使用
-      // Provide simplified implementation here
       const ast = this.parseToAST(source);
       // 2パス処理: まずすべてのクラス定義を事前登録
       this.preRegisterAllClasses(ast.body);
@@ -48,6 +52,15 @@ export class PythonASTVisitor extends BaseParser {
       // Re-share latest context with visitors after class definition registration
       this.statementVisitor.setContext(this.context);
       this.definitionVisitor.setContext(this.context);
+      this.markRecordTypes(ast.body);
+
+      this.preRegisterConstants(ast.body);
+      this.context.identifiers = this.collectIdentifiers(ast.body);
+      this.inferTypes(ast);
+      this.preRegisterTupleFunctions(ast.body);
+      if (this.options.staticArrays) {
+        this.preRegisterDynamicLists(ast.body);
+      }
 
       const ir = this.visitNode(ast);
 
@@ -58,6 +71,11 @@ export class PythonASTVisitor extends BaseParser {
 
       return this.createParseResult([ir]);
     } catch (error) {
+      if (error instanceof PythonSyntaxError) {
+        this.addError(`Syntax error: ${error.message}`, 'syntax_error', error.line, error.column);
+        return this.createParseResult([createIR('statement', '', [])]);
+      }
+
       this.addError(
         `Parse failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'syntax_error'
@@ -70,979 +88,48 @@ export class PythonASTVisitor extends BaseParser {
   }
 
   /**
-   * Simple AST parser (uses external library in actual implementation)
+   * Parse source code into a Python AST
    */
   private parseToAST(source: string): ASTNode {
-    // In actual implementation, use python-ast or pyodide
-    // Simplified implementation here
-    const lines = source.split('\n');
-    const nodes: ASTNode[] = [];
-    const processedLines = new Set<number>();
-
-    let i = 0;
-    while (i < lines.length) {
-      if (processedLines.has(i)) {
-        i++;
-        continue;
-      }
-
-      const line = lines[i];
-      const trimmed = line.trim();
-
-      if (trimmed.startsWith('#')) {
-        // Process comment lines
-        const commentNode: ASTNode = {
-          type: 'Comment',
-          value: trimmed.substring(1).trim(),
-          lineno: i + 1,
-        };
-        nodes.push(commentNode);
-        processedLines.add(i);
-        i++;
-      } else if (trimmed) {
-        const result = this.parseStatement(lines, i);
-        if (result.node) {
-          nodes.push(result.node);
-          // Mark processed lines
-          for (let j = i; j < result.nextIndex; j++) {
-            processedLines.add(j);
-          }
-        }
-        i = result.nextIndex;
-      } else {
-        processedLines.add(i);
-        i++;
-      }
-    }
-
-    return {
-      type: 'Module',
-      body: nodes,
-    };
+    return new ASTParser(source).parseModule();
   }
 
   /**
-   * Parse statements and their child blocks
+   * Convert AST nodes to IR
    */
-  private parseStatement(
-    lines: string[],
-    startIndex: number
-  ): { node: ASTNode | null; nextIndex: number } {
-    const line = lines[startIndex];
-    const trimmed = line.trim();
-    const indent = line.length - line.trimStart().length;
-
-    // Create basic statement node
-    const node = this.parseLineToASTNode(trimmed, startIndex + 1);
+  visitNode(node: ASTNode): IR {
     if (!node) {
-      return { node: null, nextIndex: startIndex + 1 };
-    }
-
-    // For statements ending with colon (block statements), parse child blocks
-    if (trimmed.endsWith(':')) {
-      const bodyNodes: ASTNode[] = [];
-      let i = startIndex + 1;
-
-      // Parse child block from next line
-      while (i < lines.length) {
-        const childLine = lines[i];
-        const childTrimmed = childLine.trim();
-        const childIndent = childLine.length - childLine.trimStart().length;
-
-        // Skip empty lines and comment lines
-        if (!childTrimmed || childTrimmed.startsWith('#')) {
-          i++;
-          continue;
-        }
-
-        // For IF statements, handle ELIF and ELSE statements specially
-        if (node.type === 'If' && childIndent === indent) {
-          if (childTrimmed.startsWith('elif ')) {
-            // Process ELIF statement as new IF statement and add to orelse
-            const elifResult = this.parseStatement(lines, i);
-            if (elifResult.node) {
-              node.orelse = [elifResult.node];
-            }
-            i = elifResult.nextIndex;
-            break;
-          } else if (childTrimmed.startsWith('else:')) {
-            // Process ELSE clause
-            const elseNodes: ASTNode[] = [];
-            i++; // else行をスキップ
-
-            // Parse child blocks of ELSE clause
-            while (i < lines.length) {
-              const elseChildLine = lines[i];
-              const elseChildTrimmed = elseChildLine.trim();
-              const elseChildIndent = elseChildLine.length - elseChildLine.trimStart().length;
-
-              // Skip empty lines and comment lines
-              if (!elseChildTrimmed || elseChildTrimmed.startsWith('#')) {
-                i++;
-                continue;
-              }
-
-              // End ELSE clause if indent is same or less
-              if (elseChildIndent <= indent) {
-                break;
-              }
-
-              // Parse child statements of ELSE clause
-              const elseChildResult = this.parseStatement(lines, i);
-              if (elseChildResult.node) {
-                elseNodes.push(elseChildResult.node);
-              }
-              i = elseChildResult.nextIndex;
-            }
-
-            // Set ELSE clause to node
-            node.orelse = elseNodes;
-            break;
-          }
-        }
-
-        // End block if indent is same or less
-        if (childIndent <= indent) {
-          break;
-        }
-
-        // Parse child statements
-        const childResult = this.parseStatement(lines, i);
-        if (childResult.node) {
-          bodyNodes.push(childResult.node);
-        }
-        i = childResult.nextIndex;
-      }
-
-      // Set child blocks to node
-      if (
-        node.type === 'If' ||
-        node.type === 'For' ||
-        node.type === 'While' ||
-        node.type === 'FunctionDef' ||
-        node.type === 'ClassDef'
-      ) {
-        node.body = bodyNodes;
-      }
-
-      return { node, nextIndex: i };
-    }
-
-    return { node, nextIndex: startIndex + 1 };
-  }
-
-  /**
-   * Convert single line to AST node
-   */
-  private parseLineToASTNode(line: string, lineNumber: number): ASTNode | null {
-    const trimmed = line.trim();
-
-    // Detect IF statements
-    if (trimmed.startsWith('if ')) {
-      return this.parseIfStatement(trimmed, lineNumber);
-    }
-
-    // Detect ELIF statements (process as IF statements)
-    if (trimmed.startsWith('elif ')) {
-      // Replace 'elif' with 'if' and process
-      const ifLine = 'if ' + trimmed.substring(5);
-      return this.parseIfStatement(ifLine, lineNumber);
-    }
-
-    // Detect FOR statements
-    if (trimmed.startsWith('for ')) {
-      return this.parseForStatement(trimmed, lineNumber);
-    }
-
-    // Detect WHILE statements
-    if (trimmed.startsWith('while ')) {
-      return this.parseWhileStatement(trimmed, lineNumber);
-    }
-
-    // Detect class definitions
-    if (trimmed.startsWith('class ')) {
-      return this.parseClassDef(trimmed, lineNumber);
-    }
-
-    // Detect function definitions
-    if (trimmed.startsWith('def ')) {
-      return this.parseFunctionDef(trimmed, lineNumber);
-    }
-
-    // Detect type-annotated assignment statements (e.g., items: list[str] = [])
-    if (trimmed.includes(': ') && trimmed.includes(' = ')) {
-      const colonIndex = trimmed.indexOf(': ');
-      const equalIndex = trimmed.indexOf(' = ');
-
-      // Type-annotated assignment if colon comes before equals
-      if (colonIndex < equalIndex) {
-        const varName = trimmed.substring(0, colonIndex).trim();
-        const typeAnnotation = trimmed.substring(colonIndex + 2, equalIndex).trim();
-        const value = trimmed.substring(equalIndex + 3).trim();
-
-        if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(varName)) {
-          return {
-            type: 'AnnAssign',
-            target: {
-              type: 'Name',
-              id: varName,
-              ctx: 'Store',
-            },
-            annotation: {
-              type: 'Subscript',
-              value: {
-                type: 'Name',
-                id: typeAnnotation.includes('[')
-                  ? typeAnnotation.substring(0, typeAnnotation.indexOf('['))
-                  : typeAnnotation,
-              },
-              slice: typeAnnotation.includes('[')
-                ? {
-                    type: 'Name',
-                    id: typeAnnotation.substring(
-                      typeAnnotation.indexOf('[') + 1,
-                      typeAnnotation.indexOf(']')
-                    ),
-                  }
-                : null,
-            },
-            value: value ? this.parseExpression(value) : null,
-            lineno: lineNumber,
-          };
-        }
-      }
-    }
-
-    // Detect assignment statements
-    if (trimmed.includes(' = ')) {
-      // Check before and after = to determine if it's an assignment statement
-      const equalIndex = trimmed.indexOf(' = ');
-      const beforeEqual = trimmed.substring(0, equalIndex).trim();
-      const afterEqual = trimmed.substring(equalIndex + 3).trim();
-
-      // Detect array element assignment (e.g., data[1] = 100)
-      const arrayAssignMatch = beforeEqual.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\[(.+)\]$/);
-      if (arrayAssignMatch && afterEqual.length > 0) {
-        const [, arrayName, indexExpr] = arrayAssignMatch;
-        return {
-          type: 'Assign',
-          targets: [
-            {
-              type: 'Subscript',
-              value: {
-                type: 'Name',
-                id: arrayName,
-                ctx: 'Load',
-              },
-              slice: {
-                type: 'Index',
-                value: {
-                  type: 'Constant',
-                  value: parseInt(indexExpr),
-                  kind: null,
-                },
-              },
-              ctx: 'Store',
-            },
-          ],
-          value: this.parseExpression(afterEqual),
-          lineno: lineNumber,
-        };
-      }
-
-      // Detect attribute assignment (e.g., self.name = value)
-      const attrAssignMatch = beforeEqual.match(
-        /^([a-zA-Z_][a-zA-Z0-9_]*)\.([a-zA-Z_][a-zA-Z0-9_]*)$/
-      );
-      if (attrAssignMatch && afterEqual.length > 0) {
-        const [, objName, attrName] = attrAssignMatch;
-        return {
-          type: 'Assign',
-          targets: [
-            {
-              type: 'Attribute',
-              value: {
-                type: 'Name',
-                id: objName,
-                ctx: 'Load',
-              },
-              attr: attrName,
-              ctx: 'Store',
-            },
-          ],
-          value: this.parseExpression(afterEqual),
-          lineno: lineNumber,
-        };
-      }
-
-      // Assignment statement if left side is simple variable name and right side exists
-      if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(beforeEqual) && afterEqual.length > 0) {
-        return this.parseAssignStatement(trimmed, lineNumber);
-      }
-    }
-
-    // Detect print statements
-    if (trimmed.startsWith('print(')) {
-      return this.parsePrintStatement(trimmed, lineNumber);
-    }
-
-    // Detect function definitions
-    if (trimmed.startsWith('def ')) {
-      return this.parseFunctionDef(trimmed, lineNumber);
-    }
-
-    // Detect class definitions
-    if (trimmed.startsWith('class ')) {
-      return this.parseClassDef(trimmed, lineNumber);
-    }
-
-    // Detect return statements
-    if (trimmed.startsWith('return')) {
-      return this.parseReturnStatement(trimmed, lineNumber);
-    }
-
-    // Detect break statements
-    if (trimmed === 'break') {
-      return {
-        type: 'Break',
-        lineno: lineNumber,
-      };
-    }
-
-    // Detect continue statements
-    if (trimmed === 'continue') {
-      return {
-        type: 'Continue',
-        lineno: lineNumber,
-      };
-    }
-
-    // Detect augmented assignment statements (+=, -=, *=, /=, %=)
-    if (/^[a-zA-Z_][a-zA-Z0-9_]*\s*[+\-*/%]=/.test(trimmed)) {
-      return this.parseAugAssignStatement(trimmed, lineNumber);
-    }
-
-    // Detect function calls
-    const callMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\((.*)\)$/);
-    if (callMatch) {
-      const funcName = callMatch[1];
-      const argsStr = callMatch[2];
-      const args = this.parseArguments(argsStr);
-
-      return {
-        type: 'Expr',
-        lineno: lineNumber,
-        value: {
-          type: 'Call',
-          func: { type: 'Name', id: funcName },
-          args: args,
-        },
-      };
-    }
-
-    // Process as other expression statements
-    return {
-      type: 'Expr',
-      lineno: lineNumber,
-      value: {
-        type: 'Call',
-        func: { type: 'Name', id: 'unknown' },
-        args: [],
-        raw: trimmed,
-      },
-    };
-  }
-
-  /**
-   * Parse augmented assignment statements
-   */
-  private parseAugAssignStatement(line: string, lineNumber: number): ASTNode {
-    const match = line.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*([+\-*/%])=\s*(.+)$/);
-
-    if (!match) {
-      // Process as normal expression if no match
-      return {
-        type: 'Expr',
-        lineno: lineNumber,
-        value: {
-          type: 'Call',
-          func: { type: 'Name', id: 'unknown' },
-          args: [],
-          raw: line,
-        },
-      };
-    }
-
-    const [, target, op, value] = match;
-
-    return {
-      type: 'AugAssign',
-      lineno: lineNumber,
-      target: {
-        type: 'Name',
-        id: target,
-      },
-      op: {
-        type: this.getAugAssignOpType(op),
-      },
-      value: {
-        type: 'Num',
-        n: isNaN(Number(value)) ? value : Number(value),
-        raw: value,
-      },
-    };
-  }
-
-  /**
-   * Get type of augmented assignment operator
-   */
-  private getAugAssignOpType(op: string): string {
-    switch (op) {
-      case '+':
-        return 'Add';
-      case '-':
-        return 'Sub';
-      case '*':
-        return 'Mult';
-      case '/':
-        return 'Div';
-      case '%':
-        return 'Mod';
-      default:
-        return 'Add';
-    }
-  }
-
-  private parseIfStatement(line: string, lineNumber: number): ASTNode {
-    // Parse "if condition:" format
-    const match = line.match(/^if\s+(.+):\s*$/);
-    const condition = match ? match[1] : line.substring(3, line.length - 1);
-
-    return {
-      type: 'If',
-      lineno: lineNumber,
-      test: {
-        type: 'Compare',
-        left: { type: 'Name', id: 'condition' },
-        ops: ['>'],
-        comparators: [{ type: 'Num', n: 0 }],
-        raw: condition,
-      },
-      body: [],
-      orelse: [],
-    };
-  }
-
-  private parseForStatement(line: string, lineNumber: number): ASTNode {
-    // Parse "for var in iterable:" format
-    const match = line.match(/^for\s+(\w+)\s+in\s+(.+):\s*$/);
-    const target = match ? match[1] : 'i';
-    const iter = match ? match[2] : 'range(1)';
-
-    // Parse range function arguments
-    let args: any[] = [];
-    if (iter.startsWith('range(') && iter.endsWith(')')) {
-      const argsStr = iter.slice(6, -1); // "range(" と ")" を除去
-      if (argsStr.trim()) {
-        const argParts = argsStr.split(',').map((arg) => arg.trim());
-        args = argParts.map((arg) => ({
-          type: 'Num',
-          n: isNaN(Number(arg)) ? arg : Number(arg),
-          raw: arg,
-        }));
-      }
-    }
-
-    // For direct iteration over arrays or lists
-    if (!iter.startsWith('range(')) {
-      return {
-        type: 'For',
-        lineno: lineNumber,
-        target: { type: 'Name', id: target },
-        iter: {
-          type: 'Name',
-          id: iter,
-        },
-        body: [],
-        orelse: [],
-      };
-    }
-
-    return {
-      type: 'For',
-      lineno: lineNumber,
-      target: { type: 'Name', id: target },
-      iter: {
-        type: 'Call',
-        func: { type: 'Name', id: 'range' },
-        args: args,
-        raw: iter,
-      },
-      body: [],
-      orelse: [],
-    };
-  }
-
-  private parseWhileStatement(line: string, lineNumber: number): ASTNode {
-    // Parse "while condition:" format
-    const match = line.match(/^while\s+(.+):\s*$/);
-    const condition = match ? match[1] : line.substring(6, line.length - 1);
-
-    return {
-      type: 'While',
-      lineno: lineNumber,
-      test: {
-        type: 'Compare',
-        raw: condition,
-      },
-      body: [],
-      orelse: [],
-    };
-  }
-
-  private parseAssignStatement(line: string, lineNumber: number): ASTNode {
-    // Parse "var = value" format
-    const parts = line.split(' = ');
-    const target = parts[0].trim();
-    let value = parts.slice(1).join(' = ').trim();
-
-    // Extract inline comment part (after #)
-    let inlineComment = '';
-    const commentIndex = value.indexOf('#');
-    if (commentIndex !== -1) {
-      inlineComment = value.substring(commentIndex + 1).trim();
-      value = value.substring(0, commentIndex).trim();
-    }
-
-    // Detect array literals
-    if (value.startsWith('[') && value.endsWith(']')) {
-      const elementsStr = value.slice(1, -1).trim();
-      const elements = elementsStr
-        ? elementsStr.split(',').map((elem) => {
-            const trimmed = elem.trim();
-            // Determine if it's a number
-            if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
-              return {
-                type: 'Num',
-                n: parseFloat(trimmed),
-              };
-            } else if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
-              return {
-                type: 'Str',
-                s: trimmed.slice(1, -1),
-              };
-            } else if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
-              return {
-                type: 'Str',
-                s: trimmed.slice(1, -1),
-              };
-            } else {
-              return {
-                type: 'Name',
-                id: trimmed,
-              };
-            }
-          })
-        : [];
-
-      return {
-        type: 'Assign',
-        lineno: lineNumber,
-        targets: [{ type: 'Name', id: target }],
-        value: {
-          type: 'List',
-          elts: elements,
-        },
-      };
-    }
-
-    // Detect array access (e.g., my_array[0])
-    const arrayAccessMatch = value.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\[(\d+)\]$/);
-    if (arrayAccessMatch) {
-      const [, arrayName, indexStr] = arrayAccessMatch;
-      return {
-        type: 'Assign',
-        lineno: lineNumber,
-        targets: [{ type: 'Name', id: target }],
-        value: {
-          type: 'Subscript',
-          value: { type: 'Name', id: arrayName },
-          slice: { type: 'Num', n: parseInt(indexStr) },
-        },
-      };
-    }
-
-    // Detect expressions containing comparison operators
-    const valueNode = this.parseExpression(value);
-
-    const assignNode: ASTNode = {
-      type: 'Assign',
-      lineno: lineNumber,
-      targets: [
-        {
-          type: 'Name',
-          id: target,
-        },
-      ],
-      value: valueNode,
-    };
-
-    if (inlineComment) {
-      assignNode.inlineComment = inlineComment;
-    }
-
-    return assignNode;
-  }
-
-  /**
-   * Parse expressions and convert to AST nodes
-   */
-  private parseExpression(expr: string): ASTNode {
-    const trimmed = expr.trim();
-
-    // Detect empty lists
-    if (trimmed === '[]') {
-      return {
-        type: 'List',
-        elts: [],
-        ctx: 'Load',
-      };
-    }
-
-    // Detect list literals
-    if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
-      const content = trimmed.slice(1, -1).trim();
-      if (!content) {
-        return {
-          type: 'List',
-          elts: [],
-          ctx: 'Load',
-        };
-      }
-
-      // Parse list elements
-      const elements = content.split(',').map((elem) => {
-        const elemTrimmed = elem.trim();
-
-        // Detect numbers
-        if (/^\d+$/.test(elemTrimmed)) {
-          return {
-            type: 'Constant',
-            value: parseInt(elemTrimmed),
-            kind: null,
-          };
-        }
-
-        // String detection
-        if (
-          (elemTrimmed.startsWith('"') && elemTrimmed.endsWith('"')) ||
-          (elemTrimmed.startsWith("'") && elemTrimmed.endsWith("'"))
-        ) {
-          return {
-            type: 'Constant',
-            value: elemTrimmed.slice(1, -1),
-            kind: null,
-          };
-        }
-
-        // Detect variable names
-        if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(elemTrimmed)) {
-          return {
-            type: 'Name',
-            id: elemTrimmed,
-            ctx: 'Load',
-          };
-        }
-
-        // Other expressions
-        return {
-          type: 'Name',
-          id: elemTrimmed,
-          ctx: 'Load',
-        };
-      });
-
-      return {
-        type: 'List',
-        elts: elements,
-        ctx: 'Load',
-      };
-    }
-
-    // Detect NOT operator (highest priority)
-    if (trimmed.startsWith('not ')) {
-      const operand = trimmed.substring(4).trim();
-      return {
-        type: 'UnaryOp',
-        op: { type: 'Not' },
-        operand: this.parseExpression(operand),
-      };
-    }
-
-    // Process expressions enclosed in parentheses
-    if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
-      const innerExpr = trimmed.slice(1, -1);
-      const innerNode = this.parseExpression(innerExpr);
-      // Explicitly mark as parenthesized expression
-      return {
-        type: 'Expr',
-        value: innerNode,
-        parenthesized: true,
-      };
-    }
-
-    // Detect comparison operators
-    const compareOps = ['==', '!=', '<=', '>=', '<', '>'];
-    for (const op of compareOps) {
-      const index = trimmed.indexOf(op);
-      if (index !== -1) {
-        const left = trimmed.substring(0, index).trim();
-        const right = trimmed.substring(index + op.length).trim();
-
-        return {
-          type: 'Compare',
-          left: this.parseSimpleExpression(left),
-          ops: [this.getCompareOpNode(op)],
-          comparators: [this.parseSimpleExpression(right)],
-        };
-      }
-    }
-
-    // Detect logical operators
-    if (trimmed.includes(' and ')) {
-      const parts = trimmed.split(' and ');
-      return {
-        type: 'BoolOp',
-        op: { type: 'And' },
-        values: parts.map((part) => this.parseExpression(part.trim())),
-      };
-    }
-
-    if (trimmed.includes(' or ')) {
-      const parts = trimmed.split(' or ');
-      return {
-        type: 'BoolOp',
-        op: { type: 'Or' },
-        values: parts.map((part) => this.parseExpression(part.trim())),
-      };
-    }
-
-    // Detect method calls (e.g., text.upper())
-    const methodCallMatch = trimmed.match(/^(.+)\.([a-zA-Z_][a-zA-Z0-9_]*)\((.*)\)$/);
-    if (methodCallMatch) {
-      const [, objectExpr, methodName, argsStr] = methodCallMatch;
-      const args = this.parseArguments(argsStr);
-
-      return {
-        type: 'Call',
-        func: {
-          type: 'Attribute',
-          value: this.parseSimpleExpression(objectExpr),
-          attr: methodName,
-          ctx: 'Load',
-        },
-        args: args,
-      };
-    }
-
-    // Detect function calls
-    const callMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\((.*)\)$/);
-    if (callMatch) {
-      const [, funcName, argsStr] = callMatch;
-      const args = this.parseArguments(argsStr);
-
-      return {
-        type: 'Call',
-        func: { type: 'Name', id: funcName },
-        args: args,
-      };
-    }
-
-    // Detect arithmetic operators (detect longer operators first)
-    const arithOps = ['//', '+', '-', '*', '/', '%'];
-    for (const op of arithOps) {
-      const index = trimmed.indexOf(op);
-      if (index !== -1) {
-        const left = trimmed.substring(0, index).trim();
-        const right = trimmed.substring(index + op.length).trim();
-
-        return {
-          type: 'BinOp',
-          left: this.parseSimpleExpression(left),
-          op: this.getArithOpNode(op),
-          right: this.parseSimpleExpression(right),
-        };
-      }
-    }
-
-    // Process as simple expression
-    return this.parseSimpleExpression(trimmed);
-  }
-
-  /**
-   * Parse simple expressions (variables, literals)
-   */
-  private parseSimpleExpression(expr: string): ASTNode {
-    const trimmed = expr.trim();
-
-    // Detect attribute access (e.g., path[0].x)
-    const attrMatch = trimmed.match(/^(.+)\.([a-zA-Z_][a-zA-Z0-9_]*)$/);
-    if (attrMatch) {
-      const [, valueExpr, attr] = attrMatch;
-      return {
-        type: 'Attribute',
-        value: this.parseSimpleExpression(valueExpr),
-        attr: attr,
-        ctx: 'Load',
-      };
-    }
-
-    // Detect array indexing (e.g., path[0])
-    const subscriptMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\[(.+)\]$/);
-    if (subscriptMatch) {
-      const [, arrayName, indexExpr] = subscriptMatch;
-      return {
-        type: 'Subscript',
-        value: {
-          type: 'Name',
-          id: arrayName,
-          ctx: 'Load',
-        },
-        slice: this.parseSimpleExpression(indexExpr),
-        ctx: 'Load',
-      };
-    }
-
-    // String literal
-    if (
-      (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-      (trimmed.startsWith("'") && trimmed.endsWith("'"))
-    ) {
-      return {
-        type: 'Str',
-        s: trimmed.slice(1, -1),
-      };
+      return createIR('statement', '', []);
     }
 
-    // Check for unclosed string literals
-    if (
-      (trimmed.startsWith('"') && !trimmed.endsWith('"')) ||
-      (trimmed.startsWith("'") && !trimmed.endsWith("'"))
-    ) {
-      this.context.errors.push({
-        message: `Unterminated string literal: ${trimmed}`,
-        line: 0,
-        column: 0,
-        type: 'syntax_error',
-        severity: 'error',
-      });
-      return {
-        type: 'Str',
-        s: trimmed,
-      };
-    }
+    // Set visitNode method to visitors
+    this.statementVisitor.visitNode = this.visitNode.bind(this);
+    this.definitionVisitor.visitNode = this.visitNode.bind(this);
 
-    // Numeric literals
-    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
-      return {
-        type: 'Num',
-        n: parseFloat(trimmed),
-      };
+    // Call warnings (library calls without an IGCSE equivalent, warnings from call
+    // mappings) are reported on the statement making the call; calls already found in
+    // an enclosing statement (an IF condition) stay with it
+    const enclosing = this.context.callWarnings.splice(0);
+    const ir =
+      this.statementVisitor.visitConditionalExpressions(node) ?? this.visitStatementNode(node);
+    const callWarnings = this.context.callWarnings.splice(0, Infinity, ...enclosing);
+    for (const message of new Set(callWarnings.map((warning) => warning.message))) {
+      this.addWarning(message, 'unsupported_feature', node.lineno, node.col_offset);
     }
-
-    // Boolean values
-    if (trimmed === 'True' || trimmed === 'False') {
-      return {
-        type: 'NameConstant',
-        value: trimmed === 'True',
-      };
+    if (callWarnings.some((warning) => warning.needsTranslation)) {
+      this.attachInlineComment(ir, 'needs manual translation');
     }
 
-    // Variable names
-    return {
-      type: 'Name',
-      id: trimmed,
-    };
-  }
-
-  /**
-   * Get AST node for comparison operators
-   */
-  private getCompareOpNode(op: string): ASTNode {
-    switch (op) {
-      case '==':
-        return { type: 'Eq' };
-      case '!=':
-        return { type: 'NotEq' };
-      case '<':
-        return { type: 'Lt' };
-      case '<=':
-        return { type: 'LtE' };
-      case '>':
-        return { type: 'Gt' };
-      case '>=':
-        return { type: 'GtE' };
-      default:
-        return { type: 'Eq' };
+    if (node.lineno !== undefined && ir.meta?.lineNumber === undefined) {
+      ir.meta = { ...ir.meta, lineNumber: node.lineno };
     }
-  }
-
-  /**
-   * Get AST node for arithmetic operators
-   */
-  private getArithOpNode(op: string): ASTNode {
-    switch (op) {
-      case '+':
-        return { type: 'Add' };
-      case '-':
-        return { type: 'Sub' };
-      case '*':
-        return { type: 'Mult' };
-      case '/':
-        return { type: 'Div' };
-      case '//':
-        return { type: 'FloorDiv' };
-      case '%':
-        return { type: 'Mod' };
-      default:
-        return { type: 'Add' };
+    if (node.inlineComment) {
+      this.attachInlineComment(ir, node.inlineComment);
     }
+    return ir;
   }
 
-  private parsePrintStatement(line: string, lineNumber: number): ASTNode {
-    // Parse "print(...)" format
-    const match = line.match(/^print\((.*)\)\s*$/);
-    const args = match ? match[1] : '';
-
-    return {
-      type: 'Expr',
-      lineno: lineNumber,
-      value: {
-        type: 'Call',
-        func: { type: 'Name', id: 'print' },
-        args: [
-          {
-            type: 'Str',
-            s: args,
-            raw: args,
-          },
-        ],
-      },
-    };
-  }
-
-  /**
-   * Convert AST nodes to IR
-   */
-  visitNode(node: ASTNode): IR {
-    if (!node) {
-      return createIR('statement', '', []);
-    }
-
-    // Set visitNode method to visitors
-    this.statementVisitor.visitNode = this.visitNode.bind(this);
-    this.definitionVisitor.visitNode = this.visitNode.bind(this);
-
+  private visitStatementNode(node: ASTNode): IR {
     switch (node.type) {
       case 'Module':
         return this.visitModule(node);
@@ -1060,6 +147,8 @@ export class PythonASTVisitor extends BaseParser {
         return this.statementVisitor.visitFor(node);
       case 'While':
         return this.statementVisitor.visitWhile(node);
+      case 'Match':
+        return this.statementVisitor.visitMatch(node);
       case 'Return':
         return this.statementVisitor.visitReturn(node);
       case 'Call':
@@ -1104,6 +193,24 @@ export class PythonASTVisitor extends BaseParser {
     }
   }
 
+  /**
+   * Append a trailing comment to the first line produced for a statement
+   */
+  private attachInlineComment(ir: IR, comment: string): void {
+    const suffix = ` // ${comment}`;
+    if (ir.text) {
+      if (!ir.text.endsWith(suffix)) {
+        ir.text += suffix;
+      }
+      return;
+    }
+
+    const first = ir.children.find((child) => child.text);
+    if (first) {
+      this.attachInlineComment(first, comment);
+    }
+  }
+
   private visitModule(node: ASTNode): IR {
     const children: IR[] = [];
 
@@ -1115,265 +222,399 @@ export class PythonASTVisitor extends BaseParser {
       }
     }
 
-    return this.createIRNode('compound', '', children);
+    return this.createIRNode(
+      'compound',
+      '',
+      this.addDeclarations(children, [], this.context.typeInference?.getModuleTypes().variables)
+    );
   }
 
   /**
-   * Parse function definitions
+   * Register class definitions in context
    */
-  private parseFunctionDef(line: string, lineNumber: number): ASTNode {
-    // Parse "def function_name(params):" format
-    const match = line.match(/^def\s+(\w+)\s*\(([^)]*)\)\s*(?:->\s*([^:]+))?:\s*$/);
+  private registerClassDefinition(node: ASTNode): void {
+    const className = node.name;
+
+    // Extract attributes from __init__ method
+    const constructor = node.body.find(
+      (item: ASTNode) => item.type === 'FunctionDef' && item.name === '__init__'
+    );
+
+    const attributes: string[] = [];
+    if (constructor) {
+      // Get attribute names from constructor parameters
+      if (constructor.args && constructor.args.args) {
+        constructor.args.args.forEach((arg: any) => {
+          if (arg.arg !== 'self') {
+            attributes.push(arg.arg);
+          }
+        });
+      }
+    }
 
-    if (!match) {
-      // Process as basic function definition if no match
-      return {
-        type: 'FunctionDef',
-        name: 'unknown_function',
-        args: { args: [] },
-        returns: null,
-        body: [],
-        lineno: lineNumber,
-      };
+    // Dataclasses, NamedTuples and TypedDicts declare their fields in the class body
+    const declaredFields = this.definitionVisitor.getDeclaredFields(node);
+    if (declaredFields) {
+      attributes.push(...declaredFields.map((field) => field.name));
     }
+    const recordFields = this.definitionVisitor.getRecordFields(node);
 
-    const [, funcName, paramsStr, returnType] = match;
+    // Enum classes list the members of an enumerated type
+    const enumMembers = this.definitionVisitor.getEnumMembers(node);
+    const enumValues = enumMembers ? this.definitionVisitor.getEnumValues(node) : undefined;
 
-    // Parse parameters
-    const params = this.parseParameters(paramsStr);
+    // Extract inheritance information
+    const bases: string[] = [];
+    if (node.bases && node.bases.length > 0) {
+      node.bases.forEach((base: any) => {
+        if (base.type === 'Name') {
+          bases.push(base.id);
+        }
+      });
+    }
 
-    return {
-      type: 'FunctionDef',
-      name: funcName,
-      args: { args: params },
-      returns: returnType ? { type: 'Name', id: returnType.trim() } : null,
-      body: [],
-      lineno: lineNumber,
+    // Register in context
+    if (!this.context.classDefinitions) {
+      this.context.classDefinitions = {};
+    }
+
+    this.context.classDefinitions[className] = {
+      attributes: attributes,
+      bases: bases,
+      parameters: recordFields?.parameters,
+      fields: recordFields?.fields,
+      enumMembers,
+      enumValues,
     };
   }
 
   /**
-   * Parse argument lists
+   * Decide which classes are record types before any instantiation is converted;
+   * the others are objects created with NEW
+   */
+  private markRecordTypes(nodes: ASTNode[]): void {
+    for (const node of nodes) {
+      const classDefinition = this.context.classDefinitions?.[node.name];
+      if (node.type === 'ClassDef' && classDefinition?.enumMembers) {
+        classDefinition.typeName = node.name;
+      } else if (node.type === 'ClassDef' && classDefinition) {
+        classDefinition.isRecord = this.definitionVisitor.shouldTreatAsRecordType(node);
+        if (classDefinition.isRecord) {
+          classDefinition.typeName = this.getRecordTypeName(node.name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Pre-register all class definitions (first pass of 2-pass processing)
    */
-  private parseArguments(argsStr: string): any[] {
-    if (!argsStr.trim()) {
-      return [];
+  private preRegisterAllClasses(nodes: ASTNode[]): void {
+    if (!nodes || !Array.isArray(nodes)) {
+      return;
     }
 
-    // Split arguments considering parentheses balance
-    const args = this.splitArgumentsRespectingParentheses(argsStr);
+    for (const node of nodes) {
+      if (node && node.type === 'ClassDef') {
+        this.registerClassDefinition(node);
+      }
+    }
+  }
 
-    return args.map((arg) => {
-      const trimmed = arg.trim();
+  /**
+   * Register module-level constants: UPPER_CASE names assigned once to a literal,
+   * and names annotated with typing.Final
+   */
+  private preRegisterConstants(nodes: ASTNode[]): void {
+    const assignments = this.collectModuleAssignments(nodes);
 
-      // For function calls (containing parentheses)
-      if (trimmed.includes('(') && trimmed.includes(')')) {
-        return this.parseExpression(trimmed);
+    for (const node of nodes) {
+      const isAssign =
+        node.type === 'Assign' && node.targets.length === 1 && node.targets[0].type === 'Name';
+      const isFinal =
+        node.type === 'AnnAssign' && node.value && this.isFinalAnnotation(node.annotation);
+      if (!(isAssign || isFinal) || !this.isLiteral(node.value)) {
+        continue;
       }
 
-      // For string literals
-      if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
-        return {
-          type: 'Str',
-          s: trimmed.slice(1, -1),
-        };
+      const name = isAssign ? node.targets[0].id : node.target.id;
+      if (isAssign && !/^[A-Z][A-Z0-9_]*$/.test(name)) {
+        continue;
       }
 
-      // For numbers
-      if (/^\d+$/.test(trimmed)) {
-        return {
-          type: 'Num',
-          n: parseInt(trimmed),
-        };
+      const [first, ...reassignments] = assignments.get(name) || [];
+      if (first !== node) {
+        continue;
       }
 
-      // For variable names
-      return {
-        type: 'Name',
-        id: trimmed,
-      };
-    });
+      for (const reassignment of reassignments) {
+        const message = isFinal
+          ? `'${name}' is declared Final on line ${node.lineno} but reassigned on line ${reassignment.lineno}`
+          : `'${name}' looks like a constant but is reassigned on line ${reassignment.lineno}; it is converted as a variable`;
+        this.addWarning(
+          message,
+          'constant_reassignment',
+          reassignment.lineno,
+          reassignment.col_offset
+        );
+      }
+
+      if (isFinal || reassignments.length === 0) {
+        this.context.constants[name] = node.lineno!;
+      }
+    }
   }
 
   /**
-   * Split arguments considering parentheses balance
+   * Infer types for the whole module so every visitor sees the same types
    */
-  private splitArgumentsRespectingParentheses(argsStr: string): string[] {
-    const args: string[] = [];
-    let currentArg = '';
-    let parenDepth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < argsStr.length; i++) {
-      const char = argsStr[i];
-
-      if (!inString) {
-        if (char === '"' || char === "'") {
-          inString = true;
-          stringChar = char;
-        } else if (char === '(') {
-          parenDepth++;
-        } else if (char === ')') {
-          parenDepth--;
-        } else if (char === ',' && parenDepth === 0) {
-          args.push(currentArg.trim());
-          currentArg = '';
-          continue;
-        }
-      } else {
-        if (char === stringChar && (i === 0 || argsStr[i - 1] !== '\\')) {
-          inString = false;
-          stringChar = '';
-        }
+  private inferTypes(module: ASTNode): void {
+    const enums = new Map<string, string[]>();
+    const records = new Map<string, string>();
+    for (const [className, classDefinition] of Object.entries(
+      this.context.classDefinitions ?? {}
+    )) {
+      if (classDefinition.enumMembers) {
+        enums.set(className, classDefinition.enumMembers);
+      }
+      if (classDefinition.isRecord && classDefinition.typeName) {
+        records.set(className, classDefinition.typeName);
       }
-
-      currentArg += char;
     }
-
-    if (currentArg.trim()) {
-      args.push(currentArg.trim());
+    const typeInference = new TypeInference(this.options.callMappings, enums, records);
+    for (const conflict of typeInference.analyze(module)) {
+      this.addWarning(conflict.message, 'type_inference', conflict.line, conflict.column);
     }
+    this.context.typeInference = typeInference;
+  }
 
-    return args;
+  /**
+   * Find the lists changed by append, pop, insert, remove or del, which become static
+   * arrays with a length counter, and the type of the values added to them
+   */
+  private preRegisterDynamicLists(nodes: ASTNode[]): void {
+    const dynamicLists = this.context.dynamicLists;
+    const visit = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+        return;
+      }
+      const node = child as ASTNode;
+      if (!node || typeof node !== 'object' || typeof node.type !== 'string') {
+        return;
+      }
+      if (
+        node.type === 'Call' &&
+        node.func.type === 'Attribute' &&
+        node.func.value.type === 'Name' &&
+        ['append', 'pop', 'insert', 'remove'].includes(node.func.attr)
+      ) {
+        const name = node.func.value.id;
+        const added = ['append', 'insert'].includes(node.func.attr)
+          ? node.args[node.args.length - 1]
+          : undefined;
+        // Objects added by constructor calls make an array of records or objects
+        const className =
+          added?.type === 'Call' && added.func.type === 'Name' ? added.func.id : undefined;
+        const classDefinition = className ? this.context.classDefinitions?.[className] : undefined;
+        const type = classDefinition
+          ? ((classDefinition.typeName ?? className) as IGCSEDataType)
+          : added?.inferredType;
+        dynamicLists[name] = dynamicLists[name] ?? type ?? null;
+      }
+      if (node.type === 'Delete') {
+        for (const target of node.targets) {
+          if (target.type === 'Subscript' && target.value.type === 'Name') {
+            dynamicLists[target.value.id] = dynamicLists[target.value.id] ?? null;
+          }
+        }
+      }
+      Object.values(node).forEach(visit);
+    };
+    visit(nodes);
   }
 
   /**
-   * Parse parameter lists
+   * Find functions that end by returning a tuple and are only called to unpack it,
+   * e.g. lo, hi = min_max(values); they become procedures with BYREF output parameters
    */
-  private parseParameters(paramsStr: string): any[] {
-    if (!paramsStr.trim()) {
-      return [];
-    }
+  private preRegisterTupleFunctions(nodes: ASTNode[]): void {
+    const uses = new Map<string, number>();
+    const unpackings = new Map<string, number>();
+    const visit = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+        return;
+      }
+      const node = child as ASTNode;
+      if (!node || typeof node !== 'object' || typeof node.type !== 'string') {
+        return;
+      }
+      if (node.type === 'Name') {
+        uses.set(node.id, (uses.get(node.id) ?? 0) + 1);
+      }
+      if (
+        node.type === 'Assign' &&
+        node.targets.length === 1 &&
+        node.targets[0].type === 'Tuple' &&
+        node.value.type === 'Call' &&
+        node.value.func.type === 'Name'
+      ) {
+        const key = `${node.value.func.id}/${node.targets[0].elts.length}`;
+        unpackings.set(key, (unpackings.get(key) ?? 0) + 1);
+      }
+      Object.values(node).forEach(visit);
+    };
+    visit(nodes);
 
-    return paramsStr.split(',').map((param) => {
-      const trimmed = param.trim();
+    for (const node of nodes) {
+      if (node.type !== 'FunctionDef' || node.body.length === 0) {
+        continue;
+      }
+      const last = node.body[node.body.length - 1];
+      if (
+        last.type !== 'Return' ||
+        last.value?.type !== 'Tuple' ||
+        last.value.elts.length < 2 ||
+        last.value.elts.some((elt: ASTNode) => elt.type === 'Starred') ||
+        this.countReturns(node.body) !== 1
+      ) {
+        continue;
+      }
 
-      // With type annotation: "param: type"
-      const typeMatch = trimmed.match(/^(\w+)\s*:\s*(.+)$/);
-      if (typeMatch) {
-        const [, paramName, paramType] = typeMatch;
-        return {
-          arg: paramName,
-          annotation: { type: 'Name', id: paramType.trim() },
-        };
+      const count = unpackings.get(`${node.name}/${last.value.elts.length}`) ?? 0;
+      if (count === 0 || count !== uses.get(node.name)) {
+        continue;
       }
 
-      // Without type annotation
-      return {
-        arg: trimmed,
-        annotation: null,
-      };
-    });
+      // Returned local variables become the output parameters themselves
+      const params = node.args.args.map((arg: ASTNode) => arg.arg);
+      const outputs: Array<{ name: string; type: IGCSEDataType }> = [];
+      last.value.elts.forEach((elt: ASTNode, index: number) => {
+        let name = elt.type === 'Name' ? elt.id : '';
+        if (!name || params.includes(name) || outputs.some((output) => output.name === name)) {
+          name = `Result${index + 1}`;
+          while (this.context.identifiers.has(name)) name += '_';
+        }
+        outputs.push({ name, type: elt.inferredType ?? 'INTEGER' });
+      });
+      this.context.tupleFunctions[node.name] = outputs;
+    }
   }
 
   /**
-   * Parse return statements
+   * Count the return statements of a function body, ignoring nested definitions
    */
-  private parseReturnStatement(line: string, lineNumber: number): ASTNode {
-    const match = line.match(/^return\s*(.*)$/);
-    const value = match ? match[1].trim() : '';
-
-    return {
-      type: 'Return',
-      value: value
-        ? {
-            type: 'Name',
-            id: value,
-            raw: value,
-          }
-        : null,
-      lineno: lineNumber,
+  private countReturns(statements: ASTNode[]): number {
+    let count = 0;
+    const visit = (child: unknown): void => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+        return;
+      }
+      const node = child as ASTNode;
+      if (!node || typeof node !== 'object' || typeof node.type !== 'string') {
+        return;
+      }
+      if (['FunctionDef', 'ClassDef', 'Lambda'].includes(node.type)) {
+        return;
+      }
+      if (node.type === 'Return') {
+        count++;
+      }
+      Object.values(node).forEach(visit);
     };
+    visit(statements);
+    return count;
   }
 
   /**
-   * Parse class definitions
+   * Collect the statements assigning each module-level name, in source order
+   * Assignments inside functions count only for names declared global there
    */
-  private parseClassDef(line: string, lineNumber: number): ASTNode {
-    const match = line.match(/^class\s+(\w+)(?:\s*\(([^)]*)\))?\s*:/);
-    if (!match) {
-      this.addError(`Invalid class definition: ${line}`, 'syntax_error');
-      return {
-        type: 'Unknown',
-        lineno: lineNumber,
-      };
-    }
+  private collectModuleAssignments(nodes: ASTNode[]): Map<string, ASTNode[]> {
+    const assignments = new Map<string, ASTNode[]>();
+
+    const addTarget = (target: ASTNode, statement: ASTNode, globals: string[] | null): void => {
+      if (!target) return;
+      if (target.type === 'Tuple' || target.type === 'List') {
+        target.elts.forEach((elt: ASTNode) => addTarget(elt, statement, globals));
+      } else if (target.type === 'Starred') {
+        addTarget(target.value, statement, globals);
+      } else if (target.type === 'Name' && (!globals || globals.includes(target.id))) {
+        assignments.set(target.id, [...(assignments.get(target.id) || []), statement]);
+      }
+    };
 
-    const [, className, baseClasses] = match;
-    const bases = baseClasses
-      ? baseClasses.split(',').map((base) => ({
-          type: 'Name',
-          id: base.trim(),
-        }))
-      : [];
+    const visit = (statements: ASTNode[], globals: string[] | null): void => {
+      for (const statement of statements) {
+        switch (statement.type) {
+          case 'Assign':
+            statement.targets.forEach((target: ASTNode) => addTarget(target, statement, globals));
+            break;
+          case 'AugAssign':
+          case 'AnnAssign':
+            if (statement.type === 'AugAssign' || statement.value) {
+              addTarget(statement.target, statement, globals);
+            }
+            break;
+          case 'For':
+            addTarget(statement.target, statement, globals);
+            break;
+          case 'FunctionDef': {
+            const declared = statement.body
+              .filter((child: ASTNode) => child.type === 'Global')
+              .flatMap((child: ASTNode) => child.names);
+            if (declared.length > 0) {
+              visit(statement.body, declared);
+            }
+            continue;
+          }
+          case 'ClassDef':
+            continue;
+        }
 
-    return {
-      type: 'ClassDef',
-      name: className,
-      bases,
-      body: [],
-      lineno: lineNumber,
+        for (const key of ['body', 'orelse', 'finalbody']) {
+          if (Array.isArray(statement[key])) {
+            visit(statement[key], globals);
+          }
+        }
+        (statement.handlers || []).forEach((handler: ASTNode) => visit(handler.body, globals));
+        (statement.cases || []).forEach((matchCase: ASTNode) =>
+          visit(matchCase.body || [], globals)
+        );
+      }
     };
+
+    visit(nodes, null);
+    return assignments;
   }
 
   /**
-   * Register class definitions in context
+   * Check for Final, typing.Final or Final[T]
    */
-  private registerClassDefinition(node: ASTNode): void {
-    const className = node.name;
-
-    // Extract attributes from __init__ method
-    const constructor = node.body.find(
-      (item: ASTNode) => item.type === 'FunctionDef' && item.name === '__init__'
+  private isFinalAnnotation(annotation: ASTNode): boolean {
+    const base = annotation.type === 'Subscript' ? annotation.value : annotation;
+    return (
+      (base.type === 'Name' && base.id === 'Final') ||
+      (base.type === 'Attribute' && base.attr === 'Final')
     );
-
-    const attributes: string[] = [];
-    if (constructor) {
-      // Get attribute names from constructor parameters
-      if (constructor.args && constructor.args.args) {
-        constructor.args.args.forEach((arg: any) => {
-          if (arg.arg !== 'self') {
-            attributes.push(arg.arg);
-          }
-        });
-      }
-    }
-
-    // Extract inheritance information
-    const bases: string[] = [];
-    if (node.bases && node.bases.length > 0) {
-      node.bases.forEach((base: any) => {
-        if (base.type === 'Name') {
-          bases.push(base.id);
-        }
-      });
-    }
-
-    // Register in context
-    if (!this.context.classDefinitions) {
-      this.context.classDefinitions = {};
-    }
-
-    this.context.classDefinitions[className] = {
-      attributes: attributes,
-      bases: bases,
-    };
   }
 
   /**
-   * Pre-register all class definitions (first pass of 2-pass processing)
+   * Check for a number, string or boolean literal (including negative numbers)
    */
-  private preRegisterAllClasses(nodes: ASTNode[]): void {
-    if (!nodes || !Array.isArray(nodes)) {
-      return;
-    }
-
-    for (const node of nodes) {
-      if (node && node.type === 'ClassDef') {
-        this.registerClassDefinition(node);
-      }
-    }
+  private isLiteral(node: ASTNode): boolean {
+    if (!node) return false;
+    if (node.type === 'UnaryOp' && node.op.type === 'USub') {
+      return node.operand.type === 'Constant' && typeof node.operand.value === 'number';
+    }
+    return (
+      node.type === 'Constant' &&
+      ['number', 'string', 'boolean'].includes(typeof node.value) &&
+      !node.isBytes &&
+      !node.isComplex
+    );
   }
 
   /**
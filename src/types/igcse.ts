@@ -125,6 +125,12 @@ export const PYTHON_TO_IGCSE_TYPES: Record<string, IGCSEDataType> = {
   dict: 'RECORD',
 };
 
+/**
+ * Type assumed for a value nothing is known about (an unannotated parameter, the
+ * result of an unknown call); numbers are the most common values in IGCSE programs
+ */
+export const DEFAULT_DATA_TYPE: IGCSEDataType = 'INTEGER';
+
 /**
  * Check IGCSE Pseudocode reserved words
  */
@@ -177,7 +183,7 @@ export function convertOperator(pythonOp: string): IGCSEOperator {
  * Convert Python type to IGCSE type
  */
 export function convertDataType(pythonType: string): IGCSEDataType {
-  return PYTHON_TO_IGCSE_TYPES[pythonType] || 'STRING';
+  return PYTHON_TO_IGCSE_TYPES[pythonType] || DEFAULT_DATA_TYPE;
 }
 
 /**
@@ -199,5 +205,5 @@ export function inferDataType(value: any): IGCSEDataType {
   if (typeof value === 'object' && value !== null) {
     return 'RECORD';
   }
-  return 'STRING'; // Default
+  return DEFAULT_DATA_TYPE;
 }
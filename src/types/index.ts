@@ -1,4 +1,5 @@
 // Type definition exports
+import { CallMapping, DeclarationPlacement, PseudocodeDialect } from './parser';
 
 // IR-related types
 export * from './ir';
@@ -56,6 +57,22 @@ export interface ConversionOptions {
   allowExperimentalSyntax?: boolean;
   /** Maximum nesting depth */
   maxNestingDepth?: number;
+  /** Rewrite equality-based if/elif chains as CASE statements */
+  preferCase?: boolean;
+  /** Rewrite break and continue as flags and IF blocks */
+  structuredLoops?: boolean;
+  /** Where to generate DECLARE statements for variables */
+  declarations?: DeclarationPlacement;
+  /** Pseudocode dialect */
+  dialect?: PseudocodeDialect;
+  /** Extra call mappings (e.g. LEN instead of LENGTH), taking precedence over the built-in ones */
+  callMappings?: CallMapping[];
+  /** Suffix added to a class name to name its record type (default Record: Point → PointRecord) */
+  recordSuffix?: string;
+  /** Convert lists changed by append, pop, insert, remove or del to fixed-size arrays with a length counter */
+  staticArrays?: boolean;
+  /** Capacity of static arrays without an annotation or size hint (default 100) */
+  arrayCapacity?: number;
   /** Parser type */
   parserType?: string;
   /** Emitter type */
@@ -57,6 +57,7 @@ export type IRKind =
   // Others
   | 'block' // Grouping of multiple IR nodes
   | 'case' // CASE statement
+  | 'case_branch' // CASE branch (value label or OTHERWISE)
   | 'statement' // General statement
   | 'expression' // Expression
   | 'compound' // Compound statement (grouping multiple statements)
@@ -82,6 +83,8 @@ export interface IRMeta {
   name?: string;
   /** Parameter list */
   params?: string[];
+  /** Names of parameters passed by reference */
+  byRefParams?: string[];
   /** Whether has return value (for FUNCTION determination) */
   hasReturn?: boolean;
   /** Line number of original Python code */
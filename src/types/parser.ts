@@ -1,6 +1,7 @@
 // Parser-related type definitions
 import { IR } from './ir';
 import { IGCSEDataType } from './igcse';
+import type { TypeInference } from '../parser/type-inference';
 
 /**
  * Parser configuration options
@@ -30,8 +31,57 @@ export interface ParserOptions {
   timeout?: number;
   /** Allow experimental syntax */
   allowExperimentalSyntax?: boolean;
+  /** Rewrite equality-based if/elif chains as CASE statements */
+  preferCase?: boolean;
+  /** Rewrite break and continue as flags and IF blocks */
+  structuredLoops?: boolean;
+  /** Where to generate DECLARE statements for variables */
+  declarations?: DeclarationPlacement;
+  /** Pseudocode dialect */
+  dialect?: PseudocodeDialect;
+  /** Extra call mappings, taking precedence over the built-in ones */
+  callMappings?: CallMapping[];
+  /** Suffix added to a class name to name its record type (Point → PointRecord) */
+  recordSuffix?: string;
+  /** Convert lists changed by append, pop, insert, remove or del to fixed-size arrays with a length counter */
+  staticArrays?: boolean;
+  /** Capacity of such arrays when neither an annotation nor a size hint gives one */
+  arrayCapacity?: number;
 }
 
+/**
+ * Rule converting a Python call to pseudocode
+ */
+export interface CallMapping {
+  /** Function name (len, math.sqrt) or method name (upper) */
+  name: string;
+  /** Whether the rule applies to method calls such as s.upper() */
+  method?: boolean;
+  /** Number of arguments the rule applies to; any number when omitted */
+  arity?: number;
+  /** Output, with {0}, {1}... for arguments, {args} for all of them and {object} for a method's object */
+  template: string;
+  /** Result type, used by type inference */
+  resultType?: IGCSEDataType;
+  /** Warning reported wherever the rule is used */
+  warning?: string;
+}
+
+/**
+ * Pseudocode dialects
+ */
+export type PseudocodeDialect =
+  | 'igcse' // Cambridge IGCSE (0478/0984): CONSTANT Pi ← 3.14
+  | 'alevel'; // Cambridge International AS & A Level (9618): CONSTANT Pi = 3.14
+
+/**
+ * Placement of generated DECLARE statements
+ */
+export type DeclarationPlacement =
+  | 'none' // Do not generate declarations
+  | 'top' // At the top of the main program and of each PROCEDURE/FUNCTION
+  | 'beforeFirstUse'; // Immediately before the statement that first assigns the variable
+
 /**
  * Parser result
  */
@@ -99,7 +149,10 @@ export type ParseWarningType =
   | 'implicit_conversion' // Implicit conversion
   | 'deprecated_syntax' // Deprecated syntax
   | 'performance_hint' // Performance hint
-  | 'style_suggestion'; // Style suggestion
+  | 'style_suggestion' // Style suggestion
+  | 'unsupported_feature' // Feature that IGCSE pseudocode cannot express
+  | 'constant_reassignment' // Assignment to a name that is used as a constant
+  | 'structured_rewrite'; // break or continue rewritten as structured code
 
 /**
  * Parse statistics
@@ -181,6 +234,8 @@ export interface ScopeInfo {
   functions: Map<string, FunctionInfo>;
   /** Scope type */
   type: ScopeType;
+  /** Names declared with global/nonlocal in this scope */
+  globals?: string[];
 }
 
 /**
@@ -235,19 +290,43 @@ export interface ParserContext {
   /** Current function */
   currentFunction?: FunctionInfo;
   /** Current class */
-  currentClass?: string;
+  currentClass?: string | undefined;
   /** Indent level */
   indentLevel: number;
   /** Error list */
   errors: ParseError[];
   /** Warning list */
   warnings: ParseWarning[];
-  /** Array information */
-  arrayInfo: { [key: string]: { size: number; elementType: string; currentIndex: number } };
+  /** Array information; count names the variable holding the length of a static array */
+  arrayInfo: {
+    [key: string]: { size: number; elementType: string; currentIndex: number; count?: string };
+  };
+  /** Size of each dimension of a 2D array (grid → ["3", "5"]) */
+  arrayBounds: { [key: string]: string[] };
+  /** Variables holding a dictionary, which IGCSE has no loop over */
+  dictionaries: Set<string>;
+  /** Lists changed by append, pop, insert, remove or del, with the type of the values added */
+  dynamicLists: { [key: string]: IGCSEDataType | null };
+  /** Constants (name → line of the defining assignment) */
+  constants: { [key: string]: number };
+  /** Open file handles (variable name → file name expression) */
+  fileHandles: { [key: string]: string };
+  /** Lines of the source, to quote code that cannot be converted */
+  sourceLines: string[];
+  /** Every identifier in the source, so generated names can avoid them */
+  identifiers: Set<string>;
+  /** Functions returning a tuple, converted to procedures with these BYREF output parameters */
+  tupleFunctions: { [key: string]: Array<{ name: string; type: IGCSEDataType }> };
+  /** Imported names → qualified Python names (m → math, randint → random.randint) */
+  imports: { [key: string]: string };
+  /** Warnings from the calls in the statement being converted */
+  callWarnings: Array<{ message: string; needsTranslation: boolean }>;
   /** Parameter mapping (for constructors) */
   parameterMapping: { [key: string]: string };
   /** Class definition information */
   classDefinitions?: { [key: string]: any };
+  /** Types inferred for the whole module before conversion */
+  typeInference?: TypeInference;
   /** Parse start time */
   startTime: number;
   /** Method to determine if it's a class */
@@ -58,28 +58,239 @@ else:
   ENDIF
 ELSE
   OUTPUT "Not positive"
+ENDIF`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should hoist a conditional expression into an IF block', () => {
+      const pythonCode =
+`status = "pass" if score >= 50 else "fail"
+def grade(mark):
+    return "A" if mark >= 70 else "B" if mark >= 50 else "C"`;
+      const result = converter.convert(pythonCode);
+      const expected =
+`IF score ≥ 50 THEN
+  status ← "pass"
+ELSE
+  status ← "fail"
+ENDIF
+FUNCTION Grade(mark : INTEGER) RETURNS STRING
+  IF mark ≥ 70 THEN
+    RETURN "A"
+  ELSE IF mark ≥ 50 THEN
+    RETURN "B"
+  ELSE
+    RETURN "C"
+  ENDIF
+ENDFUNCTION`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should assign a conditional expression inside a larger expression to a temporary', () => {
+      const pythonCode =
+`bonus = 5
+total = 10 + (bonus if eligible else 0)
+print("even" if n % 2 == 0 else "odd", "big" if n > 100 else "small")`;
+      const result = converter.convert(pythonCode);
+      const expected =
+`bonus ← 5
+DECLARE Temp : INTEGER
+IF eligible THEN
+  Temp ← bonus
+ELSE
+  Temp ← 0
+ENDIF
+total ← 10 + Temp
+DECLARE Temp2 : STRING
+IF n MOD 2 = 0 THEN
+  Temp2 ← "even"
+ELSE
+  Temp2 ← "odd"
+ENDIF
+DECLARE Temp3 : STRING
+IF n > 100 THEN
+  Temp3 ← "big"
+ELSE
+  Temp3 ← "small"
+ENDIF
+OUTPUT Temp2, Temp3`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should hoist conditional expressions from loop ranges, loop conditions and ELSE IF tests', () => {
+      const pythonCode =
+`a = 3
+b = 5
+for i in range(a if c else b):
+    print(i)
+while n < (a if c else b):
+    n = n + 1
+if n > 10:
+    print("big")
+elif n > (a if c else b):
+    print("mid")`;
+      const result = converter.convert(pythonCode);
+      const expected =
+`a ← 3
+b ← 5
+DECLARE Temp : INTEGER
+IF c THEN
+  Temp ← a
+ELSE
+  Temp ← b
+ENDIF
+FOR i ← 0 TO Temp - 1
+  OUTPUT i
+NEXT i
+IF c THEN
+  Temp ← a
+ELSE
+  Temp ← b
+ENDIF
+WHILE n < Temp DO
+  n ← n + 1
+  IF c THEN
+    Temp ← a
+  ELSE
+    Temp ← b
+  ENDIF
+ENDWHILE
+IF n > 10 THEN
+  OUTPUT "big"
+ELSE
+  IF c THEN
+    Temp ← a
+  ELSE
+    Temp ← b
+  ENDIF
+  IF n > Temp THEN
+    OUTPUT "mid"
+  ENDIF
 ENDIF`;
       expect(result.code).toBe(expected);
     });
   });
 
-  // CASE Statements (Note: Python doesn't have a direct CASE equivalent, often implemented with if-elif-else)
-  // For now, we'll assume direct pseudocode generation if a specific Python pattern is recognized or via a custom IR node.
-  // This might require more advanced parsing logic or a specific Python construct to map to CASE.
-  // describe('CASE Statements', () => {
-  //   it('should convert a structure recognized as CASE', async () => {
-  //     // Placeholder for how Python code might map to CASE
-  //     // e.g., using a dictionary lookup or specific comment annotation
-  //     const pythonCode = '# PSEUDO_CASE_OF direction\nif direction == "N":\n    y = y + 1\nelif direction == "S":\n    y = y - 1\n# END_PSEUDO_CASE';
-  //     const result = await converter.convert(pythonCode);
-  //     const expected = 
-  // `CASE OF direction
-  //   "N" : y ← y + 1
-  //   "S" : y ← y - 1
-  // ENDCASE`;
-  //     expect(result.code).toBe(expected);
-  //   });
-  // });
+  // CASE Statements (Python 3.10 match/case)
+  describe('CASE Statements', () => {
+    it('should convert match/case with literal patterns to CASE OF', () => {
+      const pythonCode = 
+`match direction:
+    case "N":
+        y = y + 1
+    case "S":
+        y = y - 1
+    case _:
+        print("Invalid")`;
+      const result = converter.convert(pythonCode);
+      const expected = 
+`CASE OF direction
+  "N" : y ← y + 1
+  "S" : y ← y - 1
+  OTHERWISE : OUTPUT "Invalid"
+ENDCASE`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should give each | alternative its own label and indent multi-line bodies', () => {
+      const pythonCode = 
+`match day:
+    case 6 | 7:
+        print("Weekend")
+    case 1:
+        print("Monday")
+        print("Back to work")`;
+      const result = converter.convert(pythonCode);
+      const expected = 
+`CASE OF day
+  6 : OUTPUT "Weekend"
+  7 : OUTPUT "Weekend"
+  1 :
+    OUTPUT "Monday"
+    OUTPUT "Back to work"
+ENDCASE`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should warn about class patterns, captures and guards', () => {
+      const pythonCode = 
+`match shape:
+    case Circle(r=1):
+        print("unit circle")
+    case 0 if strict:
+        print("zero")
+    case other:
+        print(other)`;
+      const result = converter.convert(pythonCode);
+      const expected = 
+`CASE OF shape
+  // Unsupported case pattern (line 2)
+  0 :
+    IF strict THEN
+      OUTPUT "zero"
+    ENDIF
+  OTHERWISE :
+    other ← shape
+    OUTPUT other
+ENDCASE`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['unsupported_feature', 2],
+        ['unsupported_feature', 4],
+        ['unsupported_feature', 6],
+      ]);
+    });
+
+    it('should still treat match as a name outside a match statement', () => {
+      const result = converter.convert('match = 3\nprint(match)');
+      expect(result.code).toBe('match ← 3\nOUTPUT match');
+    });
+
+    it('should convert if/elif equality chains to CASE when preferCase is set', () => {
+      const pythonCode = 
+`if grade == "A":
+    print("Excellent")
+elif grade == "B" or grade == "C":
+    print("Good")
+else:
+    print("Try again")`;
+      const result = new Converter({ preferCase: true }).convert(pythonCode);
+      const expected = 
+`CASE OF grade
+  "A" : OUTPUT "Excellent"
+  "B" : OUTPUT "Good"
+  "C" : OUTPUT "Good"
+  OTHERWISE : OUTPUT "Try again"
+ENDCASE`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should accept integer labels on either side of the comparison', () => {
+      const pythonCode = 
+`if n == 1:
+    x = 10
+elif 2 == n:
+    x = 20`;
+      const result = new Converter({ preferCase: true }).convert(pythonCode);
+      expect(result.code).toBe('CASE OF n\n  1 : x ← 10\n  2 : x ← 20\nENDCASE');
+    });
+
+    it('should keep IF when the chain is not a pure equality chain', () => {
+      const pythonCode = 
+`if n == 1:
+    x = 10
+elif n > 1:
+    x = 20`;
+      const result = new Converter({ preferCase: true }).convert(pythonCode);
+      expect(result.code).toBe('IF n = 1 THEN\n  x ← 10\nELSE IF n > 1 THEN\n  x ← 20\nENDIF');
+    });
+
+    it('should keep IF for equality chains by default', () => {
+      const result = converter.convert('if n == 1:\n    x = 10\nelif n == 2:\n    x = 20');
+      expect(result.code).toContain('IF n = 1 THEN');
+      expect(result.code).not.toContain('CASE OF');
+    });
+  });
 
   // FOR Loops
   describe('FOR Loops', () => {
@@ -109,6 +320,69 @@ ENDIF`;
       // 5, 4, 3, 2, 1. Pseudocode FOR end is inclusive.
       expect(result.code).toBe('FOR i ← 5 TO 1 STEP -1\n  OUTPUT i\nNEXT i');
     });
+
+    it('should convert for-each over a list to an index-based FOR loop', () => {
+      const pythonCode = 'def total(items):\n    result = 0\n    for item in items:\n        result = result + item\n    return result';
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain(
+        '  FOR i ← 1 TO LENGTH(items)\n    item ← items[i]\n    result ← result + item\n  NEXT i'
+      );
+    });
+
+    it('should read characters of a string with SUBSTRING and avoid used names', () => {
+      const pythonCode = 'word = "abc"\ni = 0\nfor ch in word:\n    print(ch, i)';
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain(
+        'FOR j ← 1 TO LENGTH(word)\n  ch ← SUBSTRING(word, j, 1)\n  OUTPUT ch, i\nNEXT j'
+      );
+    });
+
+    it('should read a string returned by a call once before looping over it', () => {
+      const result = converter.convert('for c in input():\n    print(c)');
+      expect(result.code).toContain(
+        'INPUT Temp\nFOR i ← 1 TO LENGTH(Temp)\n  OUTPUT SUBSTRING(Temp, i, 1)\nNEXT i'
+      );
+    });
+
+    it('should mark loops over dictionaries and other iterables for manual translation', () => {
+      const pythonCode = 
+`ages = {"Ann": 12}
+for name in ages:
+    print(name)
+for word in sorted(words):
+    print(word)`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain('FOR name IN ages // needs manual translation');
+      expect(result.code).toContain('FOR word IN sorted(words) // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => [w.message, w.line])).toEqual([
+        ['Iteration over ages on line 2 has no IGCSE equivalent', 2],
+        ['Iteration over sorted(words) on line 4 has no IGCSE equivalent', 4],
+      ]);
+    });
+
+    it('should use the enumerate() index as the loop counter', () => {
+      const pythonCode = 
+`names = ["Ann", "Bob"]
+for n, name in enumerate(names):
+    print(n, name)
+for pos, name in enumerate(names, start=1):
+    print(pos, name)`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain('FOR n ← 0 TO 1\n  name ← names[n + 1]\n  OUTPUT n, name\nNEXT n');
+      expect(result.code).toContain('FOR pos ← 1 TO 2\n  name ← names[pos]\n  OUTPUT pos, name\nNEXT pos');
+    });
+
+    it('should walk zip() lists with a single counter', () => {
+      const pythonCode = 
+`names = ["Ann", "Bob"]
+scores = [70, 85]
+for name, score in zip(names, scores):
+    print(name, score)`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain(
+        'FOR i ← 1 TO 2\n  name ← names[i]\n  score ← scores[i]\n  OUTPUT name, score\nNEXT i'
+      );
+    });
   });
 
   // WHILE Loops
@@ -153,6 +427,106 @@ ENDWHILE`;
       expect(result.code).toContain('i ← i + 1');
       expect(result.code).toContain('i = 3');
     });
+
+    it('should report the else block of a loop and keep it as a comment', () => {
+      const pythonCode =
+`for v in values:
+    if v == target:
+        break
+else:
+    print("not found")`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain(
+        '// Not converted: else block of the FOR loop (runs when the loop ends without a break)\n' +
+          '//   print("not found")'
+      );
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['unsupported_feature', 5],
+      ]);
+    });
+
+    it('should keep only the else block in the comment when code follows the loop', () => {
+      const pythonCode =
+`while n > 0:
+    n = n - 1
+else:
+    if n == 0:
+        print("done")
+
+print("after")`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toContain(
+        '//   if n == 0:\n' + '//       print("done")\n' + 'OUTPUT "after"'
+      );
+    });
+  });
+
+  // BREAK / CONTINUE rewrites (neither keyword exists in IGCSE pseudocode)
+  describe('Structured BREAK and CONTINUE', () => {
+    const structured = new Converter({ structuredLoops: true });
+
+    it('should move the rest of the loop body into an IF instead of CONTINUE', () => {
+      const pythonCode = 'for n in range(10):\n    if n % 2 == 0:\n        continue\n    print(n)';
+      const result = structured.convert(pythonCode);
+      expect(result.code).toBe('FOR n ← 0 TO 9\n  IF n MOD 2 ≠ 0 THEN\n    OUTPUT n\n  ENDIF\nNEXT n');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['structured_rewrite', 3],
+      ]);
+    });
+
+    it('should replace BREAK with a flag tested in the WHILE condition', () => {
+      const pythonCode = 
+`total = 0
+while total < 100:
+    value = int(input())
+    if value < 0:
+        break
+    total = total + value`;
+      const result = structured.convert(pythonCode);
+      const expected = 
+`total ← 0
+done ← FALSE
+WHILE total < 100 AND NOT done DO
+  INPUT value
+  IF value < 0 THEN
+    done ← TRUE
+  ENDIF
+  IF NOT done THEN
+    total ← total + value
+  ENDIF
+ENDWHILE`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings.map((w) => w.message)).toEqual([
+        "'break' on line 5 was replaced by setting the flag 'done'",
+      ]);
+    });
+
+    it('should turn a FOR loop with BREAK into a WHILE loop', () => {
+      const pythonCode = 'for i in range(5, 0, -1):\n    if i == 2:\n        break\n    print(i)';
+      const result = structured.convert(pythonCode);
+      const expected = 
+`i ← 5
+done ← FALSE
+WHILE i > 0 AND NOT done DO
+  IF i = 2 THEN
+    done ← TRUE
+  ENDIF
+  IF NOT done THEN
+    OUTPUT i
+    i ← i - 1
+  ENDIF
+ENDWHILE`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['structured_rewrite', 1],
+        ['structured_rewrite', 3],
+      ]);
+    });
+
+    it('should keep BREAK and CONTINUE by default', () => {
+      const result = converter.convert('for n in range(3):\n    if n == 1:\n        continue\n    print(n)');
+      expect(result.code).toContain('CONTINUE');
+    });
   });
 
   // REPEAT-UNTIL Loops (Note: Python uses while for this, so mapping requires recognizing the pattern)
@@ -175,6 +549,67 @@ REPEAT
 UNTIL guess = "7"`;
       expect(result.code).toBe(expected);
     });
+
+    it('should keep statements after the break inside REPEAT under IF NOT', () => {
+      const pythonCode = 
+`while True:
+    mark = input("Mark: ")
+    if mark >= 0 and mark <= 100:
+        break
+    print("Invalid mark")`;
+      const result = converter.convert(pythonCode);
+      const expected = 
+`REPEAT
+  OUTPUT "Mark: "
+  INPUT mark
+  IF NOT (mark ≥ 0 AND mark ≤ 100) THEN
+    OUTPUT "Invalid mark"
+  ENDIF
+UNTIL mark ≥ 0 AND mark ≤ 100`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should use a pre-test WHILE when the break comes first', () => {
+      const pythonCode = 
+`while True:
+    if count >= 10:
+        print("Full")
+        break
+    count = count + 1`;
+      const result = converter.convert(pythonCode);
+      expect(result.code).toBe('WHILE count < 10 DO\n  count ← count + 1\nENDWHILE\nOUTPUT "Full"');
+    });
+
+    it('should fall back to a flag when the condition changes after the break', () => {
+      const pythonCode = 
+`while True:
+    x = x + 1
+    if x > 10:
+        break
+    x = x * 2`;
+      const result = converter.convert(pythonCode);
+      const expected = 
+`done ← FALSE
+WHILE NOT done DO
+  x ← x + 1
+  IF x > 10 THEN
+    done ← TRUE
+  ENDIF
+  IF NOT done THEN
+    x ← x * 2
+  ENDIF
+ENDWHILE`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['structured_rewrite', 4],
+      ]);
+    });
+
+    it('should not treat a conditional WHILE ending in break as REPEAT', () => {
+      const result = converter.convert('while n > 0:\n    n = n - 1\n    if n == 5:\n        break');
+      expect(result.code).toContain('WHILE n > 0 DO');
+      expect(result.code).not.toContain('REPEAT');
+    });
   });
 
   // Nested Control Structures
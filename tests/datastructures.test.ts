@@ -87,6 +87,354 @@ NEXT i`;
       expect(result.code).toContain('OUTPUT scores[i]');
       expect(result.code).toContain('NEXT i');
     });
+
+    it('should shift index expressions to 1-based positions', async () => {
+      const pythonCode = 
+`data = [3, 1, 2]
+grid = [[1, 2], [3, 4]]
+j = 0
+r = 0
+c = 1
+if data[j] > data[j + 1]:
+    data[j + 1] = data[j]
+print(grid[r + 1][c])`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('IF data[j + 1] > data[j + 2] THEN');
+      expect(result.code).toContain('data[j + 2] ← data[j + 1]');
+      expect(result.code).toContain('OUTPUT grid[r + 2, c + 1]');
+    });
+
+    it('should keep dictionary keys as they are', async () => {
+      const pythonCode = 'd = {"a": 1}\nk = "a"\nprint(d["a"], d[k])';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('OUTPUT d["a"], d[k]');
+    });
+
+    it('should use the declared sizes for the length of a 2D array and its rows', async () => {
+      const pythonCode = 
+`grid = [[0] * 5 for _ in range(3)]
+print(len(grid), len(grid[0]), grid[-1][-1])`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('OUTPUT 3, 5, grid[3, 5]');
+    });
+
+    it('should convert a nested list literal to a 2D array', async () => {
+      const pythonCode = 'board = [[1, 2], [3, 4]]\nprint(board[1][0])';
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE board : ARRAY[1:2, 1:2] OF INTEGER
+board[1, 1] ← 1
+board[1, 2] ← 2
+board[2, 1] ← 3
+board[2, 2] ← 4
+OUTPUT board[2, 1]`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should initialise a 2D array with nested FOR loops', async () => {
+      const pythonCode = 
+`grid = [[0] * 5 for _ in range(3)]
+for r in range(3):
+    for c in range(5):
+        grid[r][c] = r * c`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE grid : ARRAY[1:3, 1:5] OF INTEGER
+FOR i ← 1 TO 3
+  FOR j ← 1 TO 5
+    grid[i, j] ← 0
+  NEXT j
+NEXT i
+FOR r ← 0 TO 2
+  FOR c ← 0 TO 4
+    grid[r + 1, c + 1] ← r * c
+  NEXT c
+NEXT r`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should not reuse a program variable as the fill loop counter', async () => {
+      const pythonCode = 'i = 7\ngrid = [[0] * 5 for _ in range(3)]\nprint(i)';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('FOR j ← 1 TO 3');
+      expect(result.code).toContain('grid[j, k] ← 0');
+      expect(result.code).not.toContain('FOR i ←');
+    });
+
+    it('should keep 0-based loop variables used in the fill value', async () => {
+      const result = await converter.convert('table = [[r * c for c in range(4)] for r in range(2)]');
+      expect(result.code).toContain('DECLARE table : ARRAY[1:2, 1:4] OF INTEGER');
+      expect(result.code).toContain('    table[r + 1, c + 1] ← r * c');
+    });
+
+    it('should fill a 1D array created with [value] * n', async () => {
+      const result = await converter.convert('flags = [False] * 10');
+      expect(result.code).toBe(
+        'DECLARE flags : ARRAY[1:10] OF BOOLEAN\nFOR i ← 1 TO 10\n  flags[i] ← FALSE\nNEXT i'
+      );
+    });
+  });
+
+  describe('Static Array Tests', () => {
+    it('should keep a length counter for lists changed by append and pop', async () => {
+      converter = new Converter({ staticArrays: true });
+      const pythonCode = 
+`scores: list[int] = []
+scores.append(5)
+scores.insert(0, 3)
+last = scores.pop()
+for s in scores:
+    print(s)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE scores : ARRAY[1:100] OF INTEGER
+DECLARE scoresCount : INTEGER
+scoresCount ← 0
+scoresCount ← scoresCount + 1
+scores[scoresCount] ← 5
+FOR i ← scoresCount TO 1 STEP -1
+  scores[i + 1] ← scores[i]
+NEXT i
+scores[1] ← 3
+scoresCount ← scoresCount + 1
+last ← scores[scoresCount]
+scoresCount ← scoresCount - 1
+FOR i ← 1 TO scoresCount
+  OUTPUT scores[i]
+NEXT i`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should shift elements down for remove, del and pop with an index', async () => {
+      converter = new Converter({ staticArrays: true, arrayCapacity: 10 });
+      const pythonCode = 
+`names = ["Ann", "Bob", "Cy"]
+names.remove("Bob")
+del names[0]
+print(len(names))`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE names : ARRAY[1:10] OF STRING
+DECLARE namesCount : INTEGER
+names[1] ← "Ann"
+names[2] ← "Bob"
+names[3] ← "Cy"
+namesCount ← 3
+position ← 1
+WHILE position ≤ namesCount AND names[position] ≠ "Bob" DO
+  position ← position + 1
+ENDWHILE
+FOR i ← position TO namesCount - 1
+  names[i] ← names[i + 1]
+NEXT i
+namesCount ← namesCount - 1
+FOR i ← 1 TO namesCount - 1
+  names[i] ← names[i + 1]
+NEXT i
+namesCount ← namesCount - 1
+OUTPUT namesCount`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should take the capacity from a size hint or an Annotated annotation', async () => {
+      converter = new Converter({ staticArrays: true });
+      const pythonCode = 
+`from typing import Annotated
+
+queue = []  # igcse: size=50
+queue.append("job")
+stack: Annotated[list[int], 20] = []
+stack.append(1)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('DECLARE queue : ARRAY[1:50] OF STRING');
+      expect(result.code).toContain('DECLARE stack : ARRAY[1:20] OF INTEGER');
+    });
+
+    it('should fill in records appended to a static array field by field', async () => {
+      converter = new Converter({ staticArrays: true });
+      const pythonCode = 
+`class Student:
+    def __init__(self, name, age):
+        self.name = name
+        self.age = age
+
+students = []
+students.append(Student("C", 9))`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE students : ARRAY[1:100] OF StudentRecord
+DECLARE studentsCount : INTEGER
+studentsCount ← 0
+studentsCount ← studentsCount + 1
+students[studentsCount].name ← "C"
+students[studentsCount].age ← 9`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should count negative subscripts back from the length counter', async () => {
+      converter = new Converter({ staticArrays: true });
+      const pythonCode = 
+`scores = [5, 3, 8]
+scores.pop(0)
+print(scores[-1])
+scores[-2] = 4`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('OUTPUT scores[scoresCount]');
+      expect(result.code).toContain('scores[scoresCount - 1] ← 4');
+    });
+  });
+
+  describe('List Comprehension Tests', () => {
+    it('should expand a filtered list comprehension into a FOR loop', async () => {
+      const pythonCode = 'squares = [x * x for x in range(10) if x % 2 == 0]';
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE squares : ARRAY[1:10] OF INTEGER
+DECLARE squaresCount : INTEGER
+squaresCount ← 0
+FOR x ← 0 TO 9
+  IF x MOD 2 = 0 THEN
+    squaresCount ← squaresCount + 1
+    squares[squaresCount] ← x * x
+  ENDIF
+NEXT x`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should not overwrite program variables with generated or comprehension names', async () => {
+      const pythonCode = 
+`i = 7
+x = 5
+sqCount = 99
+names = ["a", "b"]
+up = [s.upper() for s in names]
+sq = [x * x for x in range(3)]
+print(x, i, sqCount)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`FOR j ← 1 TO 2
+  s ← names[j]
+  upCount ← upCount + 1
+  up[upCount] ← UCASE(s)
+NEXT j
+DECLARE sq : ARRAY[1:3] OF INTEGER
+DECLARE sqLength : INTEGER
+sqLength ← 0
+FOR x2 ← 0 TO 2
+  sqLength ← sqLength + 1
+  sq[sqLength] ← x2 * x2
+NEXT x2
+OUTPUT x, i, sqCount`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should expand multiple for clauses into nested loops over arrays', async () => {
+      const pythonCode = 
+`data = [3, 1]
+pairs = [d * k for d in data for k in range(1, 3)]`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE pairs : ARRAY[1:4] OF INTEGER
+DECLARE pairsCount : INTEGER
+pairsCount ← 0
+FOR i ← 1 TO 2
+  d ← data[i]
+  FOR k ← 1 TO 2
+    pairsCount ← pairsCount + 1
+    pairs[pairsCount] ← d * k
+  NEXT k
+NEXT i`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should report set and dict comprehensions as unsupported', async () => {
+      const pythonCode = 'unique = {x for x in data}\nlookup = {x: 1 for x in data}';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe(
+        '// Unsupported set comprehension (line 1)\n// Unsupported dictionary comprehension (line 2)'
+      );
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['unsupported_feature', 1],
+        ['unsupported_feature', 2],
+      ]);
+    });
+
+    it('should build a list comprehension inside an expression into a temporary array', async () => {
+      const pythonCode = 
+`values = [3, 1, 2]
+print(max([v + 1 for v in values]))`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE Temp : ARRAY[1:3] OF INTEGER
+DECLARE TempCount : INTEGER
+TempCount ← 0
+FOR i ← 1 TO 3
+  v ← values[i]
+  TempCount ← TempCount + 1
+  Temp[TempCount] ← v + 1
+NEXT i
+OUTPUT MAX(Temp)`;
+      expect(result.code).toContain(expected);
+      expect(result.code).not.toContain('/*');
+    });
+
+    it('should mark a list comprehension in a loop condition for manual translation', async () => {
+      const pythonCode = 
+`while len([v for v in values if v > 0]) > 0:
+    values = []`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('// needs manual translation');
+      expect(result.code).not.toContain('/*');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['unsupported_feature', 1],
+      ]);
+    });
+  });
+
+  // String indexing and slicing
+  describe('String Tests', () => {
+    it('should convert string indexing to SUBSTRING with 1-based positions', async () => {
+      const pythonCode = 'word = "python"\nprint(word[0], word[i], word[-1], word[-2])';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain(
+        'OUTPUT SUBSTRING(word, 1, 1), SUBSTRING(word, i + 1, 1), SUBSTRING(word, LENGTH(word), 1), SUBSTRING(word, LENGTH(word) - 1, 1)'
+      );
+    });
+
+    it('should convert slices, including open-ended and negative bounds', async () => {
+      const pythonCode = 
+`def parts(word: str):
+    print(word[1:4], word[:3], word[2:])
+    print(word[-3:], word[:-1], word[i:j])`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain(
+        'OUTPUT SUBSTRING(word, 2, 3), SUBSTRING(word, 1, 3), SUBSTRING(word, 3, LENGTH(word) - 2)'
+      );
+      expect(result.code).toContain(
+        'OUTPUT SUBSTRING(word, LENGTH(word) - 2, 3), SUBSTRING(word, 1, LENGTH(word) - 1), SUBSTRING(word, i + 1, j - i)'
+      );
+    });
+
+    it('should mark slices with a step for manual translation', async () => {
+      const pythonCode = 'word = "python"\nbackwards = word[::-1]';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('backwards ← word[::-1] // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => [w.message, w.type])).toEqual([
+        ['Slice with a step on line 2 has no IGCSE equivalent', 'unsupported_feature'],
+      ]);
+    });
+
+    it('should use MID in the A Level dialect', async () => {
+      const result = await new Converter({ dialect: 'alevel' }).convert(
+        'code = "AB123"\nprefix = code[:2]'
+      );
+      expect(result.code).toContain('prefix ← MID(code, 1, 2)');
+    });
+
+    it('should keep array indexing for lists', async () => {
+      const result = await converter.convert('items = [1, 2, 3]\nfirst = items[0]');
+      expect(result.code).toContain('first ← items[1]');
+    });
   });
 
   // RECORD (TYPE definition in IGCSE) Tests
@@ -199,5 +547,245 @@ ENDTYPE`; // Assuming 'Point' class maps to 'PointRecord'
       expect(result.code).toContain('path[2].y ← 4');
       expect(result.code).toContain('first_point_x ← path[1].x');
     });
+
+    it('should convert a dataclass to a typed record filled in field by field', async () => {
+      const pythonCode = 
+`from dataclasses import dataclass
+
+@dataclass
+class Point:
+    x: int
+    y: int = 0
+
+p = Point(3)
+q = Point(y=4, x=1)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`TYPE PointRecord
+  DECLARE x : INTEGER
+  DECLARE y : INTEGER
+ENDTYPE
+DECLARE p : PointRecord
+p.x ← 3
+p.y ← 0
+DECLARE q : PointRecord
+q.x ← 1
+q.y ← 4`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should build records returned or passed as arguments in a temporary', async () => {
+      const pythonCode = 
+`from dataclasses import dataclass
+
+@dataclass
+class Point:
+    x: int
+    y: int
+
+def origin():
+    return Point(0, 0)
+
+def show(p):
+    print(p.x)
+
+show(Point(1, 2))`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`FUNCTION Origin() RETURNS PointRecord
+  DECLARE Temp : PointRecord
+  Temp.x ← 0
+  Temp.y ← 0
+  RETURN Temp
+ENDFUNCTION
+PROCEDURE Show(p : PointRecord)
+  OUTPUT p.x
+ENDPROCEDURE
+DECLARE Temp : PointRecord
+Temp.x ← 1
+Temp.y ← 2
+CALL Show(Temp)`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should convert NamedTuple and TypedDict classes to records', async () => {
+      const pythonCode = 
+`from typing import NamedTuple, TypedDict
+
+class Pair(NamedTuple):
+    name: str
+    score: float
+
+class Student(TypedDict):
+    name: str
+    age: int
+
+pair = Pair("a", 1.5)
+s: Student = {"name": "Al", "age": 17}
+s["age"] = 18
+print(s["name"], pair.score)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`TYPE PairRecord
+  DECLARE name : STRING
+  DECLARE score : REAL
+ENDTYPE
+TYPE StudentRecord
+  DECLARE name : STRING
+  DECLARE age : INTEGER
+ENDTYPE
+DECLARE pair : PairRecord
+pair.name ← "a"
+pair.score ← 1.5
+DECLARE s : StudentRecord
+s.name ← "Al"
+s.age ← 17
+s.age ← 18
+OUTPUT s.name, pair.score`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should name record types with the configured suffix', async () => {
+      converter = new Converter({ recordSuffix: 'Type' });
+      const pythonCode = 
+`from dataclasses import dataclass
+
+@dataclass
+class Point:
+    x: int
+    y: int
+
+p = Point(1, 2)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('TYPE PointType');
+      expect(result.code).toContain('DECLARE p : PointType');
+    });
+
+    it('should fill each record of an array and access fields inside loops', async () => {
+      const pythonCode = 
+`class Student:
+    def __init__(self, name: str, age: int = 11):
+        self.name = name
+        self.age = age
+
+students = [Student("A", 12), Student("B")]
+for s in students:
+    print(s.name)
+students[0].age = 13`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE students : ARRAY[1:2] OF StudentRecord
+students[1].name ← "A"
+students[1].age ← 12
+students[2].name ← "B"
+students[2].age ← 11
+FOR i ← 1 TO 2
+  s ← students[i]
+  OUTPUT s.name
+NEXT i
+students[1].age ← 13`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should report fields missing from the record type as name errors', async () => {
+      const pythonCode = 
+`class Student:
+    def __init__(self, name: str, age: int):
+        self.name = name
+        self.age = age
+
+students = [Student("A", 12), Student("B", 13)]
+for s in students:
+    print(s.nmae)`;
+      const result = await converter.convert(pythonCode);
+      const nameError = result.parseResult.errors.find((e: any) => e.type === 'name_error');
+      expect(nameError?.message).toBe('nmae is not a field of StudentRecord');
+      expect(nameError?.line).toBe(8);
+    });
+  });
+
+  describe('Enumerated TYPE Tests', () => {
+    it('should convert an Enum class to an enumerated TYPE and refer to members by name', async () => {
+      const pythonCode = 
+`from enum import Enum
+
+class Day(Enum):
+    MON = 1
+    TUE = 2
+    WED = 3
+
+today = Day.TUE
+if today == Day.MON:
+    print("Start")`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`TYPE Day = (MON, TUE, WED)
+today ← TUE
+IF today = MON THEN
+  OUTPUT "Start"
+ENDIF`;
+      expect(result.code).toContain(expected);
+      expect(result.code).not.toContain('ENDTYPE');
+    });
+
+    it('should warn when code depends on the value of an enumeration member', async () => {
+      const pythonCode = 
+`from enum import Enum
+
+class Day(Enum):
+    MON = 1
+    TUE = 2
+
+today = Day.TUE
+print(today.value)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('OUTPUT today // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => w.message)).toContain(
+        'today.value depends on the values of enumeration Day, which IGCSE enumerated types do not have'
+      );
+    });
+
+    it('should find a member by its value and warn about loops over an enumeration', async () => {
+      const pythonCode = 
+`from enum import Enum
+
+class Day(Enum):
+    MON = 1
+    TUE = 2
+
+today = Day(2)
+other = Day(n)
+for d in Day:
+    print(d)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('today ← TUE\nother ← Day(n) // needs manual translation');
+      expect(result.code).toContain('FOR d IN Day // needs manual translation');
+      expect(result.code).not.toContain('DayRecord');
+      expect(result.parseResult.warnings.map((w) => w.message)).toEqual([
+        'Day(n) finds a member of enumeration Day by its value, which IGCSE enumerated types do not have',
+        'Iteration over Day on line 9 has no IGCSE equivalent',
+      ]);
+    });
+
+    it('should keep the class in .name and warn about objects that may be enumeration members', async () => {
+      const pythonCode = 
+`from enum import Enum
+
+class Day(Enum):
+    MON = 1
+    WED = 3
+
+def code(d):
+    return d.value
+
+print(Day.WED.name)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('RETURN d.value\n');
+      expect(result.code).toContain('OUTPUT Day.WED.name // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => w.message)).toEqual([
+        'd.value may read the value of an enumeration member, which IGCSE enumerated types do not have',
+        'Day.WED.name depends on the names of enumeration Day, which IGCSE enumerated types do not have',
+      ]);
+    });
   });
 });
\ No newline at end of file
@@ -107,82 +107,64 @@ print(x) # x should still be 5 in Python if val is a number (immutable)`;
 ENDPROCEDURE
 x ← 5
 CALL Increment_val(x)
-OUTPUT x) // x should still be 5 in Python IF val is a number (immutable`;
+OUTPUT x // x should still be 5 in Python IF val is a number (immutable)`;
       expect(result.code).toBe(expected);
     });
 
-    // Test for BYREF would require defining how the converter identifies BYREF parameters from Python.
-    // Example: Using a comment like '# BYREF param_name'
-    // Or a specific type wrapper: def proc(param: ByRef[int]):
-    it('should handle parameters intended as BYREF (if a convention is established)', async () => {
-      // This test is conceptual until BYREF detection is implemented.
-      // Python code simulating a BYREF intention, e.g., by modifying a list (mutable).
+    // BYREF is inferred when the caller can observe a change to the argument
+    it('should mark a parameter BYREF when its elements are swapped', async () => {
       const pythonCode = 
-`# Assume a convention for BYREF, e.g., a comment or type
-def swap(a, b): # Python's swap needs to return new values or use mutable types
-    # True BYREF swap is not direct. This simulates intent.
-    # For IGCSE: PROCEDURE swap(BYREF x, BYREF y)
-    temp = a
-    a = b
-    b = temp
-    return a, b # Pythonic way
-
-x = 10
-y = 20
-x, y = swap(x, y) # Pythonic swap`;
-      // The converter would need to recognize this pattern or a specific annotation to produce BYREF.
-      // Let's test a hypothetical direct translation if the converter could infer BYREF for a swap.
-      // This is highly dependent on converter logic for BYREF.
-      // For now, we'll test a direct IGCSE-style procedure if the converter could map to it.
-      const converterWithByRefSupport = new Converter();
-      const igcseEquivalentCode = 
-`# Hypothetical Python that maps to BYREF
-# def swap_byref(a: BYREF_INT, b: BYREF_INT):
-#   temp = a.value
-#   a.value = b.value
-#   b.value = temp
-
-# Direct IGCSE equivalent for testing the emitter if IR was correct:
-# PROCEDURE swap(BYREF x : INTEGER, BYREF y : INTEGER)
-#   temp ← x
-#   x ← y
-#   y ← temp
-# ENDPROCEDURE
-# 
-# x ← 10
-# y ← 20
-# CALL swap(x, y)`;
-      // Since direct Python-to-BYREF is complex, this test is more about the desired IGCSE output.
-      // We'll assume a Python function that *intends* to modify arguments and see how it's handled.
-      // A simple Python function won't directly translate to BYREF for immutable types.
-      // Let's test a procedure that *would* be BYREF in IGCSE.
-      const pythonForByRefProcedure = 
-`def modify_list_element(arr):
-    # arr is a list, which is mutable. Changes inside will persist.
-    # This is the closest Python gets to BYREF for the list itself.
-    arr[0] = arr[0] * 2
-
-my_list = [10]
-modify_list_element(my_list) # my_list[0] becomes 20`;
-      const result = await converter.convert(pythonForByRefProcedure);
-      // The pseudocode for list modification would involve array access.
-      // True BYREF for simple variables is the main point here.
-      // Let's assume a comment based convention for BYREF for simple variables:
-      const pythonWithByRefComment = 
-`def swap_values(a, b): # BYREF a, BYREF b
-  global_temp = 0 # temp needs to be defined if not passed
-  # This Python code doesn't actually swap a and b in the caller's scope for immutables.
-  # It's illustrating the signature that *should* become BYREF.
-  pass # Placeholder for swap logic if it were true BYREF
-
-# PROCEDURE swap_values(BYREF a : INTEGER, BYREF b : INTEGER)
-#   temp ← a
-#   a ← b
-#   b ← temp
-# ENDPROCEDURE`;
-      // This test is more illustrative of the target than a direct Python translation feature without conventions.
-      // For now, we'll skip a direct BYREF translation test until the convention is solid.
-      expect(true).toBe(true); // Placeholder
+`def swap(arr, i, j):
+    arr[i], arr[j] = arr[j], arr[i]`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code.split('\n')[0]).toBe(
+        'PROCEDURE Swap(BYREF arr : INTEGER, BYVAL i : INTEGER, BYVAL j : INTEGER)'
+      );
+    });
+
+    it('should mark parameters BYREF for append and attribute assignment', async () => {
+      const pythonCode = 
+`def track(items, p):
+    items.append(1)
+    p.count = len(items)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code.split('\n')[0]).toBe('PROCEDURE Track(BYREF items : INTEGER, p : INTEGER)');
+    });
+
+    it('should keep BYVAL when the parameter is rebound before it is changed', async () => {
+      const pythonCode = 
+`def reset(values):
+    values = []
+    values.append(0)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code.split('\n')[0]).toBe('PROCEDURE Reset(values : INTEGER)');
+    });
+
+    it('should return a tuple through BYREF output parameters', async () => {
+      const pythonCode = 
+`def min_max(values):
+    lo = min(values)
+    hi = max(values)
+    return lo, hi
+
+def divide(a, b):
+    return a // b, a % b
+
+low, high = min_max([3, 1, 2])
+q, r = divide(7, 2)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`PROCEDURE Min_max(BYVAL values : ARRAY, BYREF lo : INTEGER, BYREF hi : INTEGER)
+  lo ← MIN(values)
+  hi ← MAX(values)
+ENDPROCEDURE
+PROCEDURE Divide(BYVAL a : INTEGER, BYVAL b : INTEGER, BYREF Result1 : INTEGER, BYREF Result2 : INTEGER)
+  Result1 ← a DIV b
+  Result2 ← a MOD b
+ENDPROCEDURE
+CALL Min_max([3, 1, 2], low, high)
+CALL Divide(7, 2, q, r)`;
+      expect(result.code).toBe(expected);
     });
   });
 
@@ -20,19 +20,54 @@ describe('Object-Oriented Programming (OOP) Tests', () => {
       const result = await converter.convert(pythonCode);
       const expected = 
 `CLASS Animal
-  PRIVATE name : STRING
-
+  PUBLIC name : STRING
   PUBLIC PROCEDURE NEW(initialName : STRING)
-    name ← initialName
+    name ← initialName // Public attribute by default in Python
   ENDPROCEDURE
-
   PUBLIC PROCEDURE speak()
     OUTPUT "Generic animal sound"
   ENDPROCEDURE
 ENDCLASS`;
-      // Current implementation only supports basic class definitions
-      expect(result.code).toContain('CLASS Animal');
-      expect(result.code).toContain('ENDCLASS');
+      expect(result.code).toBe(expected);
+    });
+
+    it('should make members with a leading underscore PRIVATE', async () => {
+      const pythonCode = 
+`class Account:
+    def __init__(self, owner: str, balance: float):
+        self.owner = owner
+        self._balance = balance
+
+    def deposit(self, amount: float):
+        self._balance += amount
+        self._log("deposit")
+
+    def _log(self, action: str):
+        print(self.owner + ": " + action)
+
+    def get_balance(self) -> float:
+        return self._balance`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`CLASS Account
+  PUBLIC owner : STRING
+  PRIVATE balance : REAL
+  PUBLIC PROCEDURE NEW(initialOwner : STRING, initialBalance : REAL)
+    owner ← initialOwner
+    balance ← initialBalance
+  ENDPROCEDURE
+  PUBLIC PROCEDURE deposit(amount : REAL)
+    balance ← balance + amount
+    CALL log("deposit")
+  ENDPROCEDURE
+  PRIVATE PROCEDURE log(action : STRING)
+    OUTPUT owner & ": " & action
+  ENDPROCEDURE
+  PUBLIC FUNCTION get_balance() RETURNS REAL
+    RETURN balance
+  ENDFUNCTION
+ENDCLASS`;
+      expect(result.code).toBe(expected);
     });
 
     it('should handle class attributes (variables)', async () => {
@@ -46,9 +81,36 @@ ENDCLASS`;
     def area(self):
         return Circle.pi * self.radius * self.radius`;
       const result = await converter.convert(pythonCode);
-      // Current implementation only supports basic class definitions
       expect(result.code).toContain('CLASS Circle');
+      expect(result.code).toContain('  PUBLIC pi : REAL\n  PUBLIC radius : REAL');
+      expect(result.code).toContain('    pi ← 3.14159');
+      expect(result.code).toContain('    RETURN pi * radius * radius');
       expect(result.code).toContain('ENDCLASS');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.message, w.line])).toEqual([
+        [
+          'unsupported_feature',
+          "Class attribute 'pi' on line 2 is shared by all Circle objects in Python but becomes a field of each object, set in NEW",
+          2,
+        ],
+      ]);
+    });
+
+    it('should rename method locals that clash with a member', async () => {
+      const pythonCode = 
+`class Counter:
+    def __init__(self):
+        self.total = 0
+
+    def add(self, amount: int):
+        total = self.total + amount
+        self.total = total`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`  PUBLIC PROCEDURE add(amount : INTEGER)
+    localTotal ← total + amount
+    total ← localTotal
+  ENDPROCEDURE`;
+      expect(result.code).toContain(expected);
     });
   });
 
@@ -84,11 +146,21 @@ class Child(Parent):
         super().__init__(val)
         self.extra_val = extra`;
       const result = await converter.convert(pythonCode);
-      // Current implementation only supports basic class definitions
-      expect(result.code).toContain('CLASS Parent');
-      expect(result.code).toContain('ENDCLASS');
-      expect(result.code).toContain('CLASS Child');
-      expect(result.code).toContain('ENDCLASS');
+      const expected = 
+`CLASS Parent
+  PUBLIC value : INTEGER
+  PUBLIC PROCEDURE NEW(val : INTEGER)
+    value ← val
+  ENDPROCEDURE
+ENDCLASS
+CLASS Child INHERITS Parent
+  PUBLIC extra_val : INTEGER
+  PUBLIC PROCEDURE NEW(val : INTEGER, extra : INTEGER)
+    SUPER.NEW(val)
+    extra_val ← extra
+  ENDPROCEDURE
+ENDCLASS`;
+      expect(result.code).toBe(expected);
     });
   });
 
@@ -104,9 +176,9 @@ class Child(Parent):
 
 my_greeter = Greeter("Hello IGCSE")`;
       const result = await converter.convert(pythonCode);
-      // Current implementation only supports basic class definitions
       expect(result.code).toContain('CLASS Greeter');
       expect(result.code).toContain('ENDCLASS');
+      expect(result.code).toContain('my_greeter ← NEW Greeter("Hello IGCSE")');
     });
   });
 
@@ -124,9 +196,9 @@ class Greeter:
 my_greeter = Greeter("Test")
 my_greeter.greet()`;
       const result = await converter.convert(pythonCode);
-      // Current implementation only supports basic class definitions
       expect(result.code).toContain('CLASS Greeter');
       expect(result.code).toContain('ENDCLASS');
+      expect(result.code).toContain('CALL my_greeter.greet()');
     });
 
     it('should convert method calls that return values', async () => {
@@ -137,9 +209,10 @@ my_greeter.greet()`;
 calc = Calculator()
 sum_val = calc.add(5, 7)`;
       const result = await converter.convert(pythonCode);
-      // Current implementation only supports basic class definitions
       expect(result.code).toContain('CLASS Calculator');
       expect(result.code).toContain('ENDCLASS');
+      expect(result.code).toContain('calc ← NEW Calculator()');
+      expect(result.code).toContain('sum_val ← calc.add(5, 7)');
     });
   });
 });
\ No newline at end of file
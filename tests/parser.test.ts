@@ -0,0 +1,177 @@
+// Python tokenizer / AST parser tests
+import { describe, it, expect } from 'vitest';
+import { ASTParser } from '../src/parser/ast-parser';
+import { Tokenizer, PythonSyntaxError } from '../src/parser/tokenizer';
+import { Converter } from '../src/converter';
+
+const parse = (source: string) => new ASTParser(source).parseModule();
+
+describe('Python Parser', () => {
+  describe('Tokenizer', () => {
+    it('should emit INDENT and DEDENT around blocks', () => {
+      const types = new Tokenizer('if x:\n    y = 1\nz = 2\n').tokenize().map((t) => t.type);
+      expect(types).toEqual([
+        'NAME',
+        'NAME',
+        'OP',
+        'NEWLINE',
+        'INDENT',
+        'NAME',
+        'OP',
+        'NUMBER',
+        'NEWLINE',
+        'DEDENT',
+        'NAME',
+        'OP',
+        'NUMBER',
+        'NEWLINE',
+        'ENDMARKER',
+      ]);
+    });
+
+    it('should not end the line inside brackets', () => {
+      const tokens = new Tokenizer('x = [1,\n     2]\n').tokenize();
+      expect(tokens.filter((t) => t.type === 'NEWLINE')).toHaveLength(1);
+    });
+
+    it('should decode escape sequences but keep raw strings as written', () => {
+      const tokens = new Tokenizer('"a\\tb" r"a\\tb"').tokenize();
+      expect(tokens[0].string).toBe('a\tb');
+      expect(tokens[1].string).toBe('a\\tb');
+    });
+  });
+
+  describe('Node shapes and positions', () => {
+    it('should record lineno and col_offset on every node', () => {
+      const ast = parse('x = 1\nif x > 0:\n    print(x)\n');
+      const ifNode = ast.body[1];
+
+      expect(ifNode.type).toBe('If');
+      expect(ifNode.lineno).toBe(2);
+      expect(ifNode.col_offset).toBe(0);
+      expect(ifNode.test.left).toMatchObject({ type: 'Name', id: 'x', lineno: 2, col_offset: 3 });
+
+      const call = ifNode.body[0].value;
+      expect(call).toMatchObject({ type: 'Call', lineno: 3, col_offset: 4 });
+      expect(call.args[0]).toMatchObject({ type: 'Name', id: 'x', col_offset: 10 });
+    });
+
+    it('should keep keyword arguments separate from positional arguments', () => {
+      const call = parse('print("a", "b", sep=", ", end="")').body[0].value;
+      expect(call.args).toHaveLength(2);
+      expect(call.keywords.map((k: any) => k.arg)).toEqual(['sep', 'end']);
+      expect(call.keywords[0].value.value).toBe(', ');
+    });
+
+    it('should parse strings containing colons and hashes as single constants', () => {
+      const stmt = parse('msg = "key: value # not a comment"  # real comment').body[0];
+      expect(stmt.value).toMatchObject({ type: 'Constant', value: 'key: value # not a comment' });
+      expect(stmt.inlineComment).toBe('real comment');
+    });
+
+    it('should respect operator precedence', () => {
+      const expr = parse('r = a + b * -c ** 2').body[0].value;
+      expect(expr.op.type).toBe('Add');
+      expect(expr.right.op.type).toBe('Mult');
+      expect(expr.right.right).toMatchObject({ type: 'UnaryOp', op: { type: 'USub' } });
+      expect(expr.right.right.operand.op.type).toBe('Pow');
+    });
+
+    it('should parse a multi-line call inside an if block', () => {
+      const ast = parse('if ok:\n    total = add(1,\n                2)\n    print(total)\n');
+      expect(ast.body[0].body.map((s: any) => s.type)).toEqual(['Assign', 'Expr']);
+      expect(ast.body[0].body[1].lineno).toBe(4);
+    });
+
+    it('should parse f-strings into JoinedStr nodes', () => {
+      const value = parse('s = f"Hi {name}!"').body[0].value;
+      expect(value.type).toBe('JoinedStr');
+      expect(value.values.map((v: any) => v.type)).toEqual([
+        'Constant',
+        'FormattedValue',
+        'Constant',
+      ]);
+      expect(value.values[1].value).toMatchObject({ type: 'Name', id: 'name' });
+    });
+
+    it('should keep comments inside blocks in order', () => {
+      const ast = parse('def f():\n    # inside\n    return 1\n# outside\n');
+      expect(ast.body[0].body[0]).toMatchObject({ type: 'Comment', value: 'inside' });
+      expect(ast.body[1]).toMatchObject({ type: 'Comment', value: 'outside', lineno: 4 });
+    });
+  });
+
+  describe('Multi-line statements', () => {
+    it('should join lines inside brackets', async () => {
+      const pythonCode = `numbers = [
+    10,
+    20,
+]
+print(numbers[0],
+      numbers[1] * 2)`;
+      const result = await new Converter().convert(pythonCode);
+      expect(result.code).toBe(`DECLARE numbers : ARRAY[1:2] OF INTEGER
+numbers[1] ← 10
+numbers[2] ← 20
+OUTPUT numbers[1], numbers[2] * 2`);
+    });
+
+    it('should join lines ending with a backslash', async () => {
+      const pythonCode = 'total = 1 + \\\n    2 + \\\n    3\nprint(total)';
+      const result = await new Converter().convert(pythonCode);
+      expect(result.code).toBe('total ← 1 + 2 + 3\nOUTPUT total');
+    });
+
+    it('should convert docstrings into comment lines', async () => {
+      const pythonCode = `def show(x):
+    """Print a value.
+
+    The value is printed as is.
+    """
+    print(x)`;
+      const result = await new Converter().convert(pythonCode);
+      expect(result.code).toBe(`PROCEDURE Show(x : INTEGER)
+  // Print a value.
+  //
+  // The value is printed as is.
+  OUTPUT x
+ENDPROCEDURE`);
+    });
+
+    it('should keep original line numbers after blank lines and continuations', () => {
+      const ast = parse('a = [1,\n     2]\n\n\n\nb = 1 + \\\n    2\nc = """x\ny"""\nd = 3\n');
+      expect(ast.body.map((s: any) => s.lineno)).toEqual([1, 6, 8, 10]);
+    });
+
+    it('should report a syntax error after blank lines on the original line', async () => {
+      const result = await new Converter().convert('x = 1\n\n\n\ny = (2 +\n');
+      const syntaxError = result.parseResult.errors.find((e: any) => e.type === 'syntax_error');
+      expect(syntaxError?.line).toBe(5);
+    });
+  });
+
+  describe('Syntax errors', () => {
+    it.each([
+      ['print("unclosed string', 1],
+      ['x = 1\nprint("Hello"\ny = 2', 2],
+      ['x = 1\n    y = 2', 2],
+      ['if x\n    y = 1', 1],
+    ])('should report the line of the error in %j', (source, line) => {
+      try {
+        parse(source);
+        expect.fail('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PythonSyntaxError);
+        expect((error as PythonSyntaxError).line).toBe(line);
+      }
+    });
+
+    it('should surface syntax errors as parse errors with a line number', async () => {
+      const converter = new Converter();
+      const result = await converter.convert('x = 1\ny = (2 +\n');
+      const syntaxError = result.parseResult.errors.find((e: any) => e.type === 'syntax_error');
+      expect(result.success).toBe(false);
+      expect(syntaxError?.line).toBe(2);
+    });
+  });
+});
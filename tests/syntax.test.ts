@@ -26,6 +26,207 @@ describe('Syntax Tests - Basic Constructs', () => {
       const result = await converter.convert(pythonCode);
       expect(result.code).toBe('result ← a + b');
     });
+
+    it('should swap two variables through a declared temporary', async () => {
+      const pythonCode = 
+`a = 1
+b = 2
+a, b = b, a`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`a ← 1
+b ← 2
+DECLARE Temp : INTEGER
+Temp ← a
+a ← b
+b ← Temp`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should pick a temporary name that is not already used', async () => {
+      const pythonCode = 
+`Temp = 5
+items = [3, 1]
+items[0], items[1] = items[1], items[0]
+a = 1
+b = 2
+a, b = a + b, a - b`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain(
+        'DECLARE Temp2 : INTEGER\nTemp2 ← items[1]\nitems[1] ← items[2]\nitems[2] ← Temp2'
+      );
+      expect(result.code).toContain('Temp2 ← a\na ← a + b\nb ← Temp2 - b');
+    });
+
+    it('should expand tuple unpacking and chained assignment', async () => {
+      const pythonCode = 
+`x = y = 0
+first, second = 1, "two"
+name = copy = input()`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`x ← 0
+y ← 0
+first ← 1
+second ← "two"
+INPUT name
+copy ← name`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should convert divmod() to DIV and MOD', async () => {
+      const pythonCode = 'q, r = divmod(n, d)';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe('q ← n DIV d\nr ← n MOD d');
+    });
+
+    it('should flatten nested tuple unpacking and report it when the value is not a tuple', async () => {
+      const pythonCode = 
+`p, (s, t) = 1, (2, 3)
+q, (r, u) = pair`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`p ← 1
+s ← 2
+t ← 3
+q, (r, u) = pair // needs manual translation`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings.map((w) => [w.message, w.line])).toEqual([
+        ['Nested unpacking on line 2 has no IGCSE equivalent', 2],
+      ]);
+    });
+  });
+
+  describe('Library Routines', () => {
+    it('should map math functions to ^, DIV and ROUND', async () => {
+      const pythonCode = 
+`import math
+items = 42
+side = math.sqrt(area)
+pages = math.ceil(items / 10)
+whole = math.floor(total / count)
+avg = round(total / count, 2)
+circle = math.pi * r ** 2`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`// import statement
+items ← 42
+side ← area ^ 0.5
+pages ← (items + 9) DIV 10
+whole ← total DIV count
+avg ← ROUND(total / count, 2)
+circle ← 3.14159 * r ^ 2`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should bracket mapped library calls used as operands', async () => {
+      const pythonCode = 
+`import math
+import random
+y = random.uniform(1, 5) * 2
+y = x / math.floor(y)
+y = math.pow(x, 2) ** 2
+y = math.floor(a) ** 2
+y = -math.floor(a)
+y = math.floor(-a)
+y = math.sqrt(x) ** 2
+y = random.randint(1, 6) * 2`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`y ← (RANDOM() * 4 + 1) * 2
+y ← x / (y DIV 1)
+y ← (x ^ 2) ^ 2
+y ← (a DIV 1) ^ 2
+y ← -(a DIV 1)
+y ← -a DIV 1
+y ← (x ^ 0.5) ^ 2
+y ← ROUND(RANDOM() * 6 + 0.5, 0) * 2`;
+      expect(result.code).toContain(expected);
+    });
+
+    it('should only rewrite math.ceil of a division with DIV for integers', async () => {
+      const pythonCode = 
+`import math
+boxes = 7
+size = 2
+length = 2.5
+full = math.ceil(boxes / size)
+pieces = math.ceil(length / size)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('full ← (boxes + size - 1) DIV size');
+      expect(result.code).toContain(
+        'pieces ← math.ceil(length / size) // needs manual translation'
+      );
+      expect(result.parseResult.warnings.map((w) => w.line)).toEqual([6]);
+    });
+
+    it('should scale RANDOM() to an integer range', async () => {
+      const pythonCode = 
+`from random import randint
+import random
+dice = randint(1, 6)
+roll = random.randint(low, high)
+chance = random.random()`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('dice ← ROUND(RANDOM() * 6 + 0.5, 0)');
+      expect(result.code).toContain('roll ← ROUND(RANDOM() * (high - low + 1) + low - 0.5, 0)');
+      expect(result.code).toContain('chance ← RANDOM()');
+
+      const alevel = await new Converter({ dialect: 'alevel' }).convert(pythonCode);
+      expect(alevel.code).toContain('dice ← INT(RAND(6)) + 1');
+    });
+
+    it('should flag library calls without an equivalent for manual translation', async () => {
+      const pythonCode = 
+`import math
+y = math.log(x) + 1`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('y ← math.log(x) + 1 // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.message])).toEqual([
+        ['unsupported_feature', 'math.log() has no IGCSE equivalent and needs manual translation'],
+      ]);
+    });
+
+    it('should apply user-supplied call mappings before the built-in ones', async () => {
+      const pythonCode =
+`import math
+size = len(name)
+shout = name.upper()
+root = math.log(x)
+print(size, shout)`;
+      const result = await new Converter({
+        declarations: 'top',
+        callMappings: [
+          { name: 'len', template: 'LEN({0})' },
+          { name: 'upper', method: true, template: 'TO_UPPER({object})' },
+          { name: 'math.log', arity: 1, template: 'LN({0})', resultType: 'REAL' },
+        ],
+      }).convert(pythonCode);
+      const expected =
+`// import statement
+DECLARE size : INTEGER
+DECLARE shout : STRING
+DECLARE root : REAL
+size ← LEN(name)
+shout ← TO_UPPER(name)
+root ← LN(x)
+OUTPUT size, shout`;
+      expect(result.code).toBe(expected);
+      expect(result.parseResult.warnings).toEqual([]);
+    });
+
+    it('should report the warning of a call mapping where it is used', async () => {
+      const pythonCode =
+`total = 0
+total = sum(marks)`;
+      const result = await new Converter({
+        callMappings: [{ name: 'sum', arity: 1, template: 'SUM({0})', warning: 'SUM() is not a Cambridge library routine' }],
+      }).convert(pythonCode);
+      expect(result.code).toContain('total ← SUM(marks)');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.message, w.line])).toEqual([
+        ['unsupported_feature', 'SUM() is not a Cambridge library routine', 2],
+      ]);
+    });
   });
 
   // 出力文 (Output)
@@ -66,6 +267,343 @@ describe('Syntax Tests - Basic Constructs', () => {
     });
   });
 
+  // 定数 (Constants)
+  describe('Constants', () => {
+    it('should convert UPPER_CASE names assigned once to a literal into CONSTANT', async () => {
+      const pythonCode = 'MAX_SCORE = 100\nVAT_RATE = 0.2\nprice = MAX_SCORE * VAT_RATE';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe(
+        'CONSTANT MAX_SCORE ← 100\nCONSTANT VAT_RATE ← 0.2\nprice ← MAX_SCORE * VAT_RATE'
+      );
+    });
+
+    it('should use = for CONSTANT in the A Level dialect', async () => {
+      const result = await new Converter({ dialect: 'alevel' }).convert('GREETING = "Hi"');
+      expect(result.code).toBe('CONSTANT GREETING = "Hi"');
+    });
+
+    it('should treat typing.Final names as constants', async () => {
+      const pythonCode = 'from typing import Final\nlimit: Final[int] = 10';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('CONSTANT limit ← 10');
+    });
+
+    it('should warn and keep a variable when an UPPER_CASE name is reassigned', async () => {
+      const pythonCode = 'COUNT = 0\nCOUNT = COUNT + 1';
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe('COUNT ← 0\nCOUNT ← COUNT + 1');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['constant_reassignment', 2],
+      ]);
+    });
+  });
+
+  // 変数宣言 (Declarations)
+  describe('Declarations', () => {
+    const pythonCode = 
+`def total(n):
+    result = 0
+    for i in range(n):
+        result = result + i
+    return result
+
+count = 3
+name = input()
+print(name, total(count))`;
+
+    it('should not generate declarations by default', async () => {
+      const result = await converter.convert(pythonCode);
+      expect(result.code).not.toContain('DECLARE');
+    });
+
+    it('should declare variables at the top of each scope', async () => {
+      const result = await new Converter({ declarations: 'top' }).convert(pythonCode);
+      const expected = 
+`FUNCTION Total(n : INTEGER) RETURNS INTEGER
+  DECLARE result : INTEGER
+  DECLARE i : INTEGER
+  result ← 0
+  FOR i ← 0 TO n - 1
+    result ← result + i
+  NEXT i
+  RETURN result
+ENDFUNCTION
+DECLARE count : INTEGER
+DECLARE name : STRING
+count ← 3
+INPUT name
+OUTPUT name, total(count)`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should declare variables immediately before their first use', async () => {
+      const result = await new Converter({ declarations: 'beforeFirstUse' }).convert(pythonCode);
+      const expected = 
+`FUNCTION Total(n : INTEGER) RETURNS INTEGER
+  DECLARE result : INTEGER
+  result ← 0
+  DECLARE i : INTEGER
+  FOR i ← 0 TO n - 1
+    result ← result + i
+  NEXT i
+  RETURN result
+ENDFUNCTION
+DECLARE count : INTEGER
+count ← 3
+DECLARE name : STRING
+INPUT name
+OUTPUT name, total(count)`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should move array declarations to the top and not repeat them', async () => {
+      const result = await new Converter({ declarations: 'top' }).convert(
+        'x = 1\nscores = [70, 85]\nprint(scores[x])'
+      );
+      const expected = 
+`DECLARE scores : ARRAY[1:2] OF INTEGER
+DECLARE x : INTEGER
+x ← 1
+scores[1] ← 70
+scores[2] ← 85
+OUTPUT scores[x + 1]`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should not declare global names inside a procedure', async () => {
+      const result = await new Converter({ declarations: 'top' }).convert(
+        'def bump():\n    global count\n    count = count + 1\n\ncount = 0'
+      );
+      expect(result.code.match(/DECLARE count : INTEGER/g)).toHaveLength(1);
+      expect(result.code.indexOf('DECLARE count')).toBeGreaterThan(result.code.indexOf('ENDPROCEDURE'));
+    });
+
+    it('should give arrays the bounds of the array they copy, and report unknown bounds', async () => {
+      const pythonCode = 
+`def sort_list(items):
+    items.sort()
+    return items
+
+numbers = [5, 2, 9]
+copy = numbers
+sorted_numbers = sort_list(numbers)`;
+      const result = await new Converter({ declarations: 'top' }).convert(pythonCode);
+      expect(result.code).toContain('DECLARE copy : ARRAY[1:3] OF INTEGER');
+      expect(result.code).toContain('DECLARE sorted_numbers : ARRAY\n');
+      expect(result.parseResult.warnings.map((w) => [w.message, w.line])).toEqual([
+        [
+          "The bounds of array 'sorted_numbers' on line 7 could not be inferred; add them to its DECLARE",
+          7,
+        ],
+      ]);
+    });
+  });
+
+  // 型推論 (Type Inference)
+  describe('Type Inference', () => {
+    it('should infer REAL for / and INTEGER for //', async () => {
+      const result = await new Converter({ declarations: 'top' }).convert(
+        'a = 7\nb = a / 2\nc = a // 2'
+      );
+      expect(result.code).toContain('DECLARE b : REAL\nDECLARE c : INTEGER');
+    });
+
+    it('should widen a variable that later holds a REAL', async () => {
+      const result = await new Converter({ declarations: 'top' }).convert('x = 3\nx = x / 2');
+      expect(result.code).toContain('DECLARE x : REAL');
+    });
+
+    it('should take parameter types from call-site arguments', async () => {
+      const pythonCode = 
+`def greet(name):
+    return "Hello " + name
+
+def average(total, count):
+    return total / count
+
+message = greet("Ann")`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('FUNCTION Greet(name : STRING) RETURNS STRING');
+      expect(result.code).toContain(
+        'FUNCTION Average(total : INTEGER, count : INTEGER) RETURNS REAL'
+      );
+    });
+
+    it('should propagate return types through calls', async () => {
+      const pythonCode = 
+`def half(n):
+    return n / 2
+
+def quarter(n):
+    return half(half(n))`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('FUNCTION Quarter(n : INTEGER) RETURNS REAL');
+    });
+
+    it('should fall back to the same default type for unknown values everywhere', async () => {
+      const pythonCode = 
+`def swap(p, q):
+    p, q = q, p
+    return p
+
+x = 1 + (a if c else b)
+items: list = []`;
+      const result = await new Converter({ declarations: 'top' }).convert(pythonCode);
+      expect(result.code).toContain('FUNCTION Swap(p : INTEGER, q : INTEGER) RETURNS INTEGER');
+      expect(result.code).toContain('  DECLARE Temp : INTEGER');
+      expect(result.code).toContain('DECLARE Temp : INTEGER\nDECLARE x : INTEGER');
+      expect(result.code).not.toContain('STRING');
+    });
+
+    it('should warn when a variable is assigned conflicting types', async () => {
+      const result = await converter.convert('value = 1\nvalue = "one"');
+      expect(result.parseResult.warnings.map((w) => [w.type, w.line])).toEqual([
+        ['type_inference', 2],
+      ]);
+    });
+
+    it('should warn at the call when a parameter is passed conflicting types', async () => {
+      const pythonCode = 
+`def show(v):
+    print(v)
+
+show(1)
+show("a")`;
+      const result = await converter.convert(pythonCode);
+      expect(result.parseResult.warnings.map((w) => [w.message, w.line])).toEqual([
+        ["Parameter 'v' of 'show' is called with both INTEGER and STRING on line 5", 5],
+      ]);
+    });
+
+    it('should take constructor and method parameter types from their calls', async () => {
+      const pythonCode = 
+`class Greeter:
+    def __init__(self, initialMsg):
+        self.msg = initialMsg
+
+    def greet(self, who):
+        print(self.msg + who)
+
+g = Greeter("Hello")
+g.greet("Ann")`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('  PUBLIC msg : STRING');
+      expect(result.code).toContain('  PUBLIC PROCEDURE NEW(initialMsg : STRING)');
+      expect(result.code).toContain('  PUBLIC PROCEDURE greet(who : STRING)');
+      expect(result.code).toContain('    OUTPUT msg & who');
+    });
+
+    it('should use the types of record fields', async () => {
+      const pythonCode = 
+`class Point:
+    def __init__(self, x, y):
+        self.x = x
+        self.y = y
+
+def total(pt):
+    return pt.x + pt.y
+
+p = Point(1, 2.5)
+print(total(p))`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('  DECLARE y : REAL');
+      expect(result.code).toContain('FUNCTION Total(pt : PointRecord) RETURNS REAL');
+    });
+  });
+
+  // ファイル操作 (File Handling)
+  describe('File Handling', () => {
+    it('should convert with open() for reading into an EOF loop', async () => {
+      const pythonCode = 
+`with open("scores.txt") as f:
+    for line in f:
+        print(line)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`OPENFILE "scores.txt" FOR READ
+WHILE NOT EOF("scores.txt") DO
+  READFILE "scores.txt", line
+  OUTPUT line
+ENDWHILE
+CLOSEFILE "scores.txt"`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should convert writes and drop the trailing newline', async () => {
+      const pythonCode = 
+`with open("names.txt", "w") as f:
+    f.write(name + "\\n")
+    print(score, file=f)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`OPENFILE "names.txt" FOR WRITE
+WRITEFILE "names.txt", name
+WRITEFILE "names.txt", score
+CLOSEFILE "names.txt"`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should close the file before a return inside the with block', async () => {
+      const pythonCode = 
+`def first_line():
+    with open("scores.txt") as f:
+        line = f.readline()
+        if line == "":
+            return "none"
+        return line`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`FUNCTION First_line() RETURNS STRING
+  OPENFILE "scores.txt" FOR READ
+  READFILE "scores.txt", line
+  IF line = "" THEN
+    CLOSEFILE "scores.txt"
+    RETURN "none"
+  ENDIF
+  CLOSEFILE "scores.txt"
+  RETURN line
+ENDFUNCTION`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should read lines used inside expressions into a temporary first', async () => {
+      const pythonCode = 
+`def first_line():
+    with open("scores.txt") as f:
+        return f.readline()
+
+with open("names.txt") as g:
+    print(g.readline())
+    rows = g.readlines()`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain(
+        '  READFILE "scores.txt", Temp\n  CLOSEFILE "scores.txt"\n  RETURN Temp\n'
+      );
+      expect(result.code).toContain('READFILE "names.txt", Temp\nOUTPUT Temp\n');
+      expect(result.code).toContain('rows ← g.readlines() // needs manual translation');
+      expect(result.parseResult.warnings.map((w) => w.message)).toEqual([
+        'File method readlines() on line 7 has no IGCSE equivalent',
+      ]);
+    });
+
+    it('should convert a bare open() in append mode, readline() and close()', async () => {
+      const pythonCode = 
+`log = open("log.txt", "a")
+entry = log.readline()
+log.close()`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe(
+        'OPENFILE "log.txt" FOR APPEND\nREADFILE "log.txt", entry\nCLOSEFILE "log.txt"'
+      );
+    });
+
+    it('should warn about file modes without an IGCSE equivalent', async () => {
+      const result = await converter.convert('data = open("image.png", "rb")');
+      expect(result.code).toBe('OPENFILE "image.png" FOR READ');
+      expect(result.parseResult.warnings.map((w) => w.type)).toEqual(['unsupported_feature']);
+    });
+  });
+
   // コメント (Comments)
   describe('Comments', () => {
     it('should convert single-line comments', async () => {
@@ -82,6 +620,41 @@ describe('Syntax Tests - Basic Constructs', () => {
     });
   });
 
+  describe('Unsupported Expressions', () => {
+    it('should report expressions with no IGCSE equivalent and keep their Python form', async () => {
+      const pythonCode = 
+`double = lambda x: x * 2
+if (n := len(items)) > 2:
+    print(n)`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toContain('double ← lambda x: x * 2 // needs manual translation');
+      expect(result.code).toContain('IF (n := len(items)) > 2 THEN // needs manual translation');
+      expect(result.code).not.toContain('/*');
+      expect(result.parseResult.warnings.map((w) => [w.message, w.line])).toEqual([
+        ['Lambda expression on line 1 has no IGCSE equivalent', 1],
+        ['Assignment expression (:=) on line 2 has no IGCSE equivalent', 2],
+      ]);
+    });
+
+    it('should report dictionary unpacking, complex and bytes literals', async () => {
+      const pythonCode = 
+`merged = {"a": 1, **extra}
+z = 2j
+data = b"x"`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code).toBe(
+        'merged ← {"a": 1, **extra} // needs manual translation\n' +
+          'z ← 2j // needs manual translation\n' +
+          'data ← b"x" // needs manual translation'
+      );
+      expect(result.parseResult.warnings.map((w) => w.message)).toEqual([
+        'Dictionary unpacking (**) on line 1 has no IGCSE equivalent',
+        'Complex number literal on line 2 has no IGCSE equivalent',
+        'Bytes literal on line 3 has no IGCSE equivalent',
+      ]);
+    });
+  });
+
   // 演算子 (Operators) - 代表的なもの
   describe('Operators', () => {
     it('should handle arithmetic operators', async () => {
@@ -110,12 +683,12 @@ is_less = (a < b)\n\
 is_greater_equal = (a >= b)\n\
 is_less_equal = (a <= b)';
       const result = await converter.convert(pythonCode);
-      expect(result.code).toContain('is_equal ← (a = b)');
-      expect(result.code).toContain('is_not_equal ← (a ≠ b)');
-      expect(result.code).toContain('is_greater ← (a > b)');
-      expect(result.code).toContain('is_less ← (a < b)');
-      expect(result.code).toContain('is_greater_equal ← (a ≥ b)');
-      expect(result.code).toContain('is_less_equal ← (a ≤ b)');
+      expect(result.code).toContain('is_equal ← a = b');
+      expect(result.code).toContain('is_not_equal ← a ≠ b');
+      expect(result.code).toContain('is_greater ← a > b');
+      expect(result.code).toContain('is_less ← a < b');
+      expect(result.code).toContain('is_greater_equal ← a ≥ b');
+      expect(result.code).toContain('is_less_equal ← a ≤ b');
     });
 
     it('should handle logical operators AND, OR, NOT', async () => {
@@ -123,9 +696,68 @@ is_less_equal = (a <= b)';
 res_or = (p or q)\n\
 res_not = (not p)';
       const result = await converter.convert(pythonCode);
-      expect(result.code).toContain('res_and ← (p AND q)');
-      expect(result.code).toContain('res_or ← (p OR q)');
-      expect(result.code).toContain('res_not ← (NOT p)');
+      expect(result.code).toContain('res_and ← p AND q');
+      expect(result.code).toContain('res_or ← p OR q');
+      expect(result.code).toContain('res_not ← NOT p');
+    });
+
+    it('should add parentheses only where precedence requires them', async () => {
+      const pythonCode = 
+`w = (x * 2) + 1
+z = x - (y - 1)
+t = (a + b) * c ** (d - 1)
+u = (-x) ** 2
+b = not (p and q) or (r == 1)`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`w ← x * 2 + 1
+z ← x - (y - 1)
+t ← (a + b) * c ^ (d - 1)
+u ← (-x) ^ 2
+b ← NOT (p AND q) OR r = 1`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should expand chained comparisons with AND', async () => {
+      const pythonCode = 
+`if 0 <= x < 10:
+    print("in range")`;
+      const result = await converter.convert(pythonCode);
+      expect(result.code.split('\n')[0]).toBe('IF x ≥ 0 AND x < 10 THEN');
+    });
+
+    it('should evaluate a computed middle operand of a chained comparison once', async () => {
+      const pythonCode = 
+`if a < f(x) <= g(b):
+    print("yes")
+while 0 < f(n) < 100:
+    n = n + 1`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`DECLARE Temp : INTEGER
+Temp ← f(x)
+IF a < Temp AND Temp ≤ g(b) THEN
+  OUTPUT "yes"
+ENDIF
+Temp ← f(n)
+WHILE Temp > 0 AND Temp < 100 DO
+  n ← n + 1
+  Temp ← f(n)
+ENDWHILE`;
+      expect(result.code).toBe(expected);
+    });
+
+    it('should not change operators inside string literals', async () => {
+      const pythonCode = 
+`total = a + b
+print("a == b and not c // d", total)
+x -= a + b`;
+      const result = await converter.convert(pythonCode);
+      const expected = 
+`total ← a + b
+OUTPUT "a == b and not c // d", total
+x ← x - (a + b)`;
+      expect(result.code).toBe(expected);
     });
 
     it.skip('should handle string concatenation', async () => {